@@ -134,6 +134,7 @@ echo -e "${BOLD}Step 4: Start HTTP Bridge (optional, for Cowork)${NC}"
 echo ""
 echo "  cd $INSTALL_DIR && npm run http"
 echo "  → Starts REST API on http://localhost:3456"
+echo "  → Access tokens are written to ~/.comet-mcp/http-tokens.json on first start"
 echo ""
 echo -e "${BOLD}Quick Test:${NC}"
 echo ""
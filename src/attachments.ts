@@ -0,0 +1,105 @@
+// Prompt attachments — local files and base64 blobs to upload with a prompt.
+//
+// The browser can only upload files from disk, so base64 attachments are
+// written to a private temp directory first; call cleanup() once the upload
+// has finished. Paths are checked here, on the machine this server runs on;
+// cdp-client translates them for the browser (e.g. under WSL).
+
+import { existsSync, mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join, resolve } from "path";
+
+// ---- Types ----
+
+/** A file path, or { path } / { data, name } where data is base64 or a data: URL. */
+export type AttachmentInput = string | { path?: string; data?: string; name?: string };
+
+export interface PreparedAttachments {
+  /** Absolute local paths, in input order. */
+  paths: string[];
+  /** File names as the page shows them. */
+  names: string[];
+  /** Remove temp files written for base64 attachments. */
+  cleanup(): void;
+}
+
+// ---- Constants ----
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+  "text/markdown": ".md",
+  "application/json": ".json",
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,/i;
+
+function sizeError(name: string, bytes: number): Error {
+  const mb = (n: number) => (n / 1024 / 1024).toFixed(1);
+  return new Error(`Attachment ${name} is ${mb(bytes)} MB; the limit is ${mb(MAX_ATTACHMENT_BYTES)} MB`);
+}
+
+/**
+ * Validate attachment arguments (shared by the MCP tool and the HTTP route)
+ * and make each one a local file. Throws on invalid input, leaving nothing
+ * behind.
+ */
+export function prepareAttachments(input: unknown): PreparedAttachments {
+  if (!Array.isArray(input)) throw new Error("attachments must be a list");
+  if (input.length > MAX_ATTACHMENTS) {
+    throw new Error(`At most ${MAX_ATTACHMENTS} attachments per prompt (got ${input.length})`);
+  }
+
+  let tempDir: string | null = null;
+  const cleanup = () => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  };
+
+  const paths: string[] = [];
+  try {
+    for (const [i, item] of (input as AttachmentInput[]).entries()) {
+      const spec = typeof item === "string" ? { path: item } : item;
+      if (!spec || typeof spec !== "object") throw new Error(`attachments[${i}] must be a path or an object`);
+
+      if (spec.path !== undefined) {
+        const path = resolve(spec.path);
+        if (!existsSync(path) || !statSync(path).isFile()) throw new Error(`Attachment not found: ${spec.path}`);
+        const size = statSync(path).size;
+        if (size > MAX_ATTACHMENT_BYTES) throw sizeError(spec.path, size);
+        paths.push(path);
+        continue;
+      }
+
+      if (typeof spec.data !== "string" || !spec.data) {
+        throw new Error(`attachments[${i}] needs a path or base64 data`);
+      }
+      const mime = spec.data.match(DATA_URL_PATTERN)?.[1]?.toLowerCase();
+      const bytes = Buffer.from(spec.data.replace(DATA_URL_PATTERN, ""), "base64");
+      if (bytes.length === 0) throw new Error(`attachments[${i}] has no data`);
+      const name = basename(spec.name || `attachment-${i + 1}${(mime && EXTENSION_BY_MIME[mime]) ?? ""}`);
+      if (bytes.length > MAX_ATTACHMENT_BYTES) throw sizeError(name, bytes.length);
+
+      tempDir ??= mkdtempSync(join(tmpdir(), "comet-attach-"));
+      // One subdirectory per blob, so two blobs may share a name
+      const dir = join(tempDir, String(i));
+      mkdirSync(dir);
+      const path = join(dir, name);
+      writeFileSync(path, bytes);
+      paths.push(path);
+    }
+  } catch (err) {
+    cleanup();
+    throw err;
+  }
+
+  return { paths, names: paths.map((p) => basename(p)), cleanup };
+}
@@ -0,0 +1,84 @@
+// Browser launch on Linux — which executable to start, with which arguments,
+// and how to find the process again.
+//
+// cdp-client.ts launches the browser; the pieces here are kept free of CDP
+// and of platform detection so they can be tested on any machine.
+//
+// Configuration:
+//   COMET_USER_DATA_DIR — profile directory for the browser launched on Linux.
+//     Default: ~/.comet-mcp/browser-profile (browser-profile-<port> when the
+//     CDP port is not 9222, so browsers on different ports never share one)
+// The executable itself is config.ts's browserPath; without one, the first
+// of LINUX_BROWSER_NAMES found on PATH is used.
+
+import { existsSync } from "fs";
+import { homedir } from "os";
+import { delimiter, join } from "path";
+import { DEFAULT_CONFIG } from "./config.js";
+
+/**
+ * Comet builds for Linux first, then Chromium-based browsers that work the same over CDP
+ */
+export const LINUX_BROWSER_NAMES = [
+  "comet",
+  "comet-browser",
+  "chromium",
+  "chromium-browser",
+  "google-chrome",
+  "google-chrome-stable",
+];
+
+/**
+ * Full path of the first of names found in a PATH directory. Names are tried
+ * in order, so an earlier name anywhere on PATH beats a later one.
+ */
+export function findOnPath(names: string[], pathEnv: string = process.env.PATH ?? ""): string | null {
+  const dirs = pathEnv.split(delimiter).filter(Boolean);
+  for (const name of names) {
+    for (const dir of dirs) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Profile of the browser launched on Linux. A dedicated profile keeps the
+ * debugging session away from the user's everyday browser (Chrome refuses
+ * remote debugging on its default profile) and lets pgrep find our process.
+ */
+export function linuxUserDataDir(port: number, env: NodeJS.ProcessEnv = process.env): string {
+  if (env.COMET_USER_DATA_DIR) return env.COMET_USER_DATA_DIR;
+  const name = port === DEFAULT_CONFIG.cdpPort ? "browser-profile" : `browser-profile-${port}`;
+  return join(homedir(), ".comet-mcp", name);
+}
+
+/**
+ * Command-line arguments to launch the browser with
+ */
+export function launchArgs(port: number, linux: boolean, env: NodeJS.ProcessEnv = process.env): string[] {
+  const args = [`--remote-debugging-port=${port}`];
+  if (linux) {
+    args.push(`--user-data-dir=${linuxUserDataDir(port, env)}`, "--no-first-run", "--no-default-browser-check");
+  }
+  return args;
+}
+
+/**
+ * pgrep/pkill pattern matching the launched browser: the Comet app bundle
+ * on macOS, the dedicated profile on Linux
+ */
+export function processPattern(port: number, linux: boolean, env: NodeJS.ProcessEnv = process.env): string {
+  return linux ? `--user-data-dir=${linuxUserDataDir(port, env)}` : "Comet.app";
+}
+
+/**
+ * Error for a Linux machine with no browser configured and none on PATH
+ */
+export function browserNotFoundError(): Error {
+  return new Error(
+    `Cannot find Comet or Chromium on PATH (looked for ${LINUX_BROWSER_NAMES.join(", ")}).\n` +
+      `Set browserPath in ~/.comet-mcp/config.json, COMET_BROWSER_PATH or --browser-path to the browser executable.`,
+  );
+}
@@ -1,11 +1,26 @@
 // CDP Client wrapper for Comet browser control
-// Supports macOS, Windows, and WSL
+// Supports macOS, Windows, WSL and Linux
+//
+// Configuration:
+//   browserPath (config.ts: COMET_BROWSER_PATH, --browser-path) — browser
+//     executable to launch. COMET_PATH is still read when it is not set.
+//     Default: Comet's install location on macOS and Windows; on Linux the
+//     first of comet, comet-browser, chromium, chromium-browser, google-chrome
+//     and google-chrome-stable found on PATH (see browser-launch.ts)
+// The CDP host and port come from config.ts (cdpHost, cdpPort). On a host
+// other than this machine, the browser must already be running.
 
 import CDP from "chrome-remote-interface";
-import { spawn, ChildProcess, execSync } from "child_process";
+import { spawn, ChildProcess, execFileSync, execSync } from "child_process";
 import { platform } from "os";
 import { existsSync } from "fs";
+import { NetworkActivity } from "./network-activity.js";
+import { AnswerCapture } from "./network-capture.js";
+import { fixtureModeFromEnv, type FixtureMethod } from "./cdp-fixtures.js";
+import { cdpHttpUrl, cometConfig, isLocalCdpHost } from "./config.js";
+import { browserNotFoundError, findOnPath, launchArgs, LINUX_BROWSER_NAMES, processPattern } from "./browser-launch.js";
 import type {
+  BrowserWindow,
   CDPTarget,
   CDPVersion,
   NavigateResult,
@@ -31,14 +46,36 @@ function isWSL(): boolean {
 
 const IS_WSL = isWSL();
 const IS_WINDOWS = platform() === "win32" || IS_WSL;
+const IS_LINUX = platform() === "linux" && !IS_WSL;
+
+/**
+ * Path of a local file as the browser sees it (a Windows path under WSL)
+ */
+export function toBrowserPath(localPath: string): string {
+  if (!IS_WSL) return localPath;
+  return execFileSync('wslpath', ['-w', localPath], { encoding: 'utf8' }).trim();
+}
+
+/**
+ * Set the files of the first <input type="file"> matching selector on a
+ * connection's page, as if the user had picked them. Fires the input's
+ * change event, so the page uploads them as usual.
+ */
+export async function setFileInputFilesOn(client: CDP.Client, selector: string, files: string[]): Promise<void> {
+  const { root } = await client.DOM.getDocument({ depth: 0 });
+  const { nodeId } = await client.DOM.querySelector({ nodeId: root.nodeId, selector });
+  if (!nodeId) throw new Error(`No file input found for selector: ${selector}`);
+  await client.DOM.setFileInputFiles({ nodeId, files: files.map(toBrowserPath) });
+}
 
 /**
  * Get the appropriate Comet executable path for the current platform
  */
 function getCometPath(): string {
-  // Allow override via environment variable
-  if (process.env.COMET_PATH) {
-    return process.env.COMET_PATH;
+  // Allow override via config (browserPath), or the older COMET_PATH variable
+  const configured = cometConfig().browserPath || process.env.COMET_PATH;
+  if (configured) {
+    return configured;
   }
 
   const os = platform();
@@ -66,13 +103,15 @@ function getCometPath(): string {
     return `${process.env.LOCALAPPDATA}\\Perplexity\\Comet\\Application\\comet.exe`;
   }
 
+  if (IS_LINUX) {
+    // Empty when nothing was found; startComet() reports it
+    return findOnPath(LINUX_BROWSER_NAMES) ?? "";
+  }
+
   // Fallback for other platforms
   return "/Applications/Comet.app/Contents/MacOS/Comet";
 }
 
-const COMET_PATH = getCometPath();
-const DEFAULT_PORT = 9222;
-
 // ============ WSL NETWORK HELPERS ============
 
 /**
@@ -101,8 +140,9 @@ async function canConnectToWindowsLocalhost(port: number): Promise<boolean> {
  * Get the port to use for CDP WebSocket connection from WSL
  * Throws helpful error if mirrored networking is not enabled
  */
-async function getWSLConnectPort(targetPort: number): Promise<number> {
-  if (!IS_WSL) return targetPort;
+async function getWSLConnectPort(targetPort: number, host: string): Promise<number> {
+  // Only Windows' localhost needs mirrored networking; other hosts are reached directly
+  if (!IS_WSL || !isLocalCdpHost(host)) return targetPort;
 
   const canConnect = await canConnectToWindowsLocalhost(targetPort);
   if (canConnect) {
@@ -163,10 +203,15 @@ async function windowsFetch(
 
 export class CometCDPClient {
   private client: CDP.Client | null = null;
+  private network: NetworkActivity | null = null;
+  private answerCapture: AnswerCapture | null = null;
+  /** Records page calls to, or replays them from, a fixture (COMET_CDP_RECORD / COMET_CDP_REPLAY) */
+  private fixtures = fixtureModeFromEnv();
   private cometProcess: ChildProcess | null = null;
   private state: CometState = {
     connected: false,
-    port: DEFAULT_PORT,
+    host: cometConfig().cdpHost,
+    port: cometConfig().cdpPort,
   };
   private lastTargetId: string | undefined;
   private reconnectAttempts: number = 0;
@@ -272,7 +317,7 @@ export class CometCDPClient {
         await this.startComet(this.state.port);
         await new Promise(resolve => setTimeout(resolve, 2000));
       } catch {
-        throw new Error('Cannot connect to Comet. Ensure Comet is running with --remote-debugging-port=9222');
+        throw new Error(`Cannot connect to Comet. Ensure Comet is running with --remote-debugging-port=${this.state.port}`);
       }
     }
 
@@ -351,7 +396,7 @@ export class CometCDPClient {
         check.on('error', () => resolve(false));
       } else {
         // macOS/Linux: use pgrep
-        const check = spawn('pgrep', ['-f', 'Comet.app']);
+        const check = spawn('pgrep', ['-f', '--', processPattern(this.state.port, IS_LINUX)]);
         check.on('close', (code) => resolve(code === 0));
         check.on('error', () => resolve(false));
       }
@@ -370,7 +415,7 @@ export class CometCDPClient {
         kill.on('error', () => setTimeout(resolve, 1000));
       } else {
         // macOS/Linux: use pkill
-        const kill = spawn('pkill', ['-f', 'Comet.app']);
+        const kill = spawn('pkill', ['-f', '--', processPattern(this.state.port, IS_LINUX)]);
         kill.on('close', () => setTimeout(resolve, 1000));
         kill.on('error', () => setTimeout(resolve, 1000));
       }
@@ -379,10 +424,30 @@ export class CometCDPClient {
 
   /**
    * Start Comet browser with remote debugging enabled
-   * Handles macOS, Windows, and WSL environments
+   * Handles macOS, Windows, WSL and Linux environments
    */
-  async startComet(port: number = DEFAULT_PORT): Promise<string> {
+  async startComet(port: number = cometConfig().cdpPort): Promise<string> {
     this.state.port = port;
+    const browserPath = getCometPath();
+
+    // ========== Remote host: the browser must already be running ==========
+    if (!isLocalCdpHost(this.state.host)) {
+      const url = cdpHttpUrl(this.state.host, port);
+      try {
+        const response = await fetch(`${url}/json/version`, { signal: AbortSignal.timeout(5000) });
+        if (response.ok) {
+          const version = await response.json() as CDPVersion;
+          return `Comet reachable at ${url}: ${version.Browser}`;
+        }
+        throw new Error(`HTTP ${response.status}`);
+      } catch (error) {
+        throw new Error(
+          `Cannot reach Comet at ${url} (${error instanceof Error ? error.message : String(error)}).\n` +
+          `Comet on another host is never launched from here: start it with --remote-debugging-port ` +
+          `and forward the port (e.g. ssh -L ${port}:127.0.0.1:${port} <host>).`
+        );
+      }
+    }
 
     // ========== WSL: Use PowerShell to communicate with Windows ==========
     if (IS_WSL) {
@@ -469,7 +534,7 @@ export class CometCDPClient {
 
       // Start Comet on Windows
       return new Promise((resolve, reject) => {
-        this.cometProcess = spawn(COMET_PATH, [`--remote-debugging-port=${port}`], {
+        this.cometProcess = spawn(browserPath, [`--remote-debugging-port=${port}`], {
           detached: true,
           stdio: "ignore",
         });
@@ -491,7 +556,7 @@ export class CometCDPClient {
           if (attempts < maxAttempts) {
             setTimeout(checkReady, 500);
           } else {
-            reject(new Error(`Timeout waiting for Comet. Try: "${COMET_PATH}" --remote-debugging-port=${port}`));
+            reject(new Error(`Timeout waiting for Comet. Try: "${browserPath}" --remote-debugging-port=${port}`));
           }
         };
 
@@ -517,12 +582,17 @@ export class CometCDPClient {
       }
     }
 
+    if (IS_LINUX && !browserPath) {
+      throw browserNotFoundError();
+    }
+
     // Start Comet on macOS/Linux
     return new Promise((resolve, reject) => {
-      this.cometProcess = spawn(COMET_PATH, [`--remote-debugging-port=${port}`], {
+      this.cometProcess = spawn(browserPath, launchArgs(port, IS_LINUX), {
         detached: true,
         stdio: "ignore",
       });
+      this.cometProcess.on('error', (err) => reject(new Error(`Cannot launch ${browserPath}: ${err.message}`)));
       this.cometProcess.unref();
 
       const maxAttempts = 40;
@@ -546,7 +616,7 @@ export class CometCDPClient {
         if (attempts < maxAttempts) {
           setTimeout(checkReady, 500);
         } else {
-          reject(new Error(`Timeout waiting for Comet. Try: ${COMET_PATH} --remote-debugging-port=${port}`));
+          reject(new Error(`Timeout waiting for Comet. Try: ${browserPath} ${launchArgs(port, IS_LINUX).join(' ')}`));
         }
       };
 
@@ -558,7 +628,7 @@ export class CometCDPClient {
    * Get CDP version info
    */
   async getVersion(): Promise<CDPVersion> {
-    const response = await windowsFetch(`http://127.0.0.1:${this.state.port}/json/version`);
+    const response = await windowsFetch(`${cdpHttpUrl(this.state.host, this.state.port)}/json/version`);
     if (!response.ok) throw new Error(`Failed to get version: ${response.status}`);
     return response.json() as Promise<CDPVersion>;
   }
@@ -567,7 +637,7 @@ export class CometCDPClient {
    * List all available tabs/targets
    */
   async listTargets(): Promise<CDPTarget[]> {
-    const response = await windowsFetch(`http://127.0.0.1:${this.state.port}/json/list`);
+    const response = await windowsFetch(`${cdpHttpUrl(this.state.host, this.state.port)}/json/list`);
     if (!response.ok) throw new Error(`Failed to list targets: ${response.status}`);
     return response.json() as Promise<CDPTarget[]>;
   }
@@ -581,12 +651,14 @@ export class CometCDPClient {
     }
 
     // On WSL, verify mirrored networking is available for WebSocket connection
-    const connectPort = await getWSLConnectPort(this.state.port);
+    const connectPort = await getWSLConnectPort(this.state.port, this.state.host);
 
-    const options: CDP.Options = { port: connectPort, host: '127.0.0.1' };
+    const options: CDP.Options = { port: connectPort, host: this.state.host };
     if (targetId) options.target = targetId;
 
     this.client = await CDP(options);
+    this.network = new NetworkActivity(this.client);
+    this.answerCapture = new AnswerCapture(this.client);
 
     await Promise.all([
       this.client.Page.enable(),
@@ -628,6 +700,8 @@ export class CometCDPClient {
     if (this.client) {
       await this.client.close();
       this.client = null;
+      this.network = null;
+      this.answerCapture = null;
       this.state.connected = false;
       this.state.activeTabId = undefined;
     }
@@ -637,11 +711,14 @@ export class CometCDPClient {
    * Navigate to a URL
    */
   async navigate(url: string, waitForLoad: boolean = true): Promise<NavigateResult> {
-    this.ensureConnected();
-    const result = await this.client!.Page.navigate({ url });
-    if (waitForLoad) await this.client!.Page.loadEventFired();
+    const result = await this.withFixtures("navigate", [url, waitForLoad], async () => {
+      this.ensureConnected();
+      const result = await this.client!.Page.navigate({ url });
+      if (waitForLoad) await this.client!.Page.loadEventFired();
+      return result as NavigateResult;
+    });
     this.state.currentUrl = url;
-    return result as NavigateResult;
+    return result;
   }
 
   /**
@@ -656,12 +733,14 @@ export class CometCDPClient {
    * Execute JavaScript in the page context
    */
   async evaluate(expression: string): Promise<EvaluateResult> {
-    this.ensureConnected();
-    return this.client!.Runtime.evaluate({
-      expression,
-      awaitPromise: true,
-      returnByValue: true,
-    }) as Promise<EvaluateResult>;
+    return this.withFixtures("evaluate", [expression], async () => {
+      this.ensureConnected();
+      return this.client!.Runtime.evaluate({
+        expression,
+        awaitPromise: true,
+        returnByValue: true,
+      }) as Promise<EvaluateResult>;
+    });
   }
 
   /**
@@ -669,16 +748,18 @@ export class CometCDPClient {
    * This is the PREFERRED method - always use this instead of evaluate()
    */
   async safeEvaluate(expression: string): Promise<EvaluateResult> {
-    // Always check health first to catch silently dead connections
-    await this.ensureHealthyConnection();
-
-    return this.withAutoReconnect(async () => {
-      this.ensureConnected();
-      return this.client!.Runtime.evaluate({
-        expression,
-        awaitPromise: true,
-        returnByValue: true,
-      }) as Promise<EvaluateResult>;
+    return this.withFixtures("safeEvaluate", [expression], async () => {
+      // Always check health first to catch silently dead connections
+      await this.ensureHealthyConnection();
+
+      return this.withAutoReconnect(async () => {
+        this.ensureConnected();
+        return this.client!.Runtime.evaluate({
+          expression,
+          awaitPromise: true,
+          returnByValue: true,
+        }) as Promise<EvaluateResult>;
+      });
     });
   }
 
@@ -686,9 +767,82 @@ export class CometCDPClient {
    * Press a key
    */
   async pressKey(key: string): Promise<void> {
-    this.ensureConnected();
-    await this.client!.Input.dispatchKeyEvent({ type: "keyDown", key });
-    await this.client!.Input.dispatchKeyEvent({ type: "keyUp", key });
+    await this.withFixtures("pressKey", [key], async () => {
+      this.ensureConnected();
+      await this.client!.Input.dispatchKeyEvent({ type: "keyDown", key });
+      await this.client!.Input.dispatchKeyEvent({ type: "keyUp", key });
+    });
+  }
+
+  /**
+   * Put local files into a file input (see setFileInputFilesOn)
+   */
+  async setFileInputFiles(selector: string, files: string[]): Promise<void> {
+    await this.withFixtures("setFileInputFiles", [selector, files], async () => {
+      this.ensureConnected();
+      await setFileInputFilesOn(this.client!, selector, files);
+    });
+  }
+
+  /**
+   * How long the connected tab's network has been quiet, or null when not connected
+   */
+  networkIdleMs(): number | null {
+    const run = () => this.network?.idleMs() ?? null;
+    return this.fixtures ? this.fixtures.callSync("networkIdleMs", [], run) : run();
+  }
+
+  /**
+   * Start capturing the next answer stream on the connected tab, or null when not connected
+   * (always null while replaying: answer streams are not part of fixtures)
+   */
+  startAnswerCapture(): AnswerCapture | null {
+    if (this.fixtures?.kind === "replay") return null;
+    return this.answerCapture?.start() ?? null;
+  }
+
+  /**
+   * Run a page call through the fixture recorder or replayer, if one is configured
+   */
+  private withFixtures<T>(method: FixtureMethod, args: unknown[], run: () => Promise<T>): Promise<T> {
+    return this.fixtures ? this.fixtures.call(method, args, run) : run();
+  }
+
+  /**
+   * Position and size of every browser window that holds a page, through a
+   * browser-level CDP connection (works on every platform, unlike AppleScript)
+   */
+  async getWindows(): Promise<BrowserWindow[]> {
+    const version = await this.getVersion();
+    const connectPort = await getWSLConnectPort(this.state.port, this.state.host);
+    const browser = await CDP({ host: this.state.host, port: connectPort, target: version.webSocketDebuggerUrl });
+    try {
+      const windows = new Map<number, BrowserWindow>();
+      for (const target of await this.listTargets()) {
+        if (target.type !== 'page') continue;
+        try {
+          const { windowId, bounds } = await browser.Browser.getWindowForTarget({ targetId: target.id });
+          let window = windows.get(windowId);
+          if (!window) {
+            window = {
+              windowId,
+              title: target.title,
+              left: bounds.left ?? 0,
+              top: bounds.top ?? 0,
+              width: bounds.width ?? 0,
+              height: bounds.height ?? 0,
+              windowState: bounds.windowState ?? 'normal',
+              targetIds: [],
+            };
+            windows.set(windowId, window);
+          }
+          window.targetIds.push(target.id);
+        } catch { /* target closed meanwhile, or has no window */ }
+      }
+      return [...windows.values()];
+    } finally {
+      await browser.close();
+    }
   }
 
   /**
@@ -696,7 +850,7 @@ export class CometCDPClient {
    */
   async newTab(url?: string): Promise<CDPTarget> {
     const response = await windowsFetch(
-      `http://127.0.0.1:${this.state.port}/json/new${url ? `?${url}` : ""}`,
+      `${cdpHttpUrl(this.state.host, this.state.port)}/json/new${url ? `?${url}` : ""}`,
       'PUT'
     );
     if (!response.ok) throw new Error(`Failed to create new tab: ${response.status}`);
@@ -715,13 +869,29 @@ export class CometCDPClient {
     } catch { /* fallback to HTTP */ }
 
     try {
-      const response = await windowsFetch(`http://127.0.0.1:${this.state.port}/json/close/${targetId}`);
+      const response = await windowsFetch(`${cdpHttpUrl(this.state.host, this.state.port)}/json/close/${targetId}`);
       return response.ok;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Open a separate CDP connection to a tab, leaving the main connection
+   * where it is. The caller owns the returned client and must close it.
+   */
+  async attachToTarget(targetId: string): Promise<CDP.Client> {
+    const connectPort = await getWSLConnectPort(this.state.port, this.state.host);
+    const client = await CDP({ port: connectPort, host: this.state.host, target: targetId });
+    try {
+      await Promise.all([client.Page.enable(), client.Runtime.enable(), client.Network.enable()]);
+    } catch (error) {
+      await client.close().catch(() => {});
+      throw error;
+    }
+    return client;
+  }
+
   private ensureConnected(): void {
     if (!this.client) {
       throw new Error("Not connected to Comet. Call connect() first.");
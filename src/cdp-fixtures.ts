@@ -0,0 +1,250 @@
+// CDP fixtures — record page calls against a live Comet, replay them offline.
+//
+// Recording writes every page-level call (evaluate, navigate, pressKey, ...)
+// and its result to a JSON fixture. Replaying serves those results back
+// without a browser, so CometAI and the tool handlers can be regression
+// tested in vitest. A call is matched by its method and exact arguments; calls
+// with the same arguments are answered in recorded order, and the last answer
+// repeats once they run out (a polling loop that runs longer still settles).
+// A call that was never recorded throws, so drift in the page scripts shows up
+// as a failing test instead of a silently different result.
+//
+// Configuration (cometClient):
+//   COMET_CDP_RECORD — path of a fixture to record the session into
+//   COMET_CDP_REPLAY — path of a fixture to serve page calls from, without
+//     connecting to a browser
+//
+// In tests, wrap any PageDriver in a RecordingPageDriver, or drive CometAI
+// with a ReplayPageDriver.
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { PageDriver } from "./cdp-sessions.js";
+import type { AnswerCapture } from "./network-capture.js";
+import type { EvaluateResult, NavigateResult } from "./types.js";
+
+// ---- Types ----
+
+export type FixtureMethod =
+  | "evaluate"
+  | "safeEvaluate"
+  | "navigate"
+  | "pressKey"
+  | "setFileInputFiles"
+  | "networkIdleMs";
+
+export interface FixtureCall {
+  method: FixtureMethod;
+  args: unknown[];
+  /** Absent for calls that return nothing or threw. */
+  result?: unknown;
+  /** Message of the error the call threw. */
+  error?: string;
+}
+
+export interface FixtureFile {
+  version: number;
+  recordedAt: string;
+  calls: FixtureCall[];
+}
+
+/** Where page calls go: through to the browser and into a fixture, or to a fixture only. */
+export interface FixtureMode {
+  readonly kind: "record" | "replay";
+  call<T>(method: FixtureMethod, args: unknown[], run: () => Promise<T>): Promise<T>;
+  callSync<T>(method: FixtureMethod, args: unknown[], run: () => T): T;
+}
+
+// ---- Constants ----
+
+export const FIXTURE_VERSION = 1;
+
+function callKey(method: FixtureMethod, args: unknown[]): string {
+  return `${method}:${JSON.stringify(args)}`;
+}
+
+function preview(args: unknown[]): string {
+  const text = JSON.stringify(args).replace(/\s+/g, " ");
+  return text.length > 120 ? `${text.substring(0, 120)}...` : text;
+}
+
+// ---- Recording ----
+
+export class FixtureRecorder implements FixtureMode {
+  readonly kind = "record";
+  readonly calls: FixtureCall[] = [];
+  private readonly startedAt = new Date().toISOString();
+
+  /** @param path File rewritten after every call, or null to keep the calls in memory. */
+  constructor(private readonly path: string | null = null) {}
+
+  async call<T>(method: FixtureMethod, args: unknown[], run: () => Promise<T>): Promise<T> {
+    try {
+      const result = await run();
+      this.push({ method, args, ...(result === undefined ? {} : { result }) });
+      return result;
+    } catch (err) {
+      this.push({ method, args, error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+  }
+
+  callSync<T>(method: FixtureMethod, args: unknown[], run: () => T): T {
+    const result = run();
+    this.push({ method, args, ...(result === undefined ? {} : { result }) });
+    return result;
+  }
+
+  toFixture(): FixtureFile {
+    return { version: FIXTURE_VERSION, recordedAt: this.startedAt, calls: this.calls };
+  }
+
+  save(path: string | null = this.path): void {
+    if (!path) return;
+    mkdirSync(dirname(path), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.toFixture(), null, 2), "utf-8");
+    renameSync(tmp, path);
+  }
+
+  private push(call: FixtureCall): void {
+    // Round-trip through JSON so the recording holds exactly what a replay will see
+    this.calls.push(JSON.parse(JSON.stringify(call)));
+    this.save();
+  }
+}
+
+// ---- Replay ----
+
+export class FixtureReplayer implements FixtureMode {
+  readonly kind = "replay";
+  private queues = new Map<string, FixtureCall[]>();
+
+  constructor(fixture: FixtureFile) {
+    if (fixture.version !== FIXTURE_VERSION || !Array.isArray(fixture.calls)) {
+      throw new Error(`Unsupported CDP fixture (version ${fixture.version})`);
+    }
+    for (const call of fixture.calls) {
+      const key = callKey(call.method, call.args);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(call);
+      this.queues.set(key, queue);
+    }
+  }
+
+  static load(path: string): FixtureReplayer {
+    if (!existsSync(path)) throw new Error(`CDP fixture not found: ${path}`);
+    return new FixtureReplayer(JSON.parse(readFileSync(path, "utf-8")));
+  }
+
+  async call<T>(method: FixtureMethod, args: unknown[]): Promise<T> {
+    return this.next<T>(method, args);
+  }
+
+  callSync<T>(method: FixtureMethod, args: unknown[]): T {
+    return this.next<T>(method, args);
+  }
+
+  /** Recorded calls not yet replayed (repeats of a last answer do not count). */
+  remaining(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length - 1;
+    return count;
+  }
+
+  private next<T>(method: FixtureMethod, args: unknown[]): T {
+    const queue = this.queues.get(callKey(method, args));
+    if (!queue) throw new Error(`No recorded ${method} call matches ${preview(args)}`);
+    const call = queue.length > 1 ? queue.shift()! : queue[0];
+    if (call.error !== undefined) throw new Error(call.error);
+    // Hand out copies so callers that mutate results cannot change later replays
+    return (call.result === undefined ? undefined : structuredClone(call.result)) as T;
+  }
+}
+
+/** The fixture mode COMET_CDP_REPLAY or COMET_CDP_RECORD asks for, or null. */
+export function fixtureModeFromEnv(): FixtureMode | null {
+  if (process.env.COMET_CDP_REPLAY) return FixtureReplayer.load(process.env.COMET_CDP_REPLAY);
+  if (process.env.COMET_CDP_RECORD) return new FixtureRecorder(process.env.COMET_CDP_RECORD);
+  return null;
+}
+
+// ---- Page drivers ----
+
+/** Passes calls through to a page, recording each one. */
+export class RecordingPageDriver implements PageDriver {
+  constructor(
+    private readonly page: PageDriver,
+    readonly recorder: FixtureRecorder = new FixtureRecorder(),
+  ) {}
+
+  get targetId(): string | undefined {
+    return this.page.targetId;
+  }
+
+  evaluate(expression: string): Promise<EvaluateResult> {
+    return this.recorder.call("evaluate", [expression], () => this.page.evaluate(expression));
+  }
+
+  safeEvaluate(expression: string): Promise<EvaluateResult> {
+    return this.recorder.call("safeEvaluate", [expression], () => this.page.safeEvaluate(expression));
+  }
+
+  pressKey(key: string): Promise<void> {
+    return this.recorder.call("pressKey", [key], () => this.page.pressKey(key));
+  }
+
+  navigate(url: string, waitForLoad: boolean = true): Promise<NavigateResult> {
+    return this.recorder.call("navigate", [url, waitForLoad], () => this.page.navigate(url, waitForLoad));
+  }
+
+  setFileInputFiles(selector: string, files: string[]): Promise<void> {
+    return this.recorder.call("setFileInputFiles", [selector, files], () => this.page.setFileInputFiles(selector, files));
+  }
+
+  networkIdleMs(): number | null {
+    return this.recorder.callSync("networkIdleMs", [], () => this.page.networkIdleMs());
+  }
+
+  startAnswerCapture(): AnswerCapture | null {
+    return this.page.startAnswerCapture();
+  }
+}
+
+/** Serves page calls from a fixture; no browser involved. */
+export class ReplayPageDriver implements PageDriver {
+  constructor(
+    private readonly replayer: FixtureReplayer,
+    readonly targetId?: string,
+  ) {}
+
+  evaluate(expression: string): Promise<EvaluateResult> {
+    return this.replayer.call("evaluate", [expression]);
+  }
+
+  safeEvaluate(expression: string): Promise<EvaluateResult> {
+    return this.replayer.call("safeEvaluate", [expression]);
+  }
+
+  pressKey(key: string): Promise<void> {
+    return this.replayer.call("pressKey", [key]);
+  }
+
+  navigate(url: string, waitForLoad: boolean = true): Promise<NavigateResult> {
+    return this.replayer.call("navigate", [url, waitForLoad]);
+  }
+
+  setFileInputFiles(selector: string, files: string[]): Promise<void> {
+    return this.replayer.call("setFileInputFiles", [selector, files]);
+  }
+
+  networkIdleMs(): number | null {
+    return this.replayer.callSync("networkIdleMs", []);
+  }
+
+  /** Answer streams are not recorded; replays read answers from the page. */
+  startAnswerCapture(): AnswerCapture | null {
+    return null;
+  }
+}
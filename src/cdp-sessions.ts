@@ -0,0 +1,218 @@
+// CDP session pool — one connection per tab, shared and reference counted.
+//
+// cometClient holds a single connection that connect(targetId) moves from tab
+// to tab. Work that names its own tab takes a session from this pool instead:
+// sessions are opened on first acquire, shared by concurrent users of the same
+// tab, and closed once they have been unused for idleMs. A session whose
+// socket drops (tab closed, browser restarted) leaves the pool, and the next
+// acquire reconnects.
+//
+// Usage:
+//   await cdpSessions.withSession(targetId, (page) => page.evaluate("document.title"));
+
+import type CDP from "chrome-remote-interface";
+import { cometClient, setFileInputFilesOn } from "./cdp-client.js";
+import { NetworkActivity } from "./network-activity.js";
+import { AnswerCapture } from "./network-capture.js";
+import type { EvaluateResult, NavigateResult } from "./types.js";
+
+// ---- Types ----
+
+/** Page-level operations offered by both cometClient and pooled sessions. */
+export interface PageDriver {
+  /** Set when the driver is bound to a single tab. */
+  readonly targetId?: string;
+  evaluate(expression: string): Promise<EvaluateResult>;
+  /** evaluate() that survives a dropped connection where the driver can reconnect. */
+  safeEvaluate(expression: string): Promise<EvaluateResult>;
+  pressKey(key: string): Promise<void>;
+  navigate(url: string, waitForLoad?: boolean): Promise<NavigateResult>;
+  /** Put local files into the first file input matching selector. */
+  setFileInputFiles(selector: string, files: string[]): Promise<void>;
+  /** How long the tab's network has been quiet (see NetworkActivity), or null if not tracked. */
+  networkIdleMs(): number | null;
+  /** Start capturing the next answer stream (see AnswerCapture), or null if not connected. */
+  startAnswerCapture(): AnswerCapture | null;
+}
+
+export interface CdpSessionPoolOptions {
+  /** Close a session this long after its last release (default 60000). */
+  idleMs?: number;
+}
+
+export interface CdpSessionInfo {
+  targetId: string;
+  refs: number;
+  /** How long the session has been unused, or null while in use. */
+  idle_ms: number | null;
+}
+
+interface PoolEntry {
+  session: CdpSession;
+  refs: number;
+  idleSince: number | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_IDLE_MS = 60_000;
+
+// ---- Session ----
+
+/** A connection to one tab. Obtain through CdpSessionPool.acquire(). */
+export class CdpSession implements PageDriver {
+  readonly targetId: string;
+  readonly client: CDP.Client;
+  private pool: CdpSessionPool;
+  private network: NetworkActivity;
+  private answerCapture: AnswerCapture;
+
+  constructor(targetId: string, client: CDP.Client, pool: CdpSessionPool) {
+    this.targetId = targetId;
+    this.client = client;
+    this.pool = pool;
+    this.network = new NetworkActivity(client);
+    this.answerCapture = new AnswerCapture(client);
+  }
+
+  async evaluate(expression: string): Promise<EvaluateResult> {
+    return this.client.Runtime.evaluate({
+      expression,
+      awaitPromise: true,
+      returnByValue: true,
+    }) as Promise<EvaluateResult>;
+  }
+
+  /** Same as evaluate(): a dropped session leaves the pool, so the next acquire reconnects. */
+  async safeEvaluate(expression: string): Promise<EvaluateResult> {
+    return this.evaluate(expression);
+  }
+
+  async pressKey(key: string): Promise<void> {
+    await this.client.Input.dispatchKeyEvent({ type: "keyDown", key });
+    await this.client.Input.dispatchKeyEvent({ type: "keyUp", key });
+  }
+
+  async navigate(url: string, waitForLoad: boolean = true): Promise<NavigateResult> {
+    const result = await this.client.Page.navigate({ url });
+    if (waitForLoad) await this.client.Page.loadEventFired();
+    return result as NavigateResult;
+  }
+
+  async setFileInputFiles(selector: string, files: string[]): Promise<void> {
+    await setFileInputFilesOn(this.client, selector, files);
+  }
+
+  networkIdleMs(): number | null {
+    return this.network.idleMs();
+  }
+
+  startAnswerCapture(): AnswerCapture {
+    return this.answerCapture.start();
+  }
+
+  /** Give the session back to its pool. Call once per acquire(). */
+  release(): void {
+    this.pool.release(this);
+  }
+}
+
+// ---- Pool ----
+
+export class CdpSessionPool {
+  private entries = new Map<string, PoolEntry>();
+  private connecting = new Map<string, Promise<PoolEntry>>();
+  private connectTarget: (targetId: string) => Promise<CDP.Client>;
+  private idleMs: number;
+
+  constructor(connect: (targetId: string) => Promise<CDP.Client>, options: CdpSessionPoolOptions = {}) {
+    this.connectTarget = connect;
+    this.idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+  }
+
+  /** Get the session for a tab, connecting on first use. Pair with release(). */
+  async acquire(targetId: string): Promise<CdpSession> {
+    let entry = this.entries.get(targetId);
+    if (!entry) {
+      let pending = this.connecting.get(targetId);
+      if (!pending) {
+        pending = this.open(targetId).finally(() => this.connecting.delete(targetId));
+        this.connecting.set(targetId, pending);
+      }
+      entry = await pending;
+    }
+
+    entry.refs++;
+    entry.idleSince = null;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    return entry.session;
+  }
+
+  release(session: CdpSession): void {
+    const entry = this.entries.get(session.targetId);
+    if (!entry || entry.session !== session || entry.refs === 0) return;
+
+    entry.refs--;
+    if (entry.refs > 0) return;
+    entry.idleSince = Date.now();
+    entry.idleTimer = setTimeout(() => void this.close(session.targetId), this.idleMs);
+    entry.idleTimer.unref?.();
+  }
+
+  /** Run fn on the tab's session, releasing it afterwards. */
+  async withSession<T>(targetId: string, fn: (session: CdpSession) => Promise<T>): Promise<T> {
+    const session = await this.acquire(targetId);
+    try {
+      return await fn(session);
+    } finally {
+      session.release();
+    }
+  }
+
+  list(): CdpSessionInfo[] {
+    const now = Date.now();
+    return [...this.entries.values()].map((e) => ({
+      targetId: e.session.targetId,
+      refs: e.refs,
+      idle_ms: e.idleSince === null ? null : now - e.idleSince,
+    }));
+  }
+
+  /** Close a tab's session now, whether or not it is in use. */
+  async close(targetId: string): Promise<void> {
+    const entry = this.entries.get(targetId);
+    if (!entry) return;
+    this.drop(entry);
+    await entry.session.client.close().catch(() => {});
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.entries.keys()].map((id) => this.close(id)));
+  }
+
+  private async open(targetId: string): Promise<PoolEntry> {
+    const client = await this.connectTarget(targetId);
+    const entry: PoolEntry = {
+      session: new CdpSession(targetId, client, this),
+      refs: 0,
+      idleSince: null,
+      idleTimer: null,
+    };
+    client.on("disconnect", () => this.drop(entry));
+    this.entries.set(targetId, entry);
+    return entry;
+  }
+
+  private drop(entry: PoolEntry): void {
+    if (entry.idleTimer) clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+    if (this.entries.get(entry.session.targetId) === entry) {
+      this.entries.delete(entry.session.targetId);
+    }
+  }
+}
+
+/** Singleton pool over the browser cometClient launched. */
+export const cdpSessions = new CdpSessionPool((targetId) => cometClient.attachToTarget(targetId));
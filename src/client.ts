@@ -0,0 +1,320 @@
+// Comet Bridge HTTP client — generated from the OpenAPI document of the HTTP
+// bridge (Comet Bridge HTTP API 2.3.0) by src/generate-client.ts.
+// Do not edit: change the route table in src/http-routes.ts and run
+// `npm run generate:client`.
+//
+//   const comet = new CometBridgeClient({ token: process.env.COMET_API_TOKEN });
+//   const { answer } = await comet.ask({ prompt: "What is new in AI?" });
+
+// ─── Types ───────────────────────────────────────────────────────
+
+/** A JSON response body: the tool's structured result. */
+export type BridgeResponse = Record<string, any>;
+
+export interface CometBridgeClientOptions {
+  /** Base URL of the bridge (default: http://localhost:3456). */
+  baseUrl?: string;
+  /** Bearer token from ~/.comet-mcp/http-tokens.json. */
+  token?: string;
+  /** fetch implementation (default: the global fetch). */
+  fetch?: typeof fetch;
+}
+
+export interface HealthQuery {
+  /** Bypass cache and run fresh probes (default: false) */
+  force?: boolean;
+}
+
+export interface ConnectRequest {
+  /** Close ungrouped non-Perplexity tabs (default: false). Tabs in groups are always preserved. */
+  clean?: boolean;
+}
+
+export interface AskRequest {
+  /** Question or task for Comet - focus on goals and context */
+  prompt: string;
+  /** Start a fresh conversation (default: false) */
+  newChat?: boolean;
+  /** Max wait time in ms (default: 15000 = 15s) */
+  timeout?: number;
+  /** CDP target ID of a Perplexity tab to ask in, without moving the main connection (optional; newChat then restarts that tab) */
+  tab_id?: string;
+  /** Continue this thread (ID or URL from an earlier comet_ask or comet_threads); reuses a tab showing it or opens one. Cannot be combined with newChat */
+  thread_id?: string;
+  /** How to read the answer: 'dom' scrapes the page; 'network' reads Perplexity's response stream for exact text and sources, falling back to the page when the stream is not recognised (default: COMET_ANSWER_CAPTURE, else 'dom') */
+  capture?: "dom" | "network";
+  /** Files to upload with the prompt, e.g. a PDF or screenshot to analyze: a local file path, or { data, name } with base64 (or data: URL) content. At most 10, 50 MB each */
+  attachments?: Array<string | {
+    /** Local file path */
+    path?: string;
+    /** Base64 file content or data: URL */
+    data?: string;
+    /** File name to upload as (for data) */
+    name?: string;
+  }>;
+}
+
+export interface ResearchBatchRequest {
+  /** Questions to research, one tab each */
+  prompts: string[];
+  /** Max wait for all answers in ms (default: 120000 = 2min) */
+  timeout?: number;
+  /** Collect the tabs in a new tab group (requires the Tab Groups Bridge extension; default: false) */
+  group?: boolean;
+  /** Tab group title (implies group; default: 'Research batch') */
+  group_title?: string;
+  /** Tab group color (implies group) */
+  group_color?: "grey" | "blue" | "red" | "yellow" | "green" | "pink" | "purple" | "cyan" | "orange";
+  /** Close the tabs once answers are collected (default: false) */
+  close_tabs?: boolean;
+}
+
+export interface ListThreadsQuery {
+  /** Max threads to list (default: 50) */
+  limit?: number;
+}
+
+export interface OpenThreadRequest {
+  /** Thread ID or URL (required for open; for history, omit to read the thread in tab_id or the main tab) */
+  thread_id: string;
+  /** CDP target ID of the tab to open or read the thread in (optional) */
+  tab_id?: string;
+}
+
+export interface ThreadHistoryRequest {
+  /** Thread ID or URL (required for open; for history, omit to read the thread in tab_id or the main tab) */
+  thread_id?: string;
+  /** CDP target ID of the tab to open or read the thread in (optional) */
+  tab_id?: string;
+}
+
+export interface PollQuery {
+  /** Orchestrator task ID to check (optional — omit for Comet AI agent status) */
+  task_id?: string;
+  /** CDP target ID of the tab to check (optional — omit for the main tab) */
+  tab_id?: string;
+}
+
+export interface ListTasksQuery {
+  /** Only tasks in this state */
+  state?: "pending" | "running" | "completed" | "failed" | "cancelled";
+  /** Max tasks to return (default: 50) */
+  limit?: number;
+}
+
+export interface StopRequest {
+  /** Orchestrator task ID to cancel (optional — omit to stop Comet AI agent) */
+  task_id?: string;
+  /** CDP target ID of the tab whose agent to stop (optional — omit for the main tab) */
+  tab_id?: string;
+}
+
+export interface ModeRequest {
+  /** Mode to switch to (optional - omit to see current mode) */
+  mode?: "search" | "research" | "labs" | "learn";
+}
+
+export interface SelfcheckQuery {
+  /** Tab to check (from comet_tab_groups list_tabs). Defaults to the connected tab. */
+  tab_id?: string;
+}
+
+export interface DelegateRequest {
+  /** Natural-language task description */
+  description: string;
+  /** Tab ID to target (optional) */
+  target_tab?: string;
+  /** Max execution time in ms (default: 60000). A comet_ask step still running then is stopped; other tools run to completion, keeping their tab busy until they do */
+  timeout_ms?: number;
+  /** Return immediately with task ID and run in the background; poll with comet_poll task_id (default: false) */
+  async?: boolean;
+  /** Force a specific template name (optional) */
+  template?: string;
+}
+
+export interface MonitorQuery {
+  /** Which section to return (default: all) */
+  section?: "windows" | "tabs" | "all";
+}
+
+export interface CreateTabGroupRequest {
+  /** Tab IDs (for create, ungroup) */
+  tabIds: number[];
+  /** Group title (for create, update) */
+  title?: string;
+  /** Group color (for create, update) */
+  color?: "grey" | "blue" | "red" | "yellow" | "green" | "pink" | "purple" | "cyan" | "orange";
+}
+
+export interface UpdateTabGroupRequest {
+  /** Group ID (for update, move, delete) */
+  groupId: number;
+  /** Group title (for create, update) */
+  title?: string;
+  /** Group color (for create, update) */
+  color?: "grey" | "blue" | "red" | "yellow" | "green" | "pink" | "purple" | "cyan" | "orange";
+  /** Collapse/expand group (for update) */
+  collapsed?: boolean;
+}
+
+export interface DeleteTabGroupRequest {
+  /** Group ID (for update, move, delete) */
+  groupId: number;
+}
+
+// ─── Client ──────────────────────────────────────────────────────
+
+/** A response with a status other than 2xx; message is the server's error. */
+export class CometBridgeError extends Error {
+  constructor(readonly status: number, readonly body: BridgeResponse) {
+    super(typeof body.error === "string" ? body.error : `HTTP ${status}`);
+    this.name = "CometBridgeError";
+  }
+}
+
+export class CometBridgeClient {
+  private readonly baseUrl: string;
+  private readonly token?: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: CometBridgeClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? "http://localhost:3456";
+    this.token = options.token;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  private async request(method: "GET" | "POST", path: string, params: object = {}): Promise<BridgeResponse> {
+    const url = new URL(path, this.baseUrl);
+    const headers: Record<string, string> = {};
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    let body: string | undefined;
+    if (method === "GET") {
+      for (const [name, value] of Object.entries(params)) {
+        if (value !== undefined) url.searchParams.set(name, String(value));
+      }
+    } else {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(params);
+    }
+
+    const res = await this.fetchImpl(url, { method, headers, body });
+    const data = (await res.json()) as BridgeResponse;
+    if (!res.ok) throw new CometBridgeError(res.status, data);
+    return data;
+  }
+
+  /** This API as an OpenAPI 3 document (GET /api/openapi.json) */
+  openapi(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/openapi.json");
+  }
+
+  /** Raw CDP targets (GET /api/targets) */
+  targets(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/targets");
+  }
+
+  /** Tab groups, tabs, targets, window geometry, tool metrics and sessions for the dashboard (GET /api/dashboard-data) */
+  dashboardData(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/dashboard-data");
+  }
+
+  /** Unified health check; a plain liveness answer while the orchestrator starts (GET /api/health) */
+  health(params: HealthQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/health", params);
+  }
+
+  /** Start Comet and connect to a Perplexity tab (POST /api/connect) */
+  connect(params: ConnectRequest = {}): Promise<BridgeResponse> {
+    return this.request("POST", "/api/connect", params);
+  }
+
+  /** Send a prompt and wait for the answer (POST /api/ask) */
+  ask(params: AskRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/ask", params);
+  }
+
+  /** Research several prompts in parallel tabs (POST /api/research-batch) */
+  researchBatch(params: ResearchBatchRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/research-batch", params);
+  }
+
+  /** Known threads, newest first (GET /api/threads) */
+  listThreads(params: ListThreadsQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/threads", params);
+  }
+
+  /** Open a thread in a tab (POST /api/threads/open) */
+  openThread(params: OpenThreadRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/threads/open", params);
+  }
+
+  /** Q&A turns of a thread, opening it first if no tab shows it (POST /api/threads/history) */
+  threadHistory(params: ThreadHistoryRequest = {}): Promise<BridgeResponse> {
+    return this.request("POST", "/api/threads/history", params);
+  }
+
+  /** Agent status of a tab, or state of a delegated task (GET /api/poll) */
+  poll(params: PollQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/poll", params);
+  }
+
+  /** Delegated task history, newest first (GET /api/tasks) */
+  listTasks(params: ListTasksQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/tasks", params);
+  }
+
+  /** Stop an agent, or cancel a delegated task (POST /api/stop) */
+  stop(params: StopRequest = {}): Promise<BridgeResponse> {
+    return this.request("POST", "/api/stop", params);
+  }
+
+  /** Capture a page screenshot (GET /api/screenshot) */
+  screenshot(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/screenshot");
+  }
+
+  /** Get or set the Perplexity mode (POST /api/mode) */
+  mode(params: ModeRequest = {}): Promise<BridgeResponse> {
+    return this.request("POST", "/api/mode", params);
+  }
+
+  /** Check site profile selectors against the page (GET /api/selfcheck) */
+  selfcheck(params: SelfcheckQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/selfcheck", params);
+  }
+
+  /** Delegate a task to the orchestrator (POST /api/delegate) */
+  delegate(params: DelegateRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/delegate", params);
+  }
+
+  /** Orchestrator monitor state (GET /api/monitor) */
+  monitor(params: MonitorQuery = {}): Promise<BridgeResponse> {
+    return this.request("GET", "/api/monitor", params);
+  }
+
+  /** List all tab groups (GET /api/tab-groups) */
+  listTabGroups(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/tab-groups");
+  }
+
+  /** Create a tab group (POST /api/tab-groups) */
+  createTabGroup(params: CreateTabGroupRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/tab-groups", params);
+  }
+
+  /** List all tabs with group info (GET /api/tab-groups/tabs) */
+  listTabs(): Promise<BridgeResponse> {
+    return this.request("GET", "/api/tab-groups/tabs");
+  }
+
+  /** Rename, recolor or collapse a tab group (POST /api/tab-groups/update) */
+  updateTabGroup(params: UpdateTabGroupRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/tab-groups/update", params);
+  }
+
+  /** Delete a tab group; its tabs stay open (POST /api/tab-groups/delete) */
+  deleteTabGroup(params: DeleteTabGroupRequest): Promise<BridgeResponse> {
+    return this.request("POST", "/api/tab-groups/delete", params);
+  }
+}
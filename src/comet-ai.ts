@@ -2,23 +2,421 @@
 // Handles sending prompts to Comet's AI assistant and reading responses
 
 import { cometClient } from "./cdp-client.js";
+import type { PageDriver } from "./cdp-sessions.js";
+import { cometEvents } from "./event-bus.js";
+import { pageProfileScript, siteProfile, siteStrings, PERPLEXITY_MODES, type PerplexityMode, type SiteProfile } from "./site-profile.js";
+import type { ResearchAnswer } from "./types.js";
+
+// Selectors and UI strings come from the active site profile (site-profile.ts);
+// page scripts read them from the P object its prelude defines.
+
+const ATTACH_TIMEOUT_MS = 30_000;
+
+// Upper bound on answer markdown returned to callers
+const MAX_ANSWER_CHARS = 50_000;
+
+// An answer unchanged this long, with the network this quiet, is complete
+const ANSWER_SETTLE_MS = 3_000;
+const NETWORK_QUIET_MS = 2_000;
+
+/**
+ * Page-script helpers shared by agentStatusScript() and threadTurnsScript(),
+ * placed after the profile prelude.
+ * isAnswerProse() tells answer bodies from other prose blocks, answerTurn()
+ * finds the container of one question/answer pair, and extractAnswer()
+ * converts an answer body to a ResearchAnswer.
+ */
+const ANSWER_HELPERS = `
+    const isAnswerProse = (el) => {
+      if (el.closest(P.sel.pageChrome)) return false;
+      const text = el.innerText.trim();
+      const isUIText = P.text.uiLabels.some(ui => text.startsWith(ui));
+      if (isUIText) return false;
+      if (text.endsWith('?') && text.length < 100) return false;
+      return text.length > 5;
+    };
+
+    const answerTurn = (answerEl, mainContent) => {
+      let turn = answerEl;
+      for (let i = 0; i < 6 && turn.parentElement && turn.parentElement !== mainContent; i++) {
+        if (turn.parentElement.querySelectorAll(P.sel.answerProse).length > 1) break;
+        turn = turn.parentElement;
+      }
+      return turn;
+    };
+
+    // reviewedText is searched for the last "Reviewed N sources" count
+    const extractAnswer = (answerEl, mainContent, reviewedText) => {
+      const citations = [];
+      const citationByUrl = new Map();
+      const isExternal = (href) => /^https?:/i.test(href) && !/perplexity\\.ai/i.test(href);
+      const linkTitle = (a) => {
+        const label = a.getAttribute('aria-label') || a.getAttribute('title') || '';
+        const text = (a.innerText || '').trim().split('\\n')[0];
+        if (label.trim()) return label.trim();
+        if (text && !/^\\d+$/.test(text)) return text;
+        try { return new URL(a.href).hostname.replace(/^www\\./, ''); } catch { return a.href; }
+      };
+      const isCitationLink = (a) => {
+        const cls = (a.className && a.className.toString()) || '';
+        const text = (a.innerText || '').trim();
+        return /citation/i.test(cls) || a.closest('sup, [class*="citation"]') !== null ||
+               /^\\[?\\d+\\]?$/.test(text) || /^[\\w.-]+\\.[a-z]{2,}(\\s*\\+\\d+)?$/i.test(text);
+      };
+      const cite = (a) => {
+        const url = a.href;
+        if (!citationByUrl.has(url)) {
+          citationByUrl.set(url, citations.length + 1);
+          citations.push({ marker: citations.length + 1, url, title: linkTitle(a) });
+        }
+        return '[' + citationByUrl.get(url) + ']';
+      };
+
+      const inline = (node) => {
+        if (node.nodeType === Node.TEXT_NODE) return node.textContent.replace(/\\s+/g, ' ');
+        if (node.nodeType !== Node.ELEMENT_NODE) return '';
+        const tag = node.tagName.toLowerCase();
+        if (tag === 'br') return '\\n';
+        if (tag === 'button' || tag === 'svg' || tag === 'style' || tag === 'script') return '';
+        if (tag === 'a' && node.href) {
+          if (isExternal(node.href) && isCitationLink(node)) return cite(node);
+          const text = [...node.childNodes].map(inline).join('').trim();
+          return text ? '[' + text + '](' + node.href + ')' : '';
+        }
+        const inner = [...node.childNodes].map(inline).join('');
+        if (!inner.trim()) return inner;
+        if (tag === 'strong' || tag === 'b') return '**' + inner.trim() + '**';
+        if (tag === 'em' || tag === 'i') return '*' + inner.trim() + '*';
+        if (tag === 'code') return '\\u0060' + inner + '\\u0060';
+        return inner;
+      };
+
+      const block = (node, depth) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          const text = node.textContent.replace(/\\s+/g, ' ').trim();
+          return text ? [text] : [];
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return [];
+        const tag = node.tagName.toLowerCase();
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) return ['#'.repeat(Number(heading[1])) + ' ' + inline(node).trim()];
+        if (tag === 'p') {
+          const text = inline(node).trim();
+          return text ? [text] : [];
+        }
+        if (tag === 'pre') return ['\\u0060\\u0060\\u0060\\n' + node.innerText.replace(/\\n$/, '') + '\\n\\u0060\\u0060\\u0060'];
+        if (tag === 'blockquote') {
+          return [...node.childNodes].flatMap(c => block(c, depth))
+            .map(l => '> ' + l.replace(/\\n/g, '\\n> '));
+        }
+        if (tag === 'ul' || tag === 'ol') {
+          const lines = [];
+          let n = 1;
+          for (const li of node.children) {
+            if (li.tagName.toLowerCase() !== 'li') continue;
+            const marker = tag === 'ol' ? (n++) + '. ' : '- ';
+            const own = [...li.childNodes].filter(c => !(c.nodeType === Node.ELEMENT_NODE &&
+              ['ul', 'ol'].includes(c.tagName.toLowerCase())));
+            const nested = [...li.children].filter(c => ['ul', 'ol'].includes(c.tagName.toLowerCase()));
+            lines.push('  '.repeat(depth) + marker + own.map(inline).join('').replace(/\\s+/g, ' ').trim());
+            for (const sub of nested) lines.push(...block(sub, depth + 1));
+          }
+          return depth === 0 ? [lines.join('\\n')] : lines;
+        }
+        if (tag === 'table') {
+          const rows = [...node.querySelectorAll('tr')].map(tr =>
+            '| ' + [...tr.children].map(c => inline(c).trim().replace(/\\|/g, '\\\\|')).join(' | ') + ' |');
+          if (rows.length === 0) return [];
+          const cols = node.querySelector('tr').children.length;
+          rows.splice(1, 0, '|' + ' --- |'.repeat(cols));
+          return [rows.join('\\n')];
+        }
+        if (tag === 'button' || tag === 'svg' || tag === 'style' || tag === 'script') return [];
+        const hasBlockChild = [...node.children].some(c =>
+          /^(p|h[1-6]|ul|ol|pre|table|blockquote|div|section)$/i.test(c.tagName));
+        if (!hasBlockChild) {
+          const text = inline(node).trim();
+          return text ? [text] : [];
+        }
+        return [...node.childNodes].flatMap(c => block(c, depth));
+      };
+
+      const markdown = block(answerEl, 0).join('\\n\\n')
+        .replace(/\\n{3,}/g, '\\n\\n')
+        .trim();
+
+      // Sources: every external link in the answer's turn, outside the prose body
+      const sources = [];
+      const seen = new Set();
+      const turn = answerTurn(answerEl, mainContent);
+      for (const c of citations) {
+        seen.add(c.url);
+        sources.push({ url: c.url, title: c.title });
+      }
+      for (const a of turn.querySelectorAll('a[href]')) {
+        if (!isExternal(a.href) || seen.has(a.href)) continue;
+        seen.add(a.href);
+        sources.push({ url: a.href, title: linkTitle(a) });
+      }
+
+      const reviewed = [...reviewedText.matchAll(new RegExp(P.text.reviewedSources, 'gi'))].pop();
+      const sourceCount = reviewed
+        ? Number(reviewed[1] ?? reviewed[0].match(/\\d+/)[0])
+        : null;
+
+      return { markdown, citations, sources, sourceCount };
+    };
+`;
+
+/**
+ * Locale-neutral evidence behind a status, from the DOM, aria attributes and
+ * the network. textFallback is set when the decision came from the profile's
+ * UI strings instead.
+ */
+export interface AgentStatusSignals {
+  stopButton: boolean;
+  loading: boolean;
+  busy: boolean;
+  answer: boolean;
+  answerStableMs: number;
+  answerActions: boolean;
+  networkIdleMs: number | null;
+  textFallback: boolean;
+}
+
+/** Agent status as read from a Perplexity tab by agentStatusScript(). */
+export interface AgentStatusSnapshot {
+  status: "idle" | "working" | "completed";
+  steps: string[];
+  currentStep: string;
+  answer: ResearchAnswer | null;
+  hasStopButton: boolean;
+  signals?: AgentStatusSignals;
+}
+
+/**
+ * Page script that reports the agent's status and, once completed, the
+ * answer as markdown with citations and sources. Evaluates to an
+ * AgentStatusSnapshot; usable on any Perplexity tab, not just cometClient's.
+ *
+ * Status comes from signals that read the same in every UI language: the
+ * stop button's icon, spinners and aria-busy mean working; an answer that
+ * has stopped changing (or grown its action buttons) while the network is
+ * quiet means completed. The profile's UI strings only decide when those
+ * signals are inconclusive.
+ *
+ * @param networkIdleMs How long the tab's network has been quiet
+ *   (PageDriver.networkIdleMs()), or null when unknown.
+ */
+export function agentStatusScript(
+  profile: SiteProfile = siteProfile(),
+  networkIdleMs: number | null = null,
+): string {
+  return `
+  (() => {
+    ${pageProfileScript(profile)}
+    ${ANSWER_HELPERS}
+    const body = document.body.innerText;
+    const mainContent = document.querySelector(P.sel.mainContent) || document.body;
+
+    // Check for active stop button: its square icon, or its label
+    let hasActiveStopButton = false;
+    for (const btn of document.querySelectorAll('button')) {
+      const icon = btn.querySelector(P.sel.stopIcon);
+      const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
+      if ((icon || ariaLabel.includes(P.text.stopLabel.toLowerCase())) &&
+          btn.offsetParent !== null && !btn.disabled) {
+        hasActiveStopButton = true;
+        break;
+      }
+    }
+
+    const hasLoadingSpinner = document.querySelector(P.sel.loadingIndicator) !== null;
+    const isBusy = mainContent.querySelector(P.sel.busy) !== null;
+
+    let answerEl = null;
+    for (const el of mainContent.querySelectorAll(P.sel.answerProse)) {
+      if (isAnswerProse(el)) answerEl = el;
+    }
+
+    // How long the answer has been unchanged, remembered across polls by the page
+    const answerText = answerEl ? answerEl.innerText : '';
+    const signature = answerText.length + ':' + answerText.slice(-200);
+    if (!window.__cometAnswerMemo || window.__cometAnswerMemo.signature !== signature) {
+      window.__cometAnswerMemo = { signature, since: Date.now() };
+    }
+    const answerStableMs = Date.now() - window.__cometAnswerMemo.since;
+
+    // Copy/share/rewrite controls appear below an answer once it is done
+    const hasAnswerActions = answerEl !== null &&
+      [...answerTurn(answerEl, mainContent).querySelectorAll(P.sel.answerActions)].some(el =>
+        el.offsetParent !== null && !answerEl.contains(el) &&
+        (answerEl.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0);
+
+    const networkIdleMs = ${JSON.stringify(networkIdleMs)};
+    const networkQuiet = networkIdleMs === null || networkIdleMs >= ${NETWORK_QUIET_MS};
+
+    // UI strings of the profile's locale, used when the signals above are inconclusive
+    const hasStepsCompleted = new RegExp(P.text.stepsCompleted, 'i').test(body);
+    const hasFinishedMarker = body.includes(P.text.finished) && !hasActiveStopButton;
+    const hasReviewedSources = new RegExp(P.text.reviewedSources, 'i').test(body);
+    const hasAskFollowUp = body.includes(P.text.askFollowUp);
+    const hasProseContent = [...document.querySelectorAll(P.sel.answerProse)].some(
+      el => el.innerText.trim().length > 0
+    );
+    const hasWorkingText = P.text.working.some(p => body.includes(p));
+
+    // Determine status
+    let status = 'idle';
+    let textFallback = false;
+    if (hasActiveStopButton || hasLoadingSpinner || isBusy) {
+      status = 'working';
+    } else if (answerEl && networkQuiet && (hasAnswerActions || answerStableMs >= ${ANSWER_SETTLE_MS})) {
+      status = 'completed';
+    } else if (answerEl && !networkQuiet) {
+      status = 'working';
+    } else {
+      textFallback = true;
+      if (hasStepsCompleted || hasFinishedMarker) {
+        status = 'completed';
+      } else if (hasReviewedSources && !hasWorkingText) {
+        status = 'completed';
+      } else if (hasWorkingText) {
+        status = 'working';
+      } else if (hasAskFollowUp && hasProseContent) {
+        status = 'completed';
+      } else if (answerEl) {
+        // Answer still settling
+        status = 'working';
+        textFallback = false;
+      } else {
+        textFallback = false;
+      }
+    }
+
+    // Extract steps: each step line runs from its prefix to the end of the line
+    const steps = [];
+    for (const prefix of P.text.steps) {
+      let at = body.indexOf(prefix);
+      while (at !== -1) {
+        const eol = body.indexOf('\\n', at);
+        const end = eol === -1 ? body.length : eol;
+        steps.push(body.substring(at, end).trim().substring(0, 100));
+        at = body.indexOf(prefix, end);
+      }
+    }
 
-// Input selectors - contenteditable div is primary for Perplexity
-const INPUT_SELECTORS = [
-  '[contenteditable="true"]',
-  'textarea[placeholder*="Ask"]',
-  'textarea[placeholder*="Search"]',
-  'textarea',
-  'input[type="text"]',
-];
+    // Extract response as markdown, keeping structure and citations
+    const answer = status === 'completed' && answerEl ? extractAnswer(answerEl, mainContent, body) : null;
+
+    return {
+      status,
+      steps: [...new Set(steps)].slice(-5),
+      currentStep: steps.length > 0 ? steps[steps.length - 1] : '',
+      answer,
+      hasStopButton: hasActiveStopButton,
+      signals: {
+        stopButton: hasActiveStopButton,
+        loading: hasLoadingSpinner,
+        busy: isBusy,
+        answer: answerEl !== null,
+        answerStableMs,
+        answerActions: hasAnswerActions,
+        networkIdleMs,
+        textFallback,
+      },
+    };
+  })()
+`;
+}
+
+/** A thread as read from its tab by threadTurnsScript(). */
+export interface ThreadTurnsSnapshot {
+  url: string;
+  turns: Array<{ question: string; answer: ResearchAnswer }>;
+}
+
+/**
+ * Page script that reads every question/answer pair of the thread open in
+ * the tab, oldest first. Each answer is paired with the last question shown
+ * before it. Evaluates to a ThreadTurnsSnapshot.
+ */
+export function threadTurnsScript(profile: SiteProfile = siteProfile()): string {
+  return `
+  (() => {
+    ${pageProfileScript(profile)}
+    ${ANSWER_HELPERS}
+    const mainContent = document.querySelector(P.sel.mainContent) || document.body;
+    const answers = [...mainContent.querySelectorAll(P.sel.answerProse)]
+      .filter(isAnswerProse)
+      .filter((el, _, all) => !all.some(other => other !== el && other.contains(el)));
+    const questions = [...mainContent.querySelectorAll(P.sel.threadQuestion)]
+      .filter(el => !el.closest(P.sel.answerProse + ', ' + P.sel.pageChrome) && el.innerText.trim());
+    const precedes = (a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+
+    let next = 0;
+    const turns = answers.map(answerEl => {
+      let question = '';
+      while (next < questions.length && precedes(questions[next], answerEl)) {
+        question = questions[next].innerText.trim();
+        next++;
+      }
+      const turnText = answerTurn(answerEl, mainContent).innerText;
+      return { question, answer: extractAnswer(answerEl, mainContent, turnText) };
+    });
+
+    return { url: window.location.href, turns };
+  })()
+`;
+}
+
+/** Cap an over-long answer at MAX_ANSWER_CHARS (mutates and returns the snapshot). */
+export function clampAnswer(snapshot: AgentStatusSnapshot): AgentStatusSnapshot {
+  if (snapshot.answer && snapshot.answer.markdown.length > MAX_ANSWER_CHARS) {
+    snapshot.answer.markdown = snapshot.answer.markdown.substring(0, MAX_ANSWER_CHARS);
+  }
+  return snapshot;
+}
+
+/**
+ * Render an answer as markdown followed by its numbered source list,
+ * so plain-text consumers still see where each [n] marker points.
+ */
+export function formatAnswer(answer: ResearchAnswer): string {
+  let text = answer.markdown;
+  if (answer.citations.length > 0) {
+    text += `\n\nCitations:\n`;
+    text += answer.citations.map((c) => `[${c.marker}] ${c.title} — ${c.url}`).join("\n");
+  }
+  const extra = answer.sources.filter((s) => !answer.citations.some((c) => c.url === s.url));
+  const heading = answer.sourceCount !== null ? `Reviewed ${answer.sourceCount} sources` : "Sources";
+  if (extra.length > 0) {
+    text += `\n\n${heading}:\n`;
+    text += extra.map((s) => `- ${s.title} — ${s.url}`).join("\n");
+  } else if (answer.sourceCount !== null) {
+    text += `\n\n${heading}`;
+  }
+  return text.trim();
+}
 
 export class CometAI {
+  private page: PageDriver;
+  private lastPublishedStatus = "";
+
+  /**
+   * @param page Tab to drive — the shared cometClient connection by default,
+   *   or a CdpSession to work on a specific tab alongside it.
+   */
+  constructor(page: PageDriver = cometClient) {
+    this.page = page;
+  }
+
   /**
    * Find the first matching element from a list of selectors
    */
   private async findInputElement(): Promise<string | null> {
-    for (const selector of INPUT_SELECTORS) {
-      const result = await cometClient.evaluate(`
+    for (const selector of siteProfile().selectors.input) {
+      const result = await this.page.evaluate(`
         document.querySelector(${JSON.stringify(selector)}) !== null
       `);
       if (result.result.value === true) {
@@ -29,31 +427,71 @@ export class CometAI {
   }
 
   /**
-   * Send a prompt to Comet's AI (Perplexity)
+   * Upload local files through Perplexity's attach control, one at a time,
+   * waiting for each to show up in the composer before the next
+   */
+  async attachFiles(paths: string[]): Promise<void> {
+    const { fileInput, uploadProgress } = siteProfile().selectors;
+    for (const path of paths) {
+      const name = path.split(/[\\/]/).pop() ?? path;
+      // The composer may truncate long names, so look for a prefix
+      const label = JSON.stringify(name.substring(0, 20));
+      const scope = `((document.querySelector(${JSON.stringify(fileInput)}) || document.body).closest('form') || document.body)`;
+      const thumbnails = `${scope}.querySelectorAll('img[src^="blob:"], img[src^="data:"]').length`;
+
+      const before = (await this.page.evaluate(thumbnails)).result.value as number;
+      await this.page.setFileInputFiles(fileInput, [path]);
+
+      const start = Date.now();
+      let ready = false;
+      while (!ready && Date.now() - start < ATTACH_TIMEOUT_MS) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const result = await this.page.evaluate(`
+          (() => {
+            const scope = ${scope};
+            const uploading = scope.querySelector(${JSON.stringify(uploadProgress)}) !== null;
+            const shown = scope.innerText.includes(${label}) || ${thumbnails} > ${before};
+            return shown && !uploading;
+          })()
+        `);
+        ready = result.result.value === true;
+      }
+      if (!ready) {
+        throw new Error(`Attachment ${name} did not finish uploading within ${ATTACH_TIMEOUT_MS / 1000}s`);
+      }
+    }
+  }
+
+  /**
+   * Send a prompt to Comet's AI (Perplexity), optionally with local files
+   * attached (see attachFiles)
    */
-  async sendPrompt(prompt: string): Promise<string> {
+  async sendPrompt(prompt: string, attachments: string[] = []): Promise<string> {
     const inputSelector = await this.findInputElement();
 
     if (!inputSelector) {
       throw new Error("Could not find input element. Navigate to Perplexity first.");
     }
 
+    if (attachments.length > 0) {
+      await this.attachFiles(attachments);
+    }
+
     // Use execCommand for contenteditable elements (works with React/Vue)
-    const result = await cometClient.evaluate(`
+    const result = await this.page.evaluate(`
       (() => {
-        const el = document.querySelector('[contenteditable="true"]');
-        if (el) {
+        const el = document.querySelector(${JSON.stringify(inputSelector)});
+        if (el && el.isContentEditable) {
           el.focus();
           document.execCommand('selectAll', false, null);
           document.execCommand('insertText', false, ${JSON.stringify(prompt)});
           return { success: true };
         }
-        // Fallback for textarea
-        const textarea = document.querySelector('textarea');
-        if (textarea) {
-          textarea.focus();
-          textarea.value = ${JSON.stringify(prompt)};
-          textarea.dispatchEvent(new Event('input', { bubbles: true }));
+        // Fallback for textarea and plain inputs
+        if (el && 'value' in el) {
+          el.focus();
+          el.value = ${JSON.stringify(prompt)};
+          el.dispatchEvent(new Event('input', { bubbles: true }));
           return { success: true };
         }
         return { success: false };
@@ -66,63 +504,59 @@ export class CometAI {
     }
 
     // Submit the prompt
-    await this.submitPrompt();
+    await this.submitPrompt(inputSelector);
 
-    return `Prompt sent: "${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}"`;
+    const withFiles = attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : '';
+    return `Prompt sent${withFiles}: "${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}"`;
   }
 
   /**
    * Submit the current prompt
    */
-  private async submitPrompt(): Promise<void> {
+  private async submitPrompt(inputSelector: string): Promise<void> {
+    const prelude = pageProfileScript(siteProfile());
+    const input = `document.querySelector(${JSON.stringify(inputSelector)})`;
+    // Typed text of the input, whether contenteditable or a form field
+    const inputText = `((el) => el ? (el.isContentEditable ? el.innerText : el.value || '').trim() : '')(${input})`;
+
     // Wait for React to process the typed content
     await new Promise(resolve => setTimeout(resolve, 500));
 
     // Verify text was typed before attempting submit
-    const hasContent = await cometClient.evaluate(`
-      (() => {
-        const el = document.querySelector('[contenteditable="true"]');
-        if (el && el.innerText.trim().length > 0) return true;
-        const textarea = document.querySelector('textarea');
-        if (textarea && textarea.value.trim().length > 0) return true;
-        return false;
-      })()
-    `);
+    const hasContent = await this.page.evaluate(`${inputText}.length > 0`);
 
     if (!hasContent.result.value) {
       throw new Error("Prompt text not found in input - typing may have failed");
     }
 
     // Strategy 1: Use Enter key (most reliable for Perplexity)
-    await cometClient.evaluate(`
+    await this.page.evaluate(`
       (() => {
-        const el = document.querySelector('[contenteditable="true"]') ||
-                   document.querySelector('textarea');
+        const el = ${input};
         if (el) el.focus();
       })()
     `);
-    await cometClient.pressKey("Enter");
+    await this.page.pressKey("Enter");
     await new Promise(resolve => setTimeout(resolve, 500));
 
     // Check if submission worked
-    const submitted = await cometClient.evaluate(`
+    const submitted = await this.page.evaluate(`
       (() => {
-        const el = document.querySelector('[contenteditable="true"]');
-        if (el && el.innerText.trim().length < 5) return true;
-        const hasLoading = document.querySelector('[class*="animate"]') !== null;
+        ${prelude}
+        if (${inputText}.length < 5) return true;
+        const hasLoading = document.querySelector(P.sel.activityIndicator) !== null;
         return hasLoading;
       })()
     `);
     if (submitted.result.value) return;
 
     // Strategy 2: Click submit button
-    await cometClient.evaluate(`
+    await this.page.evaluate(`
       (() => {
+        ${prelude}
         const selectors = [
-          'button[aria-label*="Submit"]',
-          'button[aria-label*="Send"]',
-          'button[aria-label*="Ask"]',
-          'button[type="submit"]',
+          ...P.text.submitLabels.map(label => 'button[aria-label*="' + label + '"]'),
+          P.sel.submitButton,
         ];
 
         for (const sel of selectors) {
@@ -134,8 +568,7 @@ export class CometAI {
         }
 
         // Find rightmost button with SVG near input
-        const inputEl = document.querySelector('[contenteditable="true"]') ||
-                        document.querySelector('textarea');
+        const inputEl = ${input};
         if (inputEl) {
           const inputRect = inputEl.getBoundingClientRect();
           let parent = inputEl.parentElement;
@@ -148,9 +581,7 @@ export class CometAI {
               const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
 
               // Skip mode/attach/voice buttons
-              if (ariaLabel.includes('search') || ariaLabel.includes('research') ||
-                  ariaLabel.includes('labs') || ariaLabel.includes('learn') ||
-                  ariaLabel.includes('attach') || ariaLabel.includes('voice')) {
+              if (P.text.nonSubmitLabels.some(label => ariaLabel.includes(label))) {
                 continue;
               }
 
@@ -172,19 +603,19 @@ export class CometAI {
 
     // Final check and retry with Enter if still not submitted
     await new Promise(resolve => setTimeout(resolve, 500));
-    const finalCheck = await cometClient.evaluate(`
+    const finalCheck = await this.page.evaluate(`
       (() => {
-        const el = document.querySelector('[contenteditable="true"]');
-        if (el && el.innerText.trim().length < 5) return true;
-        const hasLoading = document.querySelector('[class*="animate"]') !== null;
-        const hasProseContent = document.querySelectorAll('[class*="prose"]').length > 0;
+        ${prelude}
+        if (${inputText}.length < 5) return true;
+        const hasLoading = document.querySelector(P.sel.activityIndicator) !== null;
+        const hasProseContent = document.querySelectorAll(P.sel.answerProse).length > 0;
         return hasLoading || hasProseContent;
       })()
     `);
 
     if (!finalCheck.result.value) {
       // Last resort: try Enter one more time
-      await cometClient.pressKey("Enter");
+      await this.page.pressKey("Enter");
     }
   }
 
@@ -196,6 +627,7 @@ export class CometAI {
     steps: string[];
     currentStep: string;
     response: string;
+    answer: ResearchAnswer | null;
     hasStopButton: boolean;
     agentBrowsingUrl: string;
   }> {
@@ -210,127 +642,58 @@ export class CometAI {
       // Continue without URL
     }
 
-    const result = await cometClient.safeEvaluate(`
-      (() => {
-        const body = document.body.innerText;
+    const result = await this.page.safeEvaluate(agentStatusScript(siteProfile(), this.page.networkIdleMs()));
+    const value = clampAnswer(result.result.value as AgentStatusSnapshot);
 
-        // Check for active stop button
-        let hasActiveStopButton = false;
-        for (const btn of document.querySelectorAll('button')) {
-          const rect = btn.querySelector('rect');
-          const ariaLabel = (btn.getAttribute('aria-label') || '').toLowerCase();
-          if ((rect || ariaLabel.includes('stop')) &&
-              btn.offsetParent !== null && !btn.disabled) {
-            hasActiveStopButton = true;
-            break;
-          }
-        }
-
-        const hasLoadingSpinner = document.querySelector('[class*="animate-spin"], [class*="animate-pulse"]') !== null;
-        const hasStepsCompleted = /\\d+ steps? completed/i.test(body);
-        const hasFinishedMarker = body.includes('Finished') && !hasActiveStopButton;
-        const hasReviewedSources = /Reviewed \\d+ sources?/i.test(body);
-        const hasAskFollowUp = body.includes('Ask a follow-up');
-        const hasProseContent = [...document.querySelectorAll('[class*="prose"]')].some(
-          el => el.innerText.trim().length > 0
-        );
-
-        const workingPatterns = [
-          'Working', 'Searching', 'Reviewing sources', 'Preparing to assist',
-          'Clicking', 'Typing:', 'Navigating to', 'Reading', 'Analyzing'
-        ];
-        const hasWorkingText = workingPatterns.some(p => body.includes(p));
-
-        // Determine status
-        let status = 'idle';
-        if (hasActiveStopButton || hasLoadingSpinner) {
-          status = 'working';
-        } else if (hasStepsCompleted || hasFinishedMarker) {
-          status = 'completed';
-        } else if (hasReviewedSources && !hasWorkingText) {
-          status = 'completed';
-        } else if (hasWorkingText) {
-          status = 'working';
-        } else if (hasAskFollowUp && hasProseContent && !hasActiveStopButton) {
-          status = 'completed';
-        }
-
-        // Extract steps
-        const steps = [];
-        const stepPatterns = [
-          /Preparing to assist[^\\n]*/g, /Clicking[^\\n]*/g, /Typing:[^\\n]*/g,
-          /Navigating[^\\n]*/g, /Reading[^\\n]*/g, /Searching[^\\n]*/g, /Found[^\\n]*/g
-        ];
-        for (const pattern of stepPatterns) {
-          const matches = body.match(pattern);
-          if (matches) steps.push(...matches.map(s => s.trim().substring(0, 100)));
-        }
-
-        // Extract response
-        let response = '';
-        if (status === 'completed') {
-          const mainContent = document.querySelector('main') || document.body;
-          const allProseEls = mainContent.querySelectorAll('[class*="prose"]');
-          const validProseTexts = [];
-
-          for (const el of allProseEls) {
-            if (el.closest('nav, aside, header, footer, form')) continue;
-
-            const text = el.innerText.trim();
-            const isUIText = ['Library', 'Discover', 'Spaces', 'Finance', 'Account',
-                              'Upgrade', 'Home', 'Search', 'Ask a follow-up'].some(ui => text.startsWith(ui));
-            if (isUIText) continue;
-            if (text.endsWith('?') && text.length < 100) continue;
-            if (text.length > 5) validProseTexts.push(text);
-          }
-
-          if (validProseTexts.length > 0) {
-            response = validProseTexts[validProseTexts.length - 1];
-          }
-
-          // Clean up response
-          if (response) {
-            response = response.replace(/View All|Show more|Ask a follow-up|\\d+ sources?/gi, '').trim();
-            response = response.replace(/\\s+/g, ' ').trim();
-          }
-        }
-
-        return {
-          status,
-          steps: [...new Set(steps)].slice(-5),
-          currentStep: steps.length > 0 ? steps[steps.length - 1] : '',
-          response: response.substring(0, 8000),
-          hasStopButton: hasActiveStopButton
-        };
-      })()
-    `);
+    this.publishStatusChange(value.status, value.currentStep, value.steps, agentBrowsingUrl);
 
     return {
-      ...(result.result.value as {
-        status: "idle" | "working" | "completed";
-        steps: string[];
-        currentStep: string;
-        response: string;
-        hasStopButton: boolean;
-      }),
+      ...value,
+      response: value.answer?.markdown ?? "",
       agentBrowsingUrl,
     };
   }
 
+  /**
+   * Publish an agent status event when status, step or browsing URL changed
+   */
+  private publishStatusChange(
+    status: "idle" | "working" | "completed",
+    currentStep: string,
+    steps: string[],
+    agentBrowsingUrl: string,
+  ): void {
+    const signature = `${status}|${currentStep}|${agentBrowsingUrl}`;
+    if (signature === this.lastPublishedStatus) return;
+    this.lastPublishedStatus = signature;
+    const targetId = this.page.targetId;
+    cometEvents.publish({
+      type: "agent",
+      status,
+      currentStep,
+      steps,
+      agentBrowsingUrl,
+      ...(targetId ? { targetId } : {}),
+    });
+  }
+
   /**
    * Stop the current agent task
    */
   async stopAgent(): Promise<boolean> {
-    const result = await cometClient.evaluate(`
+    const result = await this.page.evaluate(`
       (() => {
+        ${pageProfileScript(siteProfile())}
         // Try aria-label buttons first
-        for (const btn of document.querySelectorAll('button[aria-label*="Stop"], button[aria-label*="Cancel"]')) {
+        const labelled = [P.text.stopLabel, P.text.cancelLabel]
+          .map(label => 'button[aria-label*="' + label + '"]').join(', ');
+        for (const btn of document.querySelectorAll(labelled)) {
           btn.click();
           return true;
         }
         // Try square stop icon
         for (const btn of document.querySelectorAll('button')) {
-          if (btn.querySelector('svg rect')) {
+          if (btn.querySelector(P.sel.stopIcon)) {
             btn.click();
             return true;
           }
@@ -340,6 +703,94 @@ export class CometAI {
     `);
     return result.result.value as boolean;
   }
+
+  /**
+   * Read the selected Perplexity mode (search when it cannot be told)
+   */
+  async getMode(): Promise<PerplexityMode> {
+    const result = await this.page.evaluate(`
+      (() => {
+        ${pageProfileScript(siteProfile())}
+        const modes = Object.entries(P.text.modes);
+        for (const [mode, label] of modes) {
+          const btn = document.querySelector(P.sel.modeButton.replace('{label}', label));
+          if (btn && btn.getAttribute('data-state') === 'checked') return mode;
+        }
+        const dropdownBtn = document.querySelector(P.sel.modeDropdown);
+        if (dropdownBtn) {
+          const text = dropdownBtn.innerText.toLowerCase();
+          for (const [mode, label] of modes) {
+            if (text.includes(label.toLowerCase())) return mode;
+          }
+        }
+        return 'search';
+      })()
+    `);
+    return result.result.value as PerplexityMode;
+  }
+
+  /**
+   * Switch Perplexity mode, opening Perplexity first if the tab is elsewhere.
+   * Clicks the mode button, or picks the mode from the mode menu.
+   */
+  async setMode(mode: string): Promise<void> {
+    if (!PERPLEXITY_MODES.includes(mode as PerplexityMode)) {
+      throw new Error(`Invalid mode: ${mode}. Use: ${PERPLEXITY_MODES.join(", ")}`);
+    }
+    const profile = siteProfile();
+    const label = siteStrings(profile).modes[mode as PerplexityMode];
+
+    const url = await this.page.evaluate("window.location.href");
+    if (!String(url.result.value ?? "").includes("perplexity.ai")) {
+      await this.page.navigate("https://www.perplexity.ai/", true);
+    }
+
+    const result = await this.page.evaluate(`
+      (() => {
+        ${pageProfileScript(profile)}
+        const btn = document.querySelector(P.sel.modeButton.replace('{label}', ${JSON.stringify(label)}));
+        if (btn) {
+          btn.click();
+          return { success: true, method: 'button' };
+        }
+
+        const labels = Object.values(P.text.modes).map(l => l.toLowerCase());
+        for (const b of document.querySelectorAll('button')) {
+          const text = b.innerText.toLowerCase();
+          if (labels.some(l => text.includes(l)) && b.querySelector('svg')) {
+            b.click();
+            return { success: true, method: 'dropdown-open', needsSelect: true };
+          }
+        }
+
+        return { success: false, error: "Mode selector not found" };
+      })()
+    `);
+    const clickResult = result.result.value as { success: boolean; needsSelect?: boolean; error?: string };
+    if (!clickResult.success) {
+      throw new Error(`Failed to switch mode: ${clickResult.error}`);
+    }
+    if (!clickResult.needsSelect) return;
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const selectResult = await this.page.evaluate(`
+      (() => {
+        ${pageProfileScript(profile)}
+        const label = ${JSON.stringify(label.toLowerCase())};
+        for (const item of document.querySelectorAll(P.sel.menuItem)) {
+          if (item.innerText.toLowerCase().includes(label)) {
+            item.click();
+            return { success: true };
+          }
+        }
+        return { success: false, error: "Mode option not found in dropdown" };
+      })()
+    `);
+    const selectRes = selectResult.result.value as { success: boolean; error?: string };
+    if (!selectRes.success) {
+      throw new Error(`Failed to switch mode: ${selectRes.error}`);
+    }
+  }
 }
 
 export const cometAI = new CometAI();
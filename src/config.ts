@@ -0,0 +1,252 @@
+// Configuration — where comet-mcp finds the browser and the services around it.
+//
+// Every module reads these settings from cometConfig() instead of hard-coding
+// them, so the server can drive a Comet on another port or host (an SSH
+// tunnel, a second browser side by side) without code changes.
+//
+// Each setting is taken from, highest precedence first:
+//   1. a command-line flag: --cdp-port 9333 or --cdp-port=9333
+//   2. an environment variable
+//   3. the config file: ~/.comet-mcp/config.json (.yaml/.yml also work), or
+//      the file named by --config / COMET_CONFIG
+//   4. the built-in default
+//
+//   file key          env                        flag              default
+//   cdpHost           COMET_CDP_HOST             --cdp-host        127.0.0.1
+//   cdpPort           COMET_CDP_PORT             --cdp-port        9222
+//   monitorUrl        COMET_MONITOR_URL          --monitor-url     http://127.0.0.1:5555/api/state
+//   pythonServerPath  COMET_BROWSER_SERVER_PATH  --python-server   ~/Documents/repos/skills/comet-browser/mcp-server/server.py
+//   pythonPath        COMET_PYTHON_PATH          --python          python3
+//   httpPort          COMET_HTTP_PORT            --http-port       3456
+//   httpHost          COMET_HTTP_HOST            --http-host       127.0.0.1
+//   corsOrigins       COMET_CORS_ORIGINS         --cors-origins    (none)
+//   browserPath       COMET_BROWSER_PATH         --browser-path    (found per platform)
+//
+// corsOrigins lists the web origins allowed to call the HTTP bridge from a
+// page (a YAML/JSON list, or comma-separated in env and flags). browserPath
+// is the executable comet-mcp launches; unset, it is Comet's install location
+// on macOS and Windows, or the first Comet or Chromium on PATH on Linux.
+// Flags this module does not know are left alone. An invalid value anywhere
+// is an error: silently falling back to a default would drive the wrong browser.
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface CometConfig {
+  /** Host of the browser's remote debugging endpoint. */
+  cdpHost: string;
+  /** Port of the browser's remote debugging endpoint (--remote-debugging-port). */
+  cdpPort: number;
+  /** comet-monitor state endpoint. */
+  monitorUrl: string;
+  /** Entry point of the Python comet-browser MCP server. */
+  pythonServerPath: string;
+  /** Python executable that runs it. */
+  pythonPath: string;
+  /** Port of the HTTP bridge (http-server.ts). */
+  httpPort: number;
+  /** Address the HTTP bridge listens on; loopback unless set otherwise. */
+  httpHost: string;
+  /** Origins (e.g. https://claude.ai) whose pages may call the HTTP bridge. */
+  corsOrigins: string[];
+  /** Browser executable to launch; "" to look in the usual places. */
+  browserPath: string;
+}
+
+export type ConfigKey = keyof CometConfig;
+
+export interface ConfigLoadResult {
+  config: CometConfig;
+  /** Config file that was read, or null when there was none. */
+  file: string | null;
+  /** Where each setting that is not a default came from. */
+  sources: Partial<Record<ConfigKey, string>>;
+}
+
+export interface ConfigLoadOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+// ─── Defaults ────────────────────────────────────────────────────
+
+const CONFIG_DIR = join(homedir(), ".comet-mcp");
+const DEFAULT_CONFIG_FILES = ["config.json", "config.yaml", "config.yml"].map((name) => join(CONFIG_DIR, name));
+
+export const DEFAULT_CONFIG: CometConfig = {
+  cdpHost: "127.0.0.1",
+  cdpPort: 9222,
+  monitorUrl: "http://127.0.0.1:5555/api/state",
+  pythonServerPath: join(homedir(), "Documents", "repos", "skills", "comet-browser", "mcp-server", "server.py"),
+  pythonPath: "python3",
+  httpPort: 3456,
+  httpHost: "127.0.0.1",
+  corsOrigins: [],
+  browserPath: "",
+};
+
+/** Environment variable and command-line flag of each setting. */
+const SETTINGS: Record<ConfigKey, { env: string; flag: string }> = {
+  cdpHost: { env: "COMET_CDP_HOST", flag: "--cdp-host" },
+  cdpPort: { env: "COMET_CDP_PORT", flag: "--cdp-port" },
+  monitorUrl: { env: "COMET_MONITOR_URL", flag: "--monitor-url" },
+  pythonServerPath: { env: "COMET_BROWSER_SERVER_PATH", flag: "--python-server" },
+  pythonPath: { env: "COMET_PYTHON_PATH", flag: "--python" },
+  httpPort: { env: "COMET_HTTP_PORT", flag: "--http-port" },
+  httpHost: { env: "COMET_HTTP_HOST", flag: "--http-host" },
+  corsOrigins: { env: "COMET_CORS_ORIGINS", flag: "--cors-origins" },
+  browserPath: { env: "COMET_BROWSER_PATH", flag: "--browser-path" },
+};
+
+const CONFIG_FLAG = "--config";
+const CONFIG_ENV = "COMET_CONFIG";
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+function fail(message: string): never {
+  throw new Error(`Invalid configuration: ${message}`);
+}
+
+type SettingValue = CometConfig[ConfigKey];
+
+/** Check one setting; strings from env and flags are converted as needed. */
+function checkSetting(key: ConfigKey, value: unknown, where: string): SettingValue {
+  if (Array.isArray(DEFAULT_CONFIG[key])) {
+    const list = typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : value;
+    if (!Array.isArray(list)) fail(`${where} must be a list of origins`);
+    return list.map((origin) => checkOrigin(origin, where));
+  }
+  if (typeof DEFAULT_CONFIG[key] === "number") {
+    const port = typeof value === "string" && /^\d+$/.test(value.trim()) ? Number(value) : value;
+    if (typeof port !== "number" || !Number.isInteger(port) || port < 1 || port > 65535) {
+      fail(`${where} must be a port number from 1 to 65535 (got ${JSON.stringify(value)})`);
+    }
+    return port;
+  }
+  if (typeof value !== "string" || !value.trim()) fail(`${where} must be a non-empty string`);
+  if (key === "monitorUrl") {
+    try {
+      new URL(value);
+    } catch {
+      fail(`${where} is not a URL: ${value}`);
+    }
+  }
+  return value.trim();
+}
+
+/** A web origin such as https://claude.ai; a trailing slash is dropped. */
+function checkOrigin(value: unknown, where: string): string {
+  const text = typeof value === "string" ? value.trim().replace(/\/$/, "") : "";
+  let origin = "";
+  try {
+    origin = new URL(text).origin;
+  } catch { /* reported below */ }
+  if (!text || origin !== text) fail(`${where} must list origins like https://example.com (got ${JSON.stringify(value)})`);
+  return origin;
+}
+
+/** Settings in a parsed config file. Throws on unknown keys or invalid values. */
+export function parseConfigFile(raw: unknown, where = "config file"): Partial<CometConfig> {
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) fail(`${where} must be an object`);
+  const settings: Record<string, SettingValue> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in SETTINGS)) fail(`${where} has unknown key "${key}" (known: ${Object.keys(SETTINGS).join(", ")})`);
+    settings[key] = checkSetting(key as ConfigKey, value, `${where}: ${key}`);
+  }
+  return settings as Partial<CometConfig>;
+}
+
+/** Value of a flag given as `--flag value` or `--flag=value`; the last one wins. */
+function flagValue(argv: string[], flag: string): string | undefined {
+  let value: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("--")) fail(`${flag} needs a value`);
+      value = next;
+      i++;
+    } else if (argv[i].startsWith(`${flag}=`)) {
+      value = argv[i].slice(flag.length + 1);
+    }
+  }
+  return value;
+}
+
+function readConfigFile(path: string): Partial<CometConfig> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf-8");
+    raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    fail(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  return parseConfigFile(raw, path);
+}
+
+/**
+ * Resolve the configuration from flags, environment and config file. Throws
+ * on invalid values, and when a config file named by --config or
+ * COMET_CONFIG does not exist.
+ */
+export function loadConfig({ argv = process.argv.slice(2), env = process.env }: ConfigLoadOptions = {}): ConfigLoadResult {
+  const named = flagValue(argv, CONFIG_FLAG) ?? env[CONFIG_ENV];
+  if (named && !existsSync(named)) fail(`config file not found: ${named}`);
+  const file = named || DEFAULT_CONFIG_FILES.find((path) => existsSync(path)) || null;
+  const fromFile = file ? readConfigFile(file) : {};
+
+  const config: Record<string, SettingValue> = { ...DEFAULT_CONFIG };
+  const sources: Partial<Record<ConfigKey, string>> = {};
+  for (const key of Object.keys(SETTINGS) as ConfigKey[]) {
+    const { env: envName, flag } = SETTINGS[key];
+    const fromFlag = flagValue(argv, flag);
+    if (fromFlag !== undefined) {
+      config[key] = checkSetting(key, fromFlag, flag);
+      sources[key] = flag;
+    } else if (env[envName]) {
+      config[key] = checkSetting(key, env[envName], envName);
+      sources[key] = envName;
+    } else if (fromFile[key] !== undefined) {
+      config[key] = fromFile[key]!;
+      sources[key] = file!;
+    }
+  }
+  return { config: config as unknown as CometConfig, file, sources };
+}
+
+// ─── Active configuration ────────────────────────────────────────
+
+let active: ConfigLoadResult | null = null;
+
+/** The process's configuration, resolved on first use. */
+export function cometConfig(): CometConfig {
+  active ??= loadConfig();
+  return active.config;
+}
+
+/** Config file the active configuration was read from, if any. */
+export function cometConfigFile(): string | null {
+  active ??= loadConfig();
+  return active.file;
+}
+
+/** Base URL of a browser's DevTools HTTP endpoint, e.g. http://127.0.0.1:9222 */
+export function cdpHttpUrl(host: string = cometConfig().cdpHost, port: number = cometConfig().cdpPort): string {
+  // IPv6 addresses need brackets in URLs
+  const hostPart = host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+  return `http://${hostPart}:${port}`;
+}
+
+/** Whether a host name or address is this machine's loopback interface. */
+export function isLoopbackHost(host: string): boolean {
+  return ["127.0.0.1", "localhost", "::1", "[::1]"].includes(host.toLowerCase());
+}
+
+/** Whether a CDP host is this machine, so comet-mcp may launch the browser itself. */
+export function isLocalCdpHost(host: string = cometConfig().cdpHost): boolean {
+  return isLoopbackHost(host);
+}
@@ -1,4 +1,5 @@
 import type { WakeResult, CDPTarget } from "./types.js";
+import { cdpHttpUrl, cometConfig } from "./config.js";
 
 const BRIDGE_MARKER = "__COMET_TAB_GROUPS_BRIDGE__";
 const DEFAULT_EXTENSION_ID = "fjaeblhelfklejofdfbglhfinipofeaa";
@@ -12,14 +13,16 @@ function extractExtensionId(url: string): string | null {
 
 export class DormancyManager {
   private cdpPort: number;
+  private cdpHost: string;
   private cachedExtensionId: string | null = null;
 
-  constructor(cdpPort: number = 9222) {
+  constructor(cdpPort: number = cometConfig().cdpPort, cdpHost: string = cometConfig().cdpHost) {
     this.cdpPort = cdpPort;
+    this.cdpHost = cdpHost;
   }
 
   private get baseUrl(): string {
-    return `http://127.0.0.1:${this.cdpPort}`;
+    return cdpHttpUrl(this.cdpHost, this.cdpPort);
   }
 
   private async fetchTargets(): Promise<CDPTarget[]> {
@@ -0,0 +1,80 @@
+// In-process event bus for live state changes.
+// Producers (CometAI, orchestrator, health checker, tab groups client) publish
+// here; the HTTP bridge fans events out to Server-Sent Events subscribers.
+
+import { EventEmitter } from "node:events";
+import type {
+  ComponentHealthResult,
+  HealthCheckResult,
+  TabGroup,
+  TaskState,
+  StepStatus,
+} from "./types.js";
+
+export interface AgentStatusEvent {
+  type: "agent";
+  status: "idle" | "working" | "completed";
+  currentStep: string;
+  steps: string[];
+  agentBrowsingUrl: string;
+  /** Tab of a pooled session; absent for the main cometClient tab. */
+  targetId?: string;
+}
+
+export interface TaskStateEvent {
+  type: "task";
+  taskId: string;
+  state: TaskState;
+  currentStepIndex: number;
+  steps_total: number;
+  step?: { index: number; toolName: string; status: StepStatus };
+}
+
+export interface HealthChangeEvent {
+  type: "health";
+  overall: HealthCheckResult["overall"];
+  components: Record<string, ComponentHealthResult>;
+}
+
+export interface TabGroupsChangeEvent {
+  type: "tab-groups";
+  action: "create" | "update" | "move" | "ungroup" | "sync"; // sync = change observed by polling
+  groups?: TabGroup[];
+}
+
+export type CometEvent =
+  | AgentStatusEvent
+  | TaskStateEvent
+  | HealthChangeEvent
+  | TabGroupsChangeEvent;
+
+export type CometEventListener = (event: CometEvent & { timestamp: number }) => void;
+
+const EVENT_NAME = "event";
+
+export class CometEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every SSE connection adds one listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: CometEvent): void {
+    this.emitter.emit(EVENT_NAME, { ...event, timestamp: Date.now() });
+  }
+
+  /** Subscribe to all events. Returns an unsubscribe function. */
+  subscribe(listener: CometEventListener): () => void {
+    this.emitter.on(EVENT_NAME, listener);
+    return () => {
+      this.emitter.off(EVENT_NAME, listener);
+    };
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount(EVENT_NAME);
+  }
+}
+
+export const cometEvents = new CometEventBus();
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+// Writes src/client.ts, the typed client of the HTTP bridge, from its OpenAPI
+// document. Run after changing the route table: npm run generate:client
+
+import { writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { buildOpenApiDocument, generateClientSource } from "./openapi.js";
+
+const target = join(dirname(fileURLToPath(import.meta.url)), "..", "src", "client.ts");
+writeFileSync(target, generateClientSource(buildOpenApiDocument()), "utf-8");
+console.log(`Wrote ${target}`);
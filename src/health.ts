@@ -4,6 +4,8 @@ import type {
   HealthCheckResult,
   HealthLevel,
 } from "./types.js";
+import type { CometEventBus } from "./event-bus.js";
+import { cdpHttpUrl, cometConfig } from "./config.js";
 
 const CACHE_TTL_MS = 5000;
 const PROBE_TIMEOUT_MS = 3000;
@@ -14,9 +16,11 @@ export interface IHealthChecker {
 }
 
 export interface HealthCheckerDeps {
+  cdpHost?: string;
   cdpPort?: number;
   dormancyManager: { isExtensionAlive(): Promise<boolean> };
   monitorProxy: { isAvailable(): Promise<boolean> };
+  events?: CometEventBus;
 }
 
 function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
@@ -29,15 +33,19 @@ function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
 }
 
 export class HealthChecker implements IHealthChecker {
+  private readonly cdpHost: string;
   private readonly cdpPort: number;
   private readonly dormancyManager: HealthCheckerDeps["dormancyManager"];
   private readonly monitorProxy: HealthCheckerDeps["monitorProxy"];
+  private readonly events: CometEventBus | null;
   private cache: HealthCheckResult | null = null;
 
   constructor(deps: HealthCheckerDeps) {
-    this.cdpPort = deps.cdpPort ?? 9222;
+    this.cdpHost = deps.cdpHost ?? cometConfig().cdpHost;
+    this.cdpPort = deps.cdpPort ?? cometConfig().cdpPort;
     this.dormancyManager = deps.dormancyManager;
     this.monitorProxy = deps.monitorProxy;
+    this.events = deps.events ?? null;
   }
 
   check(force?: boolean): Promise<HealthCheckResult> {
@@ -56,7 +64,11 @@ export class HealthChecker implements IHealthChecker {
         checkedAt: Date.now(),
         duration_ms,
       };
+      const previous = this.cache;
       this.cache = result;
+      if (this.events && this.hasChanged(previous, result)) {
+        this.events.publish({ type: "health", overall, components });
+      }
       return result;
     });
   }
@@ -65,6 +77,14 @@ export class HealthChecker implements IHealthChecker {
     return this.cache;
   }
 
+  private hasChanged(previous: HealthCheckResult | null, next: HealthCheckResult): boolean {
+    if (!previous) return true;
+    if (previous.overall !== next.overall) return true;
+    return Object.entries(next.components).some(
+      ([name, c]) => previous.components[name]?.status !== c.status,
+    );
+  }
+
   private deriveOverall(
     components: Record<string, ComponentHealthResult>
   ): "healthy" | "degraded" | "down" {
@@ -112,7 +132,7 @@ export class HealthChecker implements IHealthChecker {
 
   private async probeBrowser(): Promise<ComponentHealthResult> {
     const start = Date.now();
-    const url = `http://127.0.0.1:${this.cdpPort}/json/version`;
+    const url = `${cdpHttpUrl(this.cdpHost, this.cdpPort)}/json/version`;
     try {
       const controller = new AbortController();
       const t = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
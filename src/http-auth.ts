@@ -0,0 +1,160 @@
+// HTTP bridge access control — bearer tokens with scopes, and allowed origins.
+//
+// The bridge drives a real browser, so any web page open in it could
+// otherwise call /api/ask or /api/tab-groups/delete. Every request except the
+// dashboard page itself must carry a token:
+//
+//   Authorization: Bearer <token>
+//   ?access_token=<token>   (GET only, for EventSource and dashboard links)
+//
+// COMET_HTTP_TOKENS — path to the token file.
+//   Default: ~/.comet-mcp/http-tokens.json, created on first start (mode 0600)
+//   with a "full" token and a read-only "dashboard" token. Edit it to add or
+//   revoke tokens; the server reads it at startup.
+//
+// Scopes: "read" may call the GET endpoints in READ_ROUTES (health, task
+// history, thread and tab lists, the dashboard data and event stream), none
+// of which drive the browser or read a page; "full" may call everything,
+// /mcp, screenshots, polling and selfcheck included.
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type AccessScope = "read" | "full";
+
+export interface AccessToken {
+  /** Label shown in logs, e.g. "dashboard". */
+  name: string;
+  token: string;
+  scope: AccessScope;
+}
+
+export interface TokenFileLoad {
+  tokens: AccessToken[];
+  path: string;
+  /** Whether the file was created by this call. */
+  created: boolean;
+}
+
+export type AccessDecision =
+  | { allowed: true; token: AccessToken | null }
+  | { allowed: false; status: 401 | 403; error: string };
+
+// ─── Tokens ──────────────────────────────────────────────────────
+
+const DEFAULT_TOKEN_FILE = join(homedir(), ".comet-mcp", "http-tokens.json");
+const SCOPES: AccessScope[] = ["read", "full"];
+
+export function tokenFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.COMET_HTTP_TOKENS || DEFAULT_TOKEN_FILE;
+}
+
+export function generateToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/** Tokens in a parsed token file. Throws when the file is malformed. */
+export function parseTokenFile(raw: unknown, where = "token file"): AccessToken[] {
+  const entries = (raw as { tokens?: unknown } | null)?.tokens;
+  if (!Array.isArray(entries)) throw new Error(`Invalid ${where}: expected { "tokens": [...] }`);
+  return entries.map((entry, i) => {
+    const { name, token, scope } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof token !== "string" || token.length < 16) {
+      throw new Error(`Invalid ${where}: tokens[${i}].token must be a string of at least 16 characters`);
+    }
+    if (!SCOPES.includes(scope as AccessScope)) {
+      throw new Error(`Invalid ${where}: tokens[${i}].scope must be one of ${SCOPES.join(", ")}`);
+    }
+    return { name: typeof name === "string" && name ? name : `token ${i + 1}`, token, scope: scope as AccessScope };
+  });
+}
+
+/** The tokens in the token file, creating it with fresh tokens when missing. */
+export function loadOrCreateTokens(path: string = tokenFilePath()): TokenFileLoad {
+  if (existsSync(path)) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (err) {
+      throw new Error(`Invalid token file ${path}: ${err instanceof Error ? err.message : err}`);
+    }
+    return { tokens: parseTokenFile(raw, `token file ${path}`), path, created: false };
+  }
+
+  const tokens: AccessToken[] = [
+    { name: "full", token: generateToken(), scope: "full" },
+    { name: "dashboard", token: generateToken(), scope: "read" },
+  ];
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ tokens }, null, 2) + "\n", { encoding: "utf-8", mode: 0o600 });
+  return { tokens, path, created: true };
+}
+
+// ─── Access checks ───────────────────────────────────────────────
+
+/**
+ * GET endpoints a "read" token may call. Other GETs attach to or evaluate in
+ * a page (/api/poll, /api/selfcheck) or capture it (/api/screenshot), so a
+ * new endpoint needs "full" until it is added here.
+ */
+const READ_ROUTES = new Set([
+  "/api/openapi.json",
+  "/api/events",
+  "/api/targets",
+  "/api/dashboard-data",
+  "/api/health",
+  "/api/threads",
+  "/api/tasks",
+  "/api/monitor",
+  "/api/tab-groups",
+  "/api/tab-groups/tabs",
+]);
+
+/** Scope a request needs, or null for the dashboard page, which holds no data. */
+export function requiredScope(method: string, path: string): AccessScope | null {
+  if (path === "/dashboard" && method === "GET") return null;
+  return method === "GET" && READ_ROUTES.has(path) ? "read" : "full";
+}
+
+/** The token a request presents: the Authorization header, else ?access_token= on GET. */
+export function presentedToken(method: string, authorization: string | undefined, url: URL): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (match) return match[1];
+  return method === "GET" ? url.searchParams.get("access_token") : null;
+}
+
+function sameToken(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/** Whether the presented token grants the scope the request needs. */
+export function checkAccess(
+  tokens: AccessToken[],
+  method: string,
+  path: string,
+  presented: string | null,
+): AccessDecision {
+  const needed = requiredScope(method, path);
+  if (needed === null) return { allowed: true, token: null };
+  if (!presented) return { allowed: false, status: 401, error: "Missing bearer token" };
+
+  const token = tokens.find((t) => sameToken(t.token, presented));
+  if (!token) return { allowed: false, status: 401, error: "Invalid bearer token" };
+  if (needed === "full" && token.scope !== "full") {
+    return { allowed: false, status: 403, error: `Token "${token.name}" is read-only; ${method} ${path} needs full access` };
+  }
+  return { allowed: true, token };
+}
+
+// ─── Origins ─────────────────────────────────────────────────────
+
+/** Origins whose pages may call the bridge: the configured ones plus its own. */
+export function allowedOrigins(corsOrigins: string[], port: number): Set<string> {
+  return new Set([...corsOrigins, `http://localhost:${port}`, `http://127.0.0.1:${port}`, `http://[::1]:${port}`]);
+}
@@ -0,0 +1,219 @@
+// HTTP routes — the one table of the bridge's REST endpoints.
+//
+// http-server.ts dispatches requests from it and checks their parameters
+// against it, openapi.ts turns it into the OpenAPI document served at
+// /api/openapi.json, and src/client.ts is generated from that document.
+// Adding or renaming a field here changes all three; a request with an
+// unknown or misspelled field is refused with 400 instead of being ignored.
+//
+// Routes that run a comet_* tool take their parameter schema from the tool's
+// inputSchema in tool-definitions.ts.
+
+import { TOOLS } from "./tool-definitions.js";
+import type { JsonSchema } from "./json-schema.js";
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type RouteMethod = "GET" | "POST";
+export type RouteResponse = "json" | "html" | "event-stream";
+
+export interface HttpRoute {
+  method: RouteMethod;
+  path: string;
+  /** Stable name of the endpoint; the client method of the same name calls it. */
+  operationId: string;
+  summary: string;
+  /** Tool the route runs, with arguments the route fixes. Routes without one are handled in http-server.ts. */
+  tool?: { name: string; args?: Record<string, unknown> };
+  /** Schema of the JSON body (POST) or of the query parameters (GET). */
+  params: JsonSchema;
+  /** Content of a successful response (default: json). */
+  response?: RouteResponse;
+}
+
+// ─── Parameter schemas ───────────────────────────────────────────
+
+const NO_PARAMS: JsonSchema = { type: "object", properties: {}, additionalProperties: false };
+
+/**
+ * A tool's inputSchema as route parameters: only the named properties (all
+ * of them when omitted), required as listed, and nothing else accepted.
+ */
+function toolParams(toolName: string, only?: string[], required?: string[]): JsonSchema {
+  const tool = TOOLS.find((t) => t.name === toolName);
+  if (!tool) throw new Error(`Unknown tool in route table: ${toolName}`);
+  const all = (tool.inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const properties: Record<string, JsonSchema> = {};
+  for (const name of only ?? Object.keys(all)) {
+    if (!all[name]) throw new Error(`${toolName} has no parameter "${name}"`);
+    properties[name] = all[name];
+  }
+  const schema: JsonSchema = { type: "object", properties, additionalProperties: false };
+  const requiredNames = required ?? tool.inputSchema.required ?? [];
+  if (requiredNames.length > 0) schema.required = [...requiredNames];
+  return schema;
+}
+
+const TASK_STATES = ["pending", "running", "completed", "failed", "cancelled"];
+
+// ─── Routes ──────────────────────────────────────────────────────
+
+export const HTTP_ROUTES: HttpRoute[] = [
+  { method: "GET", path: "/dashboard", operationId: "dashboard", summary: "Live monitoring dashboard", params: NO_PARAMS, response: "html" },
+  { method: "GET", path: "/api/openapi.json", operationId: "openapi", summary: "This API as an OpenAPI 3 document", params: NO_PARAMS },
+  {
+    method: "GET",
+    path: "/api/events",
+    operationId: "events",
+    summary: "Server-Sent Events stream of agent, task, health and tab-group changes",
+    params: NO_PARAMS,
+    response: "event-stream",
+  },
+  { method: "GET", path: "/api/targets", operationId: "targets", summary: "Raw CDP targets", params: NO_PARAMS },
+  {
+    method: "GET",
+    path: "/api/dashboard-data",
+    operationId: "dashboardData",
+    summary: "Tab groups, tabs, targets, window geometry, tool metrics and sessions for the dashboard",
+    params: NO_PARAMS,
+  },
+  {
+    method: "GET",
+    path: "/api/health",
+    operationId: "health",
+    summary: "Unified health check; a plain liveness answer while the orchestrator starts",
+    params: toolParams("comet_health"),
+  },
+  { method: "POST", path: "/api/connect", operationId: "connect", summary: "Start Comet and connect to a Perplexity tab", tool: { name: "comet_connect" }, params: toolParams("comet_connect") },
+  { method: "POST", path: "/api/ask", operationId: "ask", summary: "Send a prompt and wait for the answer", tool: { name: "comet_ask" }, params: toolParams("comet_ask") },
+  {
+    method: "POST",
+    path: "/api/research-batch",
+    operationId: "researchBatch",
+    summary: "Research several prompts in parallel tabs",
+    tool: { name: "comet_research_batch" },
+    params: toolParams("comet_research_batch"),
+  },
+  {
+    method: "GET",
+    path: "/api/threads",
+    operationId: "listThreads",
+    summary: "Known threads, newest first",
+    tool: { name: "comet_threads", args: { action: "list" } },
+    params: toolParams("comet_threads", ["limit"]),
+  },
+  {
+    method: "POST",
+    path: "/api/threads/open",
+    operationId: "openThread",
+    summary: "Open a thread in a tab",
+    tool: { name: "comet_threads", args: { action: "open" } },
+    params: toolParams("comet_threads", ["thread_id", "tab_id"], ["thread_id"]),
+  },
+  {
+    method: "POST",
+    path: "/api/threads/history",
+    operationId: "threadHistory",
+    summary: "Q&A turns of a thread, opening it first if no tab shows it",
+    tool: { name: "comet_threads", args: { action: "history" } },
+    params: toolParams("comet_threads", ["thread_id", "tab_id"]),
+  },
+  { method: "GET", path: "/api/poll", operationId: "poll", summary: "Agent status of a tab, or state of a delegated task", tool: { name: "comet_poll" }, params: toolParams("comet_poll") },
+  {
+    method: "GET",
+    path: "/api/tasks",
+    operationId: "listTasks",
+    summary: "Delegated task history, newest first",
+    params: {
+      type: "object",
+      properties: {
+        state: { type: "string", enum: TASK_STATES, description: "Only tasks in this state" },
+        limit: { type: "integer", minimum: 1, description: "Max tasks to return (default: 50)" },
+      },
+      additionalProperties: false,
+    },
+  },
+  { method: "POST", path: "/api/stop", operationId: "stop", summary: "Stop an agent, or cancel a delegated task", tool: { name: "comet_stop" }, params: toolParams("comet_stop") },
+  { method: "GET", path: "/api/screenshot", operationId: "screenshot", summary: "Capture a page screenshot", tool: { name: "comet_screenshot" }, params: toolParams("comet_screenshot") },
+  { method: "POST", path: "/api/mode", operationId: "mode", summary: "Get or set the Perplexity mode", tool: { name: "comet_mode" }, params: toolParams("comet_mode") },
+  {
+    method: "GET",
+    path: "/api/selfcheck",
+    operationId: "selfcheck",
+    summary: "Check site profile selectors against the page",
+    tool: { name: "comet_selfcheck" },
+    params: toolParams("comet_selfcheck"),
+  },
+  { method: "POST", path: "/api/delegate", operationId: "delegate", summary: "Delegate a task to the orchestrator", tool: { name: "comet_delegate" }, params: toolParams("comet_delegate") },
+  { method: "GET", path: "/api/monitor", operationId: "monitor", summary: "Orchestrator monitor state", tool: { name: "comet_monitor" }, params: toolParams("comet_monitor") },
+  {
+    method: "GET",
+    path: "/api/tab-groups",
+    operationId: "listTabGroups",
+    summary: "List all tab groups",
+    tool: { name: "comet_tab_groups", args: { action: "list" } },
+    params: NO_PARAMS,
+  },
+  {
+    method: "GET",
+    path: "/api/tab-groups/tabs",
+    operationId: "listTabs",
+    summary: "List all tabs with group info",
+    tool: { name: "comet_tab_groups", args: { action: "list_tabs" } },
+    params: NO_PARAMS,
+  },
+  {
+    method: "POST",
+    path: "/api/tab-groups",
+    operationId: "createTabGroup",
+    summary: "Create a tab group",
+    tool: { name: "comet_tab_groups", args: { action: "create" } },
+    params: toolParams("comet_tab_groups", ["tabIds", "title", "color"], ["tabIds"]),
+  },
+  {
+    method: "POST",
+    path: "/api/tab-groups/update",
+    operationId: "updateTabGroup",
+    summary: "Rename, recolor or collapse a tab group",
+    tool: { name: "comet_tab_groups", args: { action: "update" } },
+    params: toolParams("comet_tab_groups", ["groupId", "title", "color", "collapsed"], ["groupId"]),
+  },
+  {
+    method: "POST",
+    path: "/api/tab-groups/delete",
+    operationId: "deleteTabGroup",
+    summary: "Delete a tab group; its tabs stay open",
+    tool: { name: "comet_tab_groups", args: { action: "delete" } },
+    params: toolParams("comet_tab_groups", ["groupId"], ["groupId"]),
+  },
+];
+
+// ─── Lookup & parameters ─────────────────────────────────────────
+
+export function findRoute(method: string, path: string): HttpRoute | null {
+  return HTTP_ROUTES.find((r) => r.method === method && r.path === path) ?? null;
+}
+
+/** Query parameters that carry credentials rather than arguments. */
+const CREDENTIAL_PARAMS = new Set(["access_token"]);
+
+/**
+ * A GET route's query parameters as arguments, converted to the types its
+ * schema declares ("5" → 5, "true" → true). Values that do not convert are
+ * left as strings for validation to report.
+ */
+export function queryParams(route: HttpRoute, url: URL): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const [name, value] of url.searchParams) {
+    if (CREDENTIAL_PARAMS.has(name)) continue;
+    const type = route.params.properties?.[name]?.type;
+    if ((type === "number" || type === "integer") && /^-?\d+(\.\d+)?$/.test(value)) {
+      params[name] = Number(value);
+    } else if (type === "boolean" && (value === "true" || value === "false")) {
+      params[name] = value === "true";
+    } else {
+      params[name] = value;
+    }
+  }
+  return params;
+}
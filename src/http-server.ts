@@ -1,22 +1,41 @@
 #!/usr/bin/env node
 
 // Comet Bridge HTTP API Server
-// Exposes Comet-Bridge functionality as REST endpoints
+// Exposes Comet-Bridge functionality as REST endpoints and as MCP over
+// Streamable HTTP (/mcp), from one long-lived process that owns the browser.
 // Designed for Claude Cowork to call via Chrome's fetch() (localhost bypass)
 //
+// Listens on loopback only unless httpHost says otherwise. Requests need a
+// bearer token from ~/.comet-mcp/http-tokens.json, and pages may call it only
+// from the origins in corsOrigins (see http-auth.ts).
+//
 // Architecture:
 //   Cowork VM -> Claude-in-Chrome MCP -> Chrome fetch('localhost:3456') -> this server -> CDP -> Comet
+//   MCP clients -> http://localhost:3456/mcp ----------------------------^
 
 import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
 import { readFileSync, writeFileSync, existsSync } from "node:fs";
 import { execSync } from "node:child_process";
 import { platform, tmpdir } from "node:os";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
 import { cometClient } from "./cdp-client.js";
+import { cdpSessions } from "./cdp-sessions.js";
 import { cometAI } from "./comet-ai.js";
+import { loadSiteProfile } from "./site-profile.js";
 import { tabGroupsClient } from "./tab-groups.js";
 import { CometOrchestrator } from "./orchestrator.js";
+import { cometEvents } from "./event-bus.js";
+import { cdpHttpUrl, cometConfig, cometConfigFile, isLoopbackHost } from "./config.js";
+import { allowedOrigins, checkAccess, loadOrCreateTokens, presentedToken } from "./http-auth.js";
+import { localToolDescriptors } from "./tool-definitions.js";
+import { ToolService, type ToolErrorKind } from "./tool-service.js";
+import { createMcpServer } from "./mcp-server.js";
+import { HTTP_ROUTES, findRoute, queryParams } from "./http-routes.js";
+import { validateSchema } from "./json-schema.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -29,9 +48,15 @@ try {
   dashboardHtml = "<html><body><h1>Dashboard not found</h1><p>Place dashboard/index.html in the project root.</p></body></html>";
 }
 
-const PORT = parseInt(process.env.COMET_HTTP_PORT || "3456", 10);
+const PORT = cometConfig().httpPort;
+const HOST = cometConfig().httpHost;
+
+// ---- Access control ----
+
+const tokenFile = loadOrCreateTokens();
+const ALLOWED_ORIGINS = allowedOrigins(cometConfig().corsOrigins, PORT);
 
-// ---- Window geometry via AppleScript ----
+// ---- Window geometry (AppleScript on macOS, CDP elsewhere) ----
 
 interface WindowGeometry {
   index: number;
@@ -40,7 +65,10 @@ interface WindowGeometry {
   y: number;
   w: number;
   h: number;
-  display: string;
+  /** Monitor the window is on; only known on macOS */
+  display?: string;
+  /** normal, minimized, maximized or fullscreen; only known over CDP */
+  windowState?: string;
   fullscreen: boolean;
 }
 
@@ -86,35 +114,49 @@ return output & "]"
 
 let applescriptWritten = false;
 
-function getWindowGeometry(): WindowGeometry[] {
-  if (platform() !== "darwin") return [];
-
-  const now = Date.now();
-  if (now - geometryCache.ts < GEOMETRY_CACHE_MS) return geometryCache.data;
-
+/** Comet's windows on macOS, from System Events. Throws when the script fails. */
+function appleScriptGeometry(): WindowGeometry[] {
   // Write script file once
   if (!applescriptWritten) {
-    try {
-      writeFileSync(APPLESCRIPT_PATH, APPLESCRIPT_CONTENT, "utf-8");
-      applescriptWritten = true;
-    } catch {
-      return geometryCache.data;
-    }
+    writeFileSync(APPLESCRIPT_PATH, APPLESCRIPT_CONTENT, "utf-8");
+    applescriptWritten = true;
   }
 
+  const raw = execSync(`osascript "${APPLESCRIPT_PATH}"`, {
+    timeout: 5000,
+    encoding: "utf-8",
+  }).trim();
+  const windows: Array<{ index: number; title: string; x: number; y: number; w: number; h: number }> = JSON.parse(raw);
+  return windows
+    .filter((w) => w.h >= 100 && w.w >= 100) // skip chrome UI frames
+    .map((w) => ({
+      ...w,
+      display: w.y < 0 ? "U28E590 (top)" : "SAMSUNG (main)",
+      fullscreen: w.w >= 1900 && w.h >= 1050,
+    }));
+}
+
+/** The browser's windows from CDP (Browser.getWindowForTarget), on Linux and Windows. */
+async function cdpGeometry(): Promise<WindowGeometry[]> {
+  const windows = await cometClient.getWindows();
+  return windows.map((w, i) => ({
+    index: i + 1,
+    title: w.title,
+    x: w.left,
+    y: w.top,
+    w: w.width,
+    h: w.height,
+    windowState: w.windowState,
+    fullscreen: w.windowState === "fullscreen",
+  }));
+}
+
+async function getWindowGeometry(): Promise<WindowGeometry[]> {
+  const now = Date.now();
+  if (now - geometryCache.ts < GEOMETRY_CACHE_MS) return geometryCache.data;
+
   try {
-    const raw = execSync(`osascript "${APPLESCRIPT_PATH}"`, {
-      timeout: 5000,
-      encoding: "utf-8",
-    }).trim();
-    const windows: Array<{ index: number; title: string; x: number; y: number; w: number; h: number }> = JSON.parse(raw);
-    const result: WindowGeometry[] = windows
-      .filter((w) => w.h >= 100 && w.w >= 100) // skip chrome UI frames
-      .map((w) => ({
-        ...w,
-        display: w.y < 0 ? "U28E590 (top)" : "SAMSUNG (main)",
-        fullscreen: w.w >= 1900 && w.h >= 1050,
-      }));
+    const result = platform() === "darwin" ? appleScriptGeometry() : await cdpGeometry();
     geometryCache = { data: result, ts: now };
     return result;
   } catch {
@@ -128,13 +170,9 @@ export function setOrchestrator(orch: CometOrchestrator): void {
   orchestrator = orch;
 }
 
+// CORS headers are set per request in the server handler, from ALLOWED_ORIGINS
 function json(res: ServerResponse, data: unknown, status = 200) {
-  res.writeHead(status, {
-    "Content-Type": "application/json",
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
-  });
+  res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify(data));
 }
 
@@ -142,386 +180,86 @@ function errorJson(res: ServerResponse, message: string, status = 500) {
   json(res, { error: message }, status);
 }
 
-async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
-  return new Promise((resolve) => {
+/** The parsed JSON body ({} when empty). Rejects when it is not JSON. */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
     req.on("data", (chunk: Buffer) => chunks.push(chunk));
     req.on("end", () => {
       if (chunks.length === 0) return resolve({});
       try {
         resolve(JSON.parse(Buffer.concat(chunks).toString()));
-      } catch {
-        resolve({});
+      } catch (err) {
+        reject(new Error(`Invalid JSON body: ${err instanceof Error ? err.message : err}`));
       }
     });
+    req.on("error", reject);
   });
 }
 
-// ---- Route handlers (mirrored from index.ts MCP tool handlers) ----
-
-async function handleConnect(res: ServerResponse, body: Record<string, unknown> = {}) {
-  const result = await (async () => {
-    const clean = (body.clean as boolean) || false;
-    const startResult = await cometClient.startComet(9222);
-
-    // List all targets — observe, don't destroy
-    const targets = await cometClient.listTargets();
-    const pageTabs = targets.filter((t) => t.type === "page");
-
-    // Find an existing Perplexity tab to connect to
-    const perplexityTab = pageTabs.find((t) => t.url?.includes("perplexity.ai"));
-    let connectedTo: string;
-    let connectedTabId: string;
-
-    if (perplexityTab) {
-      await cometClient.connect(perplexityTab.id);
-      connectedTo = "existing Perplexity tab";
-      connectedTabId = perplexityTab.id;
-    } else if (pageTabs.length > 0) {
-      const newTab = await cometClient.newTab("https://www.perplexity.ai/");
-      await new Promise((r) => setTimeout(r, 2000));
-      await cometClient.connect(newTab.id);
-      connectedTo = "new Perplexity tab";
-      connectedTabId = newTab.id;
-    } else {
-      const newTab = await cometClient.newTab("https://www.perplexity.ai/");
-      await new Promise((r) => setTimeout(r, 2000));
-      await cometClient.connect(newTab.id);
-      connectedTo = "new Perplexity tab (browser was empty)";
-      connectedTabId = newTab.id;
-    }
-
-    // Optional cleanup: only close ungrouped non-Perplexity tabs
-    let cleanedCount = 0;
-    if (clean && pageTabs.length > 1) {
-      let groupedUrls = new Set<string>();
-      try {
-        const allTabs = await tabGroupsClient.listTabs();
-        for (const t of allTabs) {
-          if (t.groupId !== -1 && t.url) groupedUrls.add(t.url);
-        }
-      } catch {
-        return { message: `${startResult}\nConnected to ${connectedTo} (${pageTabs.length} tabs preserved — clean skipped, tab groups extension not available)` };
-      }
-
-      for (const tab of pageTabs) {
-        if (tab.id === connectedTabId) continue;
-        if (tab.url?.includes("perplexity.ai")) continue;
-        if (groupedUrls.has(tab.url)) continue;
-        try {
-          await cometClient.closeTab(tab.id);
-          cleanedCount++;
-        } catch { /* ignore */ }
-      }
-    }
-
-    // Get group count for status
-    let groupInfo = "";
-    try {
-      const groups = await tabGroupsClient.listGroups();
-      groupInfo = `, ${groups.length} groups`;
-    } catch { /* extension not available */ }
-
-    const tabCount = pageTabs.length - cleanedCount;
-    const cleanMsg = cleanedCount > 0 ? `, cleaned ${cleanedCount} ungrouped tabs` : "";
-    return { message: `${startResult}\nConnected to ${connectedTo} (${tabCount} tabs${groupInfo} preserved${cleanMsg})` };
-  })();
-
-  json(res, result);
-}
-
-async function handleAsk(res: ServerResponse, body: Record<string, unknown>) {
-  const result = await (async () => {
-    let prompt = body.prompt as string;
-    const timeout = (body.timeout as number) || 15000;
-    const newChat = (body.newChat as boolean) || false;
-
-    if (!prompt || prompt.trim().length === 0) {
-      return { error: "prompt cannot be empty" };
-    }
-
-    // Normalize prompt
-    prompt = prompt
-      .replace(/^[-*\u2022]\s*/gm, "")
-      .replace(/\n+/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-
-    // newChat: open a fresh Perplexity tab (preserves existing tabs)
-    if (newChat) {
-      const newTab = await cometClient.newTab("https://www.perplexity.ai/");
-      await new Promise((r) => setTimeout(r, 2000));
-      await cometClient.connect(newTab.id);
-    } else {
-      const tabs = await cometClient.listTabsCategorized();
-      if (tabs.main) await cometClient.connect(tabs.main.id);
-      const urlResult = await cometClient.evaluate("window.location.href");
-      const currentUrl = urlResult.result.value as string;
-      if (!currentUrl?.includes("perplexity.ai")) {
-        await cometClient.navigate("https://www.perplexity.ai/", true);
-        await new Promise((r) => setTimeout(r, 2000));
-      }
-    }
-
-    // Capture old response state
-    const oldStateResult = await cometClient.evaluate(`
-      (() => {
-        const proseEls = document.querySelectorAll('[class*="prose"]');
-        const lastProse = proseEls[proseEls.length - 1];
-        return {
-          count: proseEls.length,
-          lastText: lastProse ? lastProse.innerText.substring(0, 100) : ''
-        };
-      })()
-    `);
-    const oldState = oldStateResult.result.value as { count: number; lastText: string };
-
-    // Send the prompt
-    await cometAI.sendPrompt(prompt);
-
-    // Wait for completion
-    const startTime = Date.now();
-    const stepsCollected: string[] = [];
-    let sawNewResponse = false;
-
-    while (Date.now() - startTime < timeout) {
-      await new Promise((r) => setTimeout(r, 2000));
-
-      const currentStateResult = await cometClient.evaluate(`
-        (() => {
-          const proseEls = document.querySelectorAll('[class*="prose"]');
-          const lastProse = proseEls[proseEls.length - 1];
-          return {
-            count: proseEls.length,
-            lastText: lastProse ? lastProse.innerText.substring(0, 100) : ''
-          };
-        })()
-      `);
-      const currentState = currentStateResult.result.value as { count: number; lastText: string };
-
-      if (!sawNewResponse) {
-        if (currentState.count > oldState.count ||
-            (currentState.lastText && currentState.lastText !== oldState.lastText)) {
-          sawNewResponse = true;
-        }
-      }
-
-      const status = await cometAI.getAgentStatus();
-      for (const step of status.steps) {
-        if (!stepsCollected.includes(step)) stepsCollected.push(step);
-      }
-
-      if (status.status === "completed" && sawNewResponse) {
-        return { status: "completed", response: status.response || "Task completed (no response text extracted)" };
-      }
-    }
-
-    // Timeout — return in-progress status
-    const finalStatus = await cometAI.getAgentStatus();
-    return {
-      status: "in_progress",
-      steps: stepsCollected,
-      currentStep: finalStatus.currentStep || null,
-      agentBrowsingUrl: finalStatus.agentBrowsingUrl || null,
-      message: `Task in progress (${stepsCollected.length} steps so far). Use /api/poll to check progress.`,
-    };
-  })();
-
-  if ("error" in result) {
-    errorJson(res, result.error as string, 400);
-  } else {
-    json(res, result);
-  }
-}
-
-async function handlePoll(res: ServerResponse) {
-  const result = await (async () => {
-    const status = await cometAI.getAgentStatus();
-
-    if (status.status === "completed" && status.response) {
-      return { status: "completed", response: status.response };
-    }
-
-    return {
-      status: status.status,
-      steps: status.steps,
-      currentStep: status.currentStep || null,
-      agentBrowsingUrl: status.agentBrowsingUrl || null,
-    };
-  })();
-
-  json(res, result);
-}
-
-async function handleStop(res: ServerResponse) {
-  const result = await (async () => {
-    const stopped = await cometAI.stopAgent();
-    return { stopped, message: stopped ? "Agent stopped" : "No active agent to stop" };
-  })();
-
-  json(res, result);
-}
-
-async function handleScreenshot(res: ServerResponse) {
-  const result = await (async () => {
-    const screenshot = await cometClient.screenshot("png");
-    return { data: screenshot.data, mimeType: "image/png" };
-  })();
+// ---- Tool routes ----
+
+// HTTP status of a tool result that did not succeed. A "failed" result (e.g. a
+// research batch where every prompt failed) is still a complete report.
+const TOOL_ERROR_STATUS: Record<ToolErrorKind, number> = {
+  invalid: 400,
+  not_found: 404,
+  unavailable: 503,
+  failed: 200,
+};
+
+// One service and one router for every REST request and MCP session, so they
+// share the orchestrator, the task queue and the per-tab locks.
+const toolService = new ToolService({
+  orchestrator: () => orchestrator,
+  withTabLock: (name, params, fn) => toolRouter.withTabLock(name, params, fn),
+});
+const toolRouter: ToolRouter = new ToolRouter(localToolDescriptors(), pythonBridge, toolService.runStep);
 
-  json(res, result);
+/** Run a tool through the shared service and send its structured result. */
+async function sendTool(res: ServerResponse, name: string, args: Record<string, unknown>) {
+  const output = await toolService.call(name, args);
+  json(res, output.data, output.error ? TOOL_ERROR_STATUS[output.error] : 200);
 }
 
-async function handleMode(res: ServerResponse, body: Record<string, unknown>) {
-  const result = await (async () => {
-    const mode = body.mode as string | undefined;
-
-    if (!mode) {
-      // Return current mode
-      const modeResult = await cometClient.evaluate(`
-        (() => {
-          const modes = ['Search', 'Research', 'Labs', 'Learn'];
-          for (const mode of modes) {
-            const btn = document.querySelector('button[aria-label="' + mode + '"]');
-            if (btn && btn.getAttribute('data-state') === 'checked') return mode.toLowerCase();
-          }
-          const dropdownBtn = document.querySelector('button[class*="gap"]');
-          if (dropdownBtn) {
-            const text = dropdownBtn.innerText.toLowerCase();
-            if (text.includes('search')) return 'search';
-            if (text.includes('research')) return 'research';
-            if (text.includes('labs')) return 'labs';
-            if (text.includes('learn')) return 'learn';
-          }
-          return 'search';
-        })()
-      `);
-      return { currentMode: modeResult.result.value as string };
-    }
-
-    const modeMap: Record<string, string> = { search: "Search", research: "Research", labs: "Labs", learn: "Learn" };
-    const ariaLabel = modeMap[mode];
-    if (!ariaLabel) {
-      return { error: `Invalid mode: ${mode}. Use: search, research, labs, learn` };
-    }
+// ---- MCP over Streamable HTTP ----
 
-    const state = cometClient.currentState;
-    if (!state.currentUrl?.includes("perplexity.ai")) {
-      await cometClient.navigate("https://www.perplexity.ai/", true);
-    }
+// Open MCP sessions by Mcp-Session-Id. Each has its own transport and MCP
+// Server; all of them run tools on toolService.
+const mcpSessions = new Map<string, StreamableHTTPServerTransport>();
 
-    const clickResult = await cometClient.evaluate(`
-      (() => {
-        const btn = document.querySelector('button[aria-label="${ariaLabel}"]');
-        if (btn) { btn.click(); return { success: true, method: 'button' }; }
-        const allButtons = document.querySelectorAll('button');
-        for (const b of allButtons) {
-          const text = b.innerText.toLowerCase();
-          if ((text.includes('search') || text.includes('research') ||
-               text.includes('labs') || text.includes('learn')) && b.querySelector('svg')) {
-            b.click();
-            return { success: true, method: 'dropdown-open', needsSelect: true };
-          }
-        }
-        return { success: false, error: "Mode selector not found" };
-      })()
-    `);
-
-    const result = clickResult.result.value as { success: boolean; method?: string; needsSelect?: boolean; error?: string };
-
-    if (result.success && result.needsSelect) {
-      await new Promise((r) => setTimeout(r, 300));
-      const selectResult = await cometClient.evaluate(`
-        (() => {
-          const items = document.querySelectorAll('[role="menuitem"], [role="option"], button');
-          for (const item of items) {
-            if (item.innerText.toLowerCase().includes('${mode}')) {
-              item.click();
-              return { success: true };
-            }
-          }
-          return { success: false, error: "Mode option not found in dropdown" };
-        })()
-      `);
-      const selectRes = selectResult.result.value as { success: boolean; error?: string };
-      if (selectRes.success) return { mode, message: `Switched to ${mode} mode` };
-      return { error: selectRes.error || "Failed to select mode from dropdown" };
+async function handleMcp(req: IncomingMessage, res: ServerResponse) {
+  const sessionId = req.headers["mcp-session-id"];
+  if (typeof sessionId === "string") {
+    const transport = mcpSessions.get(sessionId);
+    if (!transport) {
+      // Tells the client to start a new session (MCP spec: 404 for unknown sessions)
+      json(res, { jsonrpc: "2.0", error: { code: -32001, message: "Session not found" }, id: null }, 404);
+      return;
     }
-
-    if (result.success) return { mode, message: `Switched to ${mode} mode` };
-    return { error: result.error || "Failed to switch mode" };
-  })();
-
-  if ("error" in result) {
-    errorJson(res, result.error as string, 400);
-  } else {
-    json(res, result);
+    await transport.handleRequest(req, res);
+    return;
   }
-}
-
-// ---- Tab Group route handlers ----
-
-async function handleTabGroupsList(res: ServerResponse) {
-  const result = await (async () => {
-    return { groups: await tabGroupsClient.listGroups() };
-  })();
-  json(res, result);
-}
-
-async function handleTabGroupsListTabs(res: ServerResponse) {
-  const result = await (async () => {
-    return { tabs: await tabGroupsClient.listTabs() };
-  })();
-  json(res, result);
-}
-
-async function handleTabGroupsCreate(res: ServerResponse, body: Record<string, unknown>) {
-  const result = await (async () => {
-    const tabIds = body.tabIds as number[];
-    if (!tabIds || tabIds.length === 0) return { error: "tabIds is required" };
-    return await tabGroupsClient.createGroup({
-      tabIds,
-      title: body.title as string | undefined,
-      color: body.color as any,
-    });
-  })();
-  if ("error" in result) errorJson(res, result.error as string, 400);
-  else json(res, result);
-}
-
-async function handleTabGroupsUpdate(res: ServerResponse, body: Record<string, unknown>) {
-  const result = await (async () => {
-    const groupId = body.groupId as number;
-    if (groupId === undefined) return { error: "groupId is required" };
-    return await tabGroupsClient.updateGroup({
-      groupId,
-      title: body.title as string | undefined,
-      color: body.color as any,
-      collapsed: body.collapsed as boolean | undefined,
-    });
-  })();
-  if ("error" in result) errorJson(res, result.error as string, 400);
-  else json(res, result);
-}
 
-async function handleTabGroupsDelete(res: ServerResponse, body: Record<string, unknown>) {
-  const result = await (async () => {
-    const groupId = body.groupId as number;
-    if (groupId === undefined) return { error: "groupId is required" };
-    const tabs = await tabGroupsClient.listTabs();
-    const groupTabs = tabs.filter((t) => t.groupId === groupId);
-    if (groupTabs.length === 0) return { message: `No tabs found in group ${groupId}` };
-    await tabGroupsClient.ungroupTabs(groupTabs.map((t) => t.id));
-    return { deleted: true, ungroupedTabs: groupTabs.length };
-  })();
-  if ("error" in result) errorJson(res, result.error as string, 400);
-  else json(res, result);
+  // No session yet: the transport accepts only an initialize request here
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      mcpSessions.set(id, transport);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) mcpSessions.delete(transport.sessionId);
+  };
+  await createMcpServer(toolService).connect(transport);
+  await transport.handleRequest(req, res);
 }
 
 // ---- Targets & Dashboard handlers ----
 
 async function handleTargets(res: ServerResponse) {
   try {
-    const response = await fetch(`http://127.0.0.1:9222/json/list`);
+    const response = await fetch(`${cdpHttpUrl()}/json/list`);
     if (!response.ok) throw new Error(`CDP returned ${response.status}`);
     const targets = await response.json();
     json(res, { targets });
@@ -532,7 +270,7 @@ async function handleTargets(res: ServerResponse) {
 }
 
 async function handleDashboardData(res: ServerResponse) {
-  const windowGeometry = getWindowGeometry();
+  const windowGeometry = await getWindowGeometry();
 
   const result = await (async () => {
     let groups: any[] = [];
@@ -548,15 +286,103 @@ async function handleDashboardData(res: ServerResponse) {
     } catch { /* extension unavailable */ }
 
     try {
-      const response = await fetch(`http://127.0.0.1:9222/json/list`);
+      const response = await fetch(`${cdpHttpUrl()}/json/list`);
       if (response.ok) targets = await response.json();
     } catch { /* CDP unreachable */ }
 
-    return { groups, tabs, targets, windowGeometry };
+    const toolMetrics = orchestrator?.getToolMetrics() ?? {};
+    const sessions = cdpSessions.list();
+    return { groups, tabs, targets, windowGeometry, toolMetrics, sessions, mcpSessions: mcpSessions.size };
   })();
   json(res, result);
 }
 
+// ---- Server-Sent Events ----
+
+const SSE_HEARTBEAT_MS = 15_000;
+const AGENT_WATCH_MS = 2_000;
+const TAB_GROUPS_WATCH_MS = 5_000;
+const HEALTH_WATCH_MS = 10_000;
+
+// Background watchers run only while at least one SSE client is connected.
+// They poll sources that cannot push on their own; producers publish to
+// cometEvents only when something actually changed.
+let watchers: Array<{ stop: () => void }> = [];
+let lastGroupsSignature = "";
+
+function watch(fn: () => Promise<void>, intervalMs: number): { stop: () => void } {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  const tick = async () => {
+    try { await fn(); } catch { /* source unavailable — try again next tick */ }
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  };
+  timer = setTimeout(tick, intervalMs);
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+function startWatchers() {
+  if (watchers.length > 0) return;
+  watchers = [
+    watch(async () => {
+      if (cometClient.isConnected) await cometAI.getAgentStatus();
+    }, AGENT_WATCH_MS),
+    watch(async () => {
+      if (orchestrator) await orchestrator.health();
+    }, HEALTH_WATCH_MS),
+    watch(async () => {
+      const groups = await tabGroupsClient.listGroups();
+      const signature = JSON.stringify(groups);
+      if (lastGroupsSignature && signature !== lastGroupsSignature) {
+        cometEvents.publish({ type: "tab-groups", action: "sync", groups });
+      }
+      lastGroupsSignature = signature;
+    }, TAB_GROUPS_WATCH_MS),
+  ];
+}
+
+function stopWatchers() {
+  for (const w of watchers) w.stop();
+  watchers = [];
+  lastGroupsSignature = "";
+}
+
+function handleEvents(req: IncomingMessage, res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+
+  const send = (type: string, data: unknown) => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const unsubscribe = cometEvents.subscribe((event) => send(event.type, event));
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
+  startWatchers();
+
+  // Initial snapshot so clients do not wait for the first change
+  if (orchestrator) {
+    orchestrator.health().then(
+      (h) => send("health", { type: "health", overall: h.overall, components: h.components, timestamp: h.checkedAt }),
+      () => { /* health probe failed — watcher will retry */ },
+    );
+  }
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    if (cometEvents.subscriberCount === 0) stopWatchers();
+  });
+}
+
 function serveDashboard(res: ServerResponse) {
   res.writeHead(200, {
     "Content-Type": "text/html; charset=utf-8",
@@ -567,267 +393,149 @@ function serveDashboard(res: ServerResponse) {
 
 // ---- HTTP Server ----
 
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, args: Record<string, any>) => void | Promise<void>;
+
+// Routes in HTTP_ROUTES that do not run a tool, by operationId
+const ROUTE_HANDLERS: Record<string, RouteHandler> = {
+  dashboard: (_req, res) => serveDashboard(res),
+  openapi: (_req, res) => json(res, buildOpenApiDocument({ serverUrl: `http://localhost:${PORT}` })),
+  events: (req, res) => handleEvents(req, res),
+  targets: (_req, res) => handleTargets(res),
+  dashboardData: (_req, res) => handleDashboardData(res),
+  health: async (_req, res, { force }) => {
+    if (orchestrator) {
+      await sendTool(res, "comet_health", { force });
+    } else {
+      json(res, { status: "ok", port: PORT, timestamp: new Date().toISOString() });
+    }
+  },
+  listTasks: (_req, res, { state, limit }) => {
+    if (!orchestrator) {
+      errorJson(res, "Orchestrator not initialized", 503);
+      return;
+    }
+    const tasks = orchestrator.listTasks({ state: state as TaskState | undefined, limit: limit ?? 50 });
+    json(res, { count: tasks.length, tasks });
+  },
+};
+
+for (const route of HTTP_ROUTES) {
+  if (!route.tool && !ROUTE_HANDLERS[route.operationId]) throw new Error(`No handler for ${route.method} ${route.path}`);
+}
+
 const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  // Browsers send Origin on cross-origin requests; pages from other origins
+  // are turned away before they can reach the browser
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    if (!ALLOWED_ORIGINS.has(origin)) {
+      errorJson(res, `Origin not allowed: ${origin}`, 403);
+      return;
+    }
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    res.setHeader("Vary", "Origin");
+  }
+
   // CORS preflight
   if (req.method === "OPTIONS") {
     res.writeHead(204, {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
     });
     res.end();
     return;
   }
 
-  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
-  const path = url.pathname;
+  const method = req.method ?? "GET";
+  const access = checkAccess(tokenFile.tokens, method, path, presentedToken(method, req.headers.authorization, url));
+  if (!access.allowed) {
+    if (access.status === 401) res.setHeader("WWW-Authenticate", 'Bearer realm="comet-bridge"');
+    errorJson(res, access.error, access.status);
+    return;
+  }
 
   try {
-    if (path === "/dashboard" && req.method === "GET") {
-      serveDashboard(res);
-    } else if (path === "/api/targets" && req.method === "GET") {
-      await handleTargets(res);
-    } else if (path === "/api/dashboard-data" && req.method === "GET") {
-      await handleDashboardData(res);
-    } else if (path === "/api/health" && req.method === "GET") {
-      if (orchestrator) {
-        const force = url.searchParams.get("force") === "true";
-        const health = await orchestrator.health(force);
-        json(res, health);
-      } else {
-        json(res, { status: "ok", port: PORT, timestamp: new Date().toISOString() });
-      }
-    } else if (path === "/api/connect" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleConnect(res, body);
-    } else if (path === "/api/ask" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleAsk(res, body);
-    } else if (path === "/api/poll" && req.method === "GET") {
-      const taskId = url.searchParams.get("task_id");
-      if (taskId && orchestrator) {
-        const task = orchestrator.getTaskStatus(taskId);
-        if (!task) {
-          errorJson(res, `Task ${taskId} not found`, 404);
-        } else {
-          json(res, {
-            task_id: task.id,
-            state: task.state,
-            currentStepIndex: task.currentStepIndex,
-            steps_total: task.steps.length,
-            startedAt: task.startedAt,
-            completedAt: task.completedAt,
-          });
-        }
-      } else {
-        await handlePoll(res);
-      }
-    } else if (path === "/api/stop" && req.method === "POST") {
-      const body = await readBody(req);
-      const taskId = body.task_id as string | undefined;
-      if (taskId && orchestrator) {
-        const cancelled = orchestrator.cancelTask(taskId);
-        json(res, { task_id: taskId, cancelled });
-      } else {
-        await handleStop(res);
-      }
-    } else if (path === "/api/screenshot" && req.method === "GET") {
-      await handleScreenshot(res);
-    } else if (path === "/api/mode" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleMode(res, body);
-    } else if (path === "/api/delegate" && req.method === "POST") {
-      if (!orchestrator) {
-        errorJson(res, "Orchestrator not initialized", 503);
-      } else {
-        const body = await readBody(req);
-        const description = body.description as string;
-        if (!description) {
-          errorJson(res, "description is required", 400);
-        } else {
-          const result = await orchestrator.delegate(description, {
-            targetTab: body.target_tab as string | undefined,
-            timeout_ms: body.timeout_ms as number | undefined,
-            async: body.async as boolean | undefined,
-            template: body.template as string | undefined,
-          });
-          json(res, result);
-        }
-      }
-    } else if (path === "/api/monitor" && req.method === "GET") {
-      if (!orchestrator) {
-        errorJson(res, "Orchestrator not initialized", 503);
-      } else {
-        const section = url.searchParams.get("section") as "windows" | "tabs" | "all" | null;
-        const state = await orchestrator.getMonitorState(section ?? undefined);
-        json(res, state);
-      }
-    } else if (path === "/api/tab-groups" && req.method === "GET") {
-      await handleTabGroupsList(res);
-    } else if (path === "/api/tab-groups/tabs" && req.method === "GET") {
-      await handleTabGroupsListTabs(res);
-    } else if (path === "/api/tab-groups" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleTabGroupsCreate(res, body);
-    } else if (path === "/api/tab-groups/update" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleTabGroupsUpdate(res, body);
-    } else if (path === "/api/tab-groups/delete" && req.method === "POST") {
-      const body = await readBody(req);
-      await handleTabGroupsDelete(res, body);
-    } else {
+    if (path === "/mcp") {
+      await handleMcp(req, res);
+      return;
+    }
+
+    const route = findRoute(method, path);
+    if (!route) {
       errorJson(res, `Not found: ${req.method} ${path}`, 404);
+      return;
+    }
+
+    // Parameters are checked against the route table, so a misspelled or
+    // renamed field is reported instead of silently ignored
+    let params: unknown;
+    try {
+      params = route.method === "GET" ? queryParams(route, url) : await readBody(req);
+    } catch (err) {
+      errorJson(res, err instanceof Error ? err.message : String(err), 400);
+      return;
+    }
+    const problems = validateSchema(route.params, params);
+    if (problems.length > 0) {
+      json(res, { error: `Invalid request: ${problems.join("; ")}`, problems }, 400);
+      return;
+    }
+    const args = params as Record<string, unknown>;
+
+    if (route.tool) {
+      await sendTool(res, route.tool.name, { ...args, ...route.tool.args });
+    } else {
+      await ROUTE_HANDLERS[route.operationId](req, res, args);
     }
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.error(`[${new Date().toISOString()}] Error on ${req.method} ${path}:`, message);
-    errorJson(res, message, 500);
+    if (!res.headersSent) errorJson(res, message, 500);
   }
 });
 
 import { TaskQueue } from "./task-queue.js";
+import { createTaskStore, shouldResumePendingTasks } from "./task-store.js";
 import { TaskTemplateRegistry } from "./task-templates.js";
+import { TemplateLoader, type TemplateLoadResult } from "./template-loader.js";
 import { ToolRouter } from "./tool-router.js";
 import { HealthChecker } from "./health.js";
 import { MonitorProxy } from "./monitor-proxy.js";
 import { DormancyManager } from "./dormancy.js";
 import { pythonBridge } from "./python-bridge.js";
 import { setDormancyManager } from "./tab-groups.js";
-import type { ToolDescriptor } from "./types.js";
-
-async function executeLocalTool(name: string, params: Record<string, unknown>): Promise<unknown> {
-  switch (name) {
-    case "comet_connect": {
-      const startResult = await cometClient.startComet(9222);
-      const targets = await cometClient.listTargets();
-      const pageTabs = targets.filter((t) => t.type === "page");
-      const perplexityTab = pageTabs.find((t) => t.url?.includes("perplexity.ai"));
-      if (perplexityTab) {
-        await cometClient.connect(perplexityTab.id);
-        return { connected: true, tab: "existing Perplexity tab", tabs: pageTabs.length };
-      }
-      const newTab = await cometClient.newTab("https://www.perplexity.ai/");
-      await new Promise((r) => setTimeout(r, 2000));
-      await cometClient.connect(newTab.id);
-      return { connected: true, tab: "new Perplexity tab", tabs: pageTabs.length + 1 };
-    }
-
-    case "comet_ask": {
-      let prompt = (params.prompt as string) || "";
-      const timeout = (params.timeout as number) || 15000;
-      const newChat = (params.newChat as boolean) || false;
-      if (!prompt.trim()) throw new Error("prompt cannot be empty");
-
-      prompt = prompt.replace(/^[-*•]\s*/gm, "").replace(/\n+/g, " ").replace(/\s+/g, " ").trim();
+import type { TaskState } from "./types.js";
 
-      if (newChat) {
-        const tab = await cometClient.newTab("https://www.perplexity.ai/");
-        await new Promise((r) => setTimeout(r, 2000));
-        await cometClient.connect(tab.id);
-      }
-      await cometAI.sendPrompt(prompt);
-
-      const start = Date.now();
-      while (Date.now() - start < timeout) {
-        await new Promise((r) => setTimeout(r, 2000));
-        const status = await cometAI.getAgentStatus();
-        if (status.status === "completed" && status.response) {
-          return { response: status.response, status: "completed" };
-        }
+async function bootstrapOrchestrator(): Promise<void> {
+  try {
+    const taskQueue = new TaskQueue({ store: createTaskStore("http") });
+    try {
+      const restored = taskQueue.restore({ resumePending: shouldResumePendingTasks() });
+      if (restored.restored > 0) {
+        console.log(`Task store: ${restored.restored} task(s) restored, ${restored.interrupted} marked interrupted, ${restored.resumed} resumed`);
       }
-      const final = await cometAI.getAgentStatus();
-      return { response: final.response || null, status: final.status, steps: final.steps };
-    }
-
-    case "comet_poll": {
-      const status = await cometAI.getAgentStatus();
-      return {
-        status: status.status,
-        response: status.response || null,
-        currentStep: status.currentStep || null,
-        steps: status.steps,
-        browsingUrl: status.agentBrowsingUrl || null,
-      };
+    } catch (err) {
+      console.error("Task store restore failed:", err instanceof Error ? err.message : err);
     }
-
-    case "comet_stop": {
-      const stopped = await cometAI.stopAgent();
-      return { stopped };
-    }
-
-    case "comet_screenshot": {
-      const result = await cometClient.screenshot("png");
-      return { data: result.data, format: "png" };
-    }
-
-    case "comet_mode": {
-      const mode = params.mode as string | undefined;
-      if (!mode) {
-        const result = await cometClient.evaluate(`
-          (() => {
-            const modes = ['Search', 'Research', 'Labs', 'Learn'];
-            for (const m of modes) {
-              const btn = document.querySelector('button[aria-label="' + m + '"]');
-              if (btn && btn.getAttribute('data-state') === 'checked') return m.toLowerCase();
-            }
-            return 'search';
-          })()
-        `);
-        return { currentMode: result.result.value };
-      }
-      const modeMap: Record<string, string> = { search: "Search", research: "Research", labs: "Labs", learn: "Learn" };
-      const ariaLabel = modeMap[mode];
-      if (!ariaLabel) throw new Error(`Invalid mode: ${mode}. Use: search, research, labs, learn`);
-
-      const state = cometClient.currentState;
-      if (!state.currentUrl?.includes("perplexity.ai")) {
-        await cometClient.navigate("https://www.perplexity.ai/", true);
+    const templateRegistry = new TaskTemplateRegistry();
+    const templateLoader = new TemplateLoader(templateRegistry);
+    const reportTemplates = (result: TemplateLoadResult) => {
+      if (result.loaded.length > 0) {
+        console.log(`Templates: ${result.loaded.join(", ")} (from ${templateLoader.dir})`);
       }
-      await cometClient.evaluate(`
-        (() => {
-          const btn = document.querySelector('button[aria-label="${ariaLabel}"]');
-          if (btn) { btn.click(); return true; }
-          return false;
-        })()
-      `);
-      return { mode, switched: true };
-    }
-
-    case "comet_tab_groups": {
-      const action = params.action as string;
-      switch (action) {
-        case "list": return { groups: await tabGroupsClient.listGroups() };
-        case "list_tabs": return { tabs: await tabGroupsClient.listTabs() };
-        default: return { error: `Tab group action '${action}' not fully wired in localToolHandler yet` };
+      for (const { file, error } of result.errors) {
+        console.error(`Skipped template ${file}: ${error}`);
       }
-    }
-
-    default:
-      throw new Error(`Local tool not wired: ${name}`);
-  }
-}
-
-async function bootstrapOrchestrator(): Promise<void> {
-  try {
-    const localTools: ToolDescriptor[] = [
-      { name: "comet_connect", qualifiedName: "mcp:comet_connect", server: "comet-mcp", category: "meta", schema: {}, description: "Connect to Comet browser", isCanonical: true },
-      { name: "comet_ask", qualifiedName: "mcp:comet_ask", server: "comet-mcp", category: "ai", schema: {}, description: "Send prompt to Perplexity", isCanonical: true },
-      { name: "comet_poll", qualifiedName: "mcp:comet_poll", server: "comet-mcp", category: "ai", schema: {}, description: "Poll agent status", isCanonical: true },
-      { name: "comet_stop", qualifiedName: "mcp:comet_stop", server: "comet-mcp", category: "ai", schema: {}, description: "Stop current agent", isCanonical: true },
-      { name: "comet_screenshot", qualifiedName: "mcp:comet_screenshot", server: "comet-mcp", category: "monitor", schema: {}, description: "Capture screenshot", isCanonical: true },
-      { name: "comet_mode", qualifiedName: "mcp:comet_mode", server: "comet-mcp", category: "ai", schema: {}, description: "Get/set Perplexity mode", isCanonical: true },
-      { name: "comet_tab_groups", qualifiedName: "mcp:comet_tab_groups", server: "comet-mcp", category: "tab", schema: {}, description: "Manage tab groups", isCanonical: true },
-      { name: "comet_health", qualifiedName: "mcp:comet_health", server: "comet-mcp", category: "monitor", schema: {}, description: "Check infrastructure health", isCanonical: true },
-      { name: "comet_delegate", qualifiedName: "mcp:comet_delegate", server: "comet-mcp", category: "meta", schema: {}, description: "Delegate task to orchestrator", isCanonical: true },
-      { name: "comet_monitor", qualifiedName: "mcp:comet_monitor", server: "comet-mcp", category: "monitor", schema: {}, description: "Get monitor state", isCanonical: true },
-    ];
-
-    const taskQueue = new TaskQueue();
-    const templateRegistry = new TaskTemplateRegistry();
-    const toolRouter = new ToolRouter(localTools, pythonBridge);
+    };
+    reportTemplates(templateLoader.load());
+    templateLoader.watch(reportTemplates);
     const dormancyManager = new DormancyManager();
     const monitorProxy = new MonitorProxy();
-    const healthChecker = new HealthChecker({ dormancyManager, monitorProxy });
+    const healthChecker = new HealthChecker({ dormancyManager, monitorProxy, events: cometEvents });
 
     setDormancyManager(dormancyManager);
 
@@ -838,39 +546,42 @@ async function bootstrapOrchestrator(): Promise<void> {
       healthChecker,
       monitorProxy,
       dormancyManager,
-      localToolHandler: async (name: string, params: Record<string, unknown>) => {
-        return executeLocalTool(name, params);
-      },
+      events: cometEvents,
     });
 
-    await orch.initialize();
+    // Local tools work without the Python server, as in the stdio MCP server:
+    // serve the orchestrator even when initialize() cannot reach it
     setOrchestrator(orch);
+    await orch.initialize();
     console.log("Orchestrator initialized successfully");
   } catch (err) {
-    console.error("Orchestrator initialization failed:", err instanceof Error ? err.message : err);
+    console.error("Orchestrator initialization failed (non-fatal):", err instanceof Error ? err.message : err);
   }
 }
 
-server.listen(PORT, () => {
-  console.log(`Comet Bridge HTTP API listening on port ${PORT}`);
-  console.log(`Dashboard: http://localhost:${PORT}/dashboard`);
+server.listen(PORT, HOST, () => {
+  console.log(`Comet Bridge HTTP API listening on ${HOST}:${PORT}`);
+  if (!isLoopbackHost(HOST)) {
+    console.warn(`WARNING: listening beyond loopback (${HOST}); anyone who can reach this port with a token controls the browser`);
+  }
+  console.log(`Access tokens: ${tokenFile.path}${tokenFile.created ? " (created)" : ""}`);
+  const dashboardToken = tokenFile.tokens.find((t) => t.scope === "read") ?? tokenFile.tokens[0];
+  console.log(`Comet CDP endpoint: ${cdpHttpUrl()}${cometConfigFile() ? ` (config: ${cometConfigFile()})` : ""}`);
+  console.log(`Dashboard: http://localhost:${PORT}/dashboard${dashboardToken ? `#token=${dashboardToken.token}` : ""}`);
   console.log(`Health check: http://localhost:${PORT}/api/health`);
+  console.log(`MCP (Streamable HTTP): http://localhost:${PORT}/mcp`);
+  const siteProfileLoad = loadSiteProfile();
+  if (siteProfileLoad.error) {
+    console.error(`Ignoring site profile ${siteProfileLoad.error}`);
+  } else if (siteProfileLoad.source) {
+    console.log(`Site profile: ${siteProfileLoad.profile.name} (from ${siteProfileLoad.source})`);
+  }
   console.log(`\nEndpoints:`);
-  console.log(`  GET  /dashboard            - Live monitoring dashboard`);
-  console.log(`  GET  /api/targets          - Raw CDP targets`);
-  console.log(`  POST /api/connect          - Start Comet & connect`);
-  console.log(`  POST /api/ask              - Send prompt {prompt, newChat?, timeout?}`);
-  console.log(`  GET  /api/poll             - Check agent status (or ?task_id= for task)`);
-  console.log(`  POST /api/stop             - Stop current agent (or {task_id} to cancel task)`);
-  console.log(`  GET  /api/screenshot       - Capture page screenshot`);
-  console.log(`  POST /api/mode             - Get/set Perplexity mode {mode?}`);
-  console.log(`  POST /api/delegate         - Delegate task to orchestrator`);
-  console.log(`  GET  /api/monitor          - Orchestrator monitor state (?section=)`);
-  console.log(`  GET  /api/tab-groups       - List all tab groups`);
-  console.log(`  GET  /api/tab-groups/tabs  - List all tabs with group info`);
-  console.log(`  POST /api/tab-groups       - Create group {tabIds, title?, color?}`);
-  console.log(`  POST /api/tab-groups/update - Update group {groupId, title?, color?, collapsed?}`);
-  console.log(`  POST /api/tab-groups/delete - Delete group {groupId}`);
+  console.log(`  *    /mcp                       - MCP Streamable HTTP (POST requests, GET event stream, DELETE session)`);
+  for (const route of HTTP_ROUTES) {
+    console.log(`  ${route.method.padEnd(4)} ${route.path.padEnd(26)} - ${route.summary}`);
+  }
+  console.log(`Parameters and responses: http://localhost:${PORT}/api/openapi.json`);
 
   bootstrapOrchestrator();
 });
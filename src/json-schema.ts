@@ -0,0 +1,125 @@
+// JSON Schema validation for the subset the tool input schemas and the HTTP
+// route table use: type, enum, properties, required, additionalProperties,
+// items, oneOf/anyOf, minimum/maximum, minLength and minItems/maxItems.
+// Keywords outside that subset are ignored rather than rejected.
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type JsonType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaProblem {
+  /** Path of the offending value, e.g. "tabIds[1]"; "" for the value itself. */
+  field: string;
+  /** What is wrong, naming the field: "tabIds[1] must be a number". */
+  message: string;
+}
+
+// ─── Validation ──────────────────────────────────────────────────
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return (actual === "number" && Number.isFinite(value)) || actual === "integer";
+  return actual === type;
+}
+
+function label(path: string): string {
+  return path || "value";
+}
+
+function child(path: string, key: string | number): string {
+  if (typeof key === "number") return `${label(path)}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/** Problems with value against schema, each with the field it is about. Empty when valid. */
+export function schemaProblems(schema: JsonSchema, value: unknown, path = ""): SchemaProblem[] {
+  const problem = (field: string, what: string): SchemaProblem => ({ field, message: `${label(field)} ${what}` });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [problem(path, `must be ${types.map((t) => (t === "array" || t === "object" || t === "integer" ? `an ${t}` : `a ${t}`)).join(" or ")}`)];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [problem(path, `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`)];
+  }
+
+  const problems: SchemaProblem[] = [];
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option) => schemaProblems(option, value, path).length === 0).length;
+    if (matches !== 1) problems.push(problem(path, `must match exactly one of ${schema.oneOf.length} allowed forms`));
+  }
+  if (schema.anyOf && !schema.anyOf.some((option) => schemaProblems(option, value, path).length === 0)) {
+    problems.push(problem(path, `must match one of ${schema.anyOf.length} allowed forms`));
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) problems.push(problem(path, `must be at least ${schema.minimum}`));
+    if (schema.maximum !== undefined && value > schema.maximum) problems.push(problem(path, `must be at most ${schema.maximum}`));
+  }
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    problems.push(problem(path, `must be at least ${schema.minLength} character(s) long`));
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) problems.push(problem(path, `must have at least ${schema.minItems} item(s)`));
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) problems.push(problem(path, `must have at most ${schema.maxItems} item(s)`));
+    if (schema.items) {
+      value.forEach((item, i) => problems.push(...schemaProblems(schema.items!, item, child(path, i))));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) problems.push(problem(child(path, key), "is required"));
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) {
+        problems.push(...schemaProblems(property, item, child(path, key)));
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties ?? {});
+        problems.push(problem(child(path, key), `is not a known field${known.length ? ` (known: ${known.join(", ")})` : ""}`));
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Problems with value against schema, one message per problem, such as
+ * "prompt must be a string". Empty when the value is valid.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ""): string[] {
+  return schemaProblems(schema, value, path).map((p) => p.message);
+}
@@ -0,0 +1,50 @@
+// MCP adapter — an MCP Server whose tools run on a ToolService.
+//
+// index.ts connects one to stdio. The HTTP daemon (http-server.ts) creates one
+// per Streamable HTTP session, all on the daemon's single ToolService, so
+// every client shares one orchestrator, task queue and set of tab locks.
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { TOOLS } from "./tool-definitions.js";
+import { toMcpResponse, type ProgressReporter, type ToolService } from "./tool-service.js";
+
+export const MCP_SERVER_INFO = { name: "comet-bridge", version: "2.3.0" };
+
+/** A new MCP Server listing the comet_* tools and running them on tools. */
+export function createMcpServer(tools: Pick<ToolService, "call">): Server {
+  const server = new Server(MCP_SERVER_INFO, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    let progress = 0;
+    const onProgress: ProgressReporter | undefined = progressToken === undefined
+      ? undefined
+      : async (message) => {
+          progress++;
+          try {
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, message },
+            });
+          } catch {
+            // Client went away — keep running the tool
+          }
+        };
+
+    try {
+      return toMcpResponse(await tools.call(name, args ?? {}, onProgress));
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : error}` }],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
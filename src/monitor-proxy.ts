@@ -1,6 +1,6 @@
 import type { MonitorState } from "./types.js";
+import { cometConfig } from "./config.js";
 
-const MONITOR_URL = "http://127.0.0.1:5555/api/state";
 const TIMEOUT_MS = 3000;
 
 export interface IMonitorProxy {
@@ -30,11 +30,13 @@ function toUnavailable(reason: string): MonitorState {
 }
 
 export class MonitorProxy implements IMonitorProxy {
+  constructor(private readonly url: string = cometConfig().monitorUrl) {}
+
   async getState(section: "windows" | "tabs" | "all" = "all"): Promise<MonitorState> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
     try {
-      const res = await fetch(MONITOR_URL, { signal: controller.signal });
+      const res = await fetch(this.url, { signal: controller.signal });
       clearTimeout(timeout);
       if (!res.ok) {
         return toUnavailable(`${res.status} ${res.statusText}`);
@@ -77,7 +79,7 @@ export class MonitorProxy implements IMonitorProxy {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
     try {
-      const res = await fetch(MONITOR_URL, { signal: controller.signal });
+      const res = await fetch(this.url, { signal: controller.signal });
       clearTimeout(timeout);
       return res.ok;
     } catch {
@@ -0,0 +1,71 @@
+// Network activity — how long a tab's network has been quiet.
+//
+// Perplexity streams an answer over the network, so a tab that has not sent
+// or received anything for a few seconds has finished generating. Unlike the
+// page's text, that signal is the same in every UI language. A tracker
+// listens to the Network domain events of one CDP connection; the connection
+// must have called Network.enable().
+
+import type CDP from "chrome-remote-interface";
+
+// ---- Constants ----
+
+/**
+ * A request without any event for this long no longer counts as in flight
+ * (long polls, stalled requests and open sockets would otherwise keep the tab
+ * busy forever).
+ */
+const STALE_REQUEST_MS = 30_000;
+
+// ---- Tracker ----
+
+export class NetworkActivity {
+  /** Requests in flight, by request ID, with the time of their last event. */
+  private inFlight = new Map<string, number>();
+  private lastActivity: number;
+  private now: () => number;
+
+  constructor(client: Pick<CDP.Client, "on">, now: () => number = Date.now) {
+    this.now = now;
+    this.lastActivity = now();
+    client.on("event", (message) => this.handle(message.method, message.params as { requestId?: string }));
+  }
+
+  /**
+   * Milliseconds since the last network event, or 0 while a request is in
+   * flight. Counts from the tracker's creation when nothing has happened yet.
+   */
+  idleMs(): number {
+    const now = this.now();
+    for (const [requestId, seen] of this.inFlight) {
+      if (now - seen < STALE_REQUEST_MS) return 0;
+      this.inFlight.delete(requestId);
+    }
+    return now - this.lastActivity;
+  }
+
+  private handle(method: string, params: { requestId?: string }): void {
+    if (!method.startsWith("Network.")) return;
+    const now = this.now();
+    const requestId = params?.requestId;
+    switch (method) {
+      case "Network.requestWillBeSent":
+      case "Network.responseReceived":
+      case "Network.dataReceived":
+      case "Network.eventSourceMessageReceived":
+        if (requestId) this.inFlight.set(requestId, now);
+        break;
+      case "Network.loadingFinished":
+      case "Network.loadingFailed":
+        if (requestId) this.inFlight.delete(requestId);
+        break;
+      case "Network.webSocketFrameReceived":
+      case "Network.webSocketFrameSent":
+        // Open sockets are not in flight; only their frames are activity
+        break;
+      default:
+        return;
+    }
+    this.lastActivity = now;
+  }
+}
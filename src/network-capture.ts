@@ -0,0 +1,253 @@
+// Network answer capture — read Perplexity's answer from its response stream.
+//
+// Perplexity streams each answer as server-sent events. Instead of scraping
+// the rendered answer out of the DOM, a capture watches the tab's Network
+// domain for that stream, reads its body once the request finishes and
+// rebuilds the answer from the payload: exact markdown, the source list, and
+// the end of the stream as a dependable "finished" signal. When the stream is
+// not found or its format is not recognised, callers fall back to the DOM.
+//
+// Configuration:
+//   COMET_ANSWER_CAPTURE — "network" to make network capture the default for
+//     comet_ask, "dom" (default) to scrape the page. comet_ask's `capture`
+//     argument overrides it per call.
+
+import type CDP from "chrome-remote-interface";
+import type { AnswerCitation, AnswerSource, ResearchAnswer } from "./types.js";
+
+// ---- Types ----
+
+export type CaptureMode = "dom" | "network";
+
+export interface CaptureResult {
+  /**
+   * idle: no answer stream seen yet; streaming: a stream is open;
+   * finished: the answer was read from a completed stream;
+   * unrecognized: a stream completed but its payload could not be read.
+   */
+  state: "idle" | "streaming" | "finished" | "unrecognized";
+  answer: ResearchAnswer | null;
+  /** URL of the answer stream, once seen. */
+  url: string | null;
+  error?: string;
+}
+
+/** An answer rebuilt from stream events, and whether the stream said it was done. */
+export interface StreamAnswer {
+  answer: ResearchAnswer;
+  final: boolean;
+}
+
+interface WebResult {
+  url?: unknown;
+  name?: unknown;
+}
+
+// ---- Constants ----
+
+export const CAPTURE_MODES: CaptureMode[] = ["dom", "network"];
+const ANSWER_STREAM_URL = /^https:\/\/(?:[\w-]+\.)*perplexity\.ai\/rest\/sse\//i;
+const EVENT_STREAM_MIME = "text/event-stream";
+/** How long to keep waiting on an open stream once the page shows the answer as done. */
+export const STREAM_GRACE_MS = 10_000;
+
+/** Capture mode comet_ask uses when the call does not pick one. */
+export function defaultCaptureMode(): CaptureMode {
+  return process.env.COMET_ANSWER_CAPTURE === "network" ? "network" : "dom";
+}
+
+// ---- Stream parsing ----
+
+/** JSON payloads of the `data:` fields of an event-stream body, in order. Non-JSON events are skipped. */
+export function parseEventStream(body: string): unknown[] {
+  const events: unknown[] = [];
+  for (const block of body.split(/\r?\n\r?\n/)) {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (!data) continue;
+    try {
+      events.push(JSON.parse(data));
+    } catch {
+      // keep-alives and plain-text events
+    }
+  }
+  return events;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: unknown): unknown {
+  if (typeof text !== "string") return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** { answer, web_results } from the `text` field of the older stream format. */
+function legacyAnswer(event: Record<string, unknown>): { markdown: string; webResults: unknown } | null {
+  const text = parseJson(event.text);
+  // Either the answer object itself, or a list of steps ending in a FINAL step holding it
+  const finalStep = Array.isArray(text)
+    ? (text.find((step) => isRecord(step) && step.step_type === "FINAL") as { content?: { answer?: unknown } } | undefined)
+    : undefined;
+  const payload = Array.isArray(text) ? parseJson(finalStep?.content?.answer) : text;
+  if (!isRecord(payload) || typeof payload.answer !== "string") return null;
+  return { markdown: payload.answer, webResults: payload.web_results };
+}
+
+function toAnswer(markdown: string, webResults: unknown): ResearchAnswer {
+  const sources: AnswerSource[] = [];
+  for (const result of Array.isArray(webResults) ? (webResults as WebResult[]) : []) {
+    if (typeof result?.url !== "string") continue;
+    sources.push({ url: result.url, title: typeof result.name === "string" ? result.name : result.url });
+  }
+
+  // [n] markers point into the web results, 1-based
+  const citations: AnswerCitation[] = [];
+  for (const match of markdown.matchAll(/\[(\d+)\]/g)) {
+    const marker = Number(match[1]);
+    const source = sources[marker - 1];
+    if (source && !citations.some((c) => c.marker === marker)) citations.push({ marker, ...source });
+  }
+  citations.sort((a, b) => a.marker - b.marker);
+
+  return { markdown: markdown.trim(), citations, sources, sourceCount: sources.length > 0 ? sources.length : null };
+}
+
+/**
+ * Rebuild the answer from the events of one answer stream. Understands the
+ * block format (`blocks` with markdown and web-result blocks, markdown sent
+ * as chunks at offsets) and the older format (a JSON `text` field holding
+ * `answer` and `web_results`). Returns null when no event is recognised.
+ */
+export function answerFromStreamEvents(events: unknown[]): StreamAnswer | null {
+  let markdown: string | null = null;
+  let webResults: unknown = undefined;
+  let final = false;
+
+  for (const event of events) {
+    if (!isRecord(event)) continue;
+    if (event.final === true || event.final_sse_message === true || event.status === "COMPLETED") final = true;
+
+    if (Array.isArray(event.blocks)) {
+      for (const block of event.blocks) {
+        if (!isRecord(block)) continue;
+        const md = block.markdown_block;
+        if (isRecord(md)) {
+          if (typeof md.answer === "string") {
+            markdown = md.answer;
+          } else if (Array.isArray(md.chunks)) {
+            const offset = typeof md.chunk_starting_offset === "number" ? md.chunk_starting_offset : 0;
+            markdown = (markdown ?? "").substring(0, offset) + md.chunks.join("");
+          }
+        }
+        const web = block.web_result_block;
+        if (isRecord(web) && Array.isArray(web.web_results)) webResults = web.web_results;
+      }
+      continue;
+    }
+
+    const legacy = legacyAnswer(event);
+    if (legacy) {
+      markdown = legacy.markdown;
+      if (legacy.webResults !== undefined) webResults = legacy.webResults;
+    }
+  }
+
+  if (markdown === null) return null;
+  return { answer: toAnswer(markdown, webResults), final };
+}
+
+/**
+ * Where a waiting comet_ask should take its answer from: the captured stream
+ * once it finished, else the page once it has shown the answer as completed
+ * for domCompletedMs (null while it has not). An open stream gets
+ * STREAM_GRACE_MS to finish first. Returns null to keep waiting.
+ */
+export function settledAnswerSource(
+  capture: CaptureResult | null | undefined,
+  domCompletedMs: number | null,
+): CaptureMode | null {
+  if (capture?.state === "finished" && capture.answer) return "network";
+  if (domCompletedMs === null) return null;
+  if (capture?.state === "streaming" && domCompletedMs < STREAM_GRACE_MS) return null;
+  return "dom";
+}
+
+// ---- Capture ----
+
+/**
+ * Watches one CDP connection for Perplexity answer streams. Listens from
+ * construction but only reads streams between start() and stop(); the
+ * connection must have called Network.enable().
+ */
+export class AnswerCapture {
+  private client: Pick<CDP.Client, "on" | "send">;
+  private armed = false;
+  /** Request ID of the latest answer stream since start(). */
+  private requestId: string | null = null;
+  private current: CaptureResult = { state: "idle", answer: null, url: null };
+
+  constructor(client: Pick<CDP.Client, "on" | "send">) {
+    this.client = client;
+    client.on("event", (message) => this.handle(message.method, message.params as Record<string, unknown>));
+  }
+
+  /** Start watching for the next answer stream, forgetting earlier ones. */
+  start(): this {
+    this.armed = true;
+    this.requestId = null;
+    this.current = { state: "idle", answer: null, url: null };
+    return this;
+  }
+
+  stop(): void {
+    this.armed = false;
+  }
+
+  result(): CaptureResult {
+    return this.current;
+  }
+
+  private handle(method: string, params: Record<string, unknown>): void {
+    if (!this.armed) return;
+    const requestId = params?.requestId as string | undefined;
+
+    if (method === "Network.responseReceived") {
+      const response = params.response as { url: string; mimeType?: string };
+      const isStream = ANSWER_STREAM_URL.test(response.url) ||
+        (response.mimeType === EVENT_STREAM_MIME && /perplexity\.ai\//i.test(response.url));
+      if (!isStream || !requestId) return;
+      // A newer stream (e.g. a follow-up) replaces the one being watched
+      this.requestId = requestId;
+      this.current = { state: "streaming", answer: null, url: response.url };
+    } else if (method === "Network.loadingFinished" && requestId && requestId === this.requestId) {
+      void this.read(requestId);
+    } else if (method === "Network.loadingFailed" && requestId && requestId === this.requestId) {
+      this.current = { ...this.current, state: "unrecognized", error: String(params.errorText ?? "stream failed") };
+    }
+  }
+
+  private async read(requestId: string): Promise<void> {
+    let result: CaptureResult;
+    try {
+      const { body, base64Encoded } = await this.client.send("Network.getResponseBody", { requestId });
+      const text = base64Encoded ? Buffer.from(body, "base64").toString("utf-8") : body;
+      const parsed = answerFromStreamEvents(parseEventStream(text));
+      result = parsed
+        ? { state: "finished", answer: parsed.answer, url: this.current.url }
+        : { state: "unrecognized", answer: null, url: this.current.url, error: "Unrecognized answer stream format" };
+    } catch (err) {
+      result = { state: "unrecognized", answer: null, url: this.current.url, error: err instanceof Error ? err.message : String(err) };
+    }
+    // Ignore a read that a newer stream or start() has overtaken
+    if (this.requestId === requestId) this.current = result;
+  }
+}
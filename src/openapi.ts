@@ -0,0 +1,255 @@
+// OpenAPI — the HTTP bridge's route table as an OpenAPI 3 document, and the
+// TypeScript client generated from that document (src/client.ts).
+//
+// The document is served at /api/openapi.json. The client is regenerated
+// with `npm run generate:client`; a unit test fails when it is out of date.
+
+import { HTTP_ROUTES, type HttpRoute } from "./http-routes.js";
+import { requiredScope } from "./http-auth.js";
+import { MCP_SERVER_INFO } from "./mcp-server.js";
+import type { JsonSchema } from "./json-schema.js";
+
+// ─── Document ────────────────────────────────────────────────────
+
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  security: Array<Record<string, string[]>>;
+  components: Record<string, unknown>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+};
+
+export type OpenApiOperation = {
+  operationId: string;
+  summary: string;
+  "x-required-scope": string | null;
+  security?: Array<Record<string, string[]>>;
+  parameters?: Array<{ name: string; in: "query"; required: boolean; description?: string; schema: JsonSchema }>;
+  requestBody?: { required: boolean; content: { "application/json": { schema: JsonSchema } } };
+  responses: Record<string, unknown>;
+};
+
+const ERROR_RESPONSE = { $ref: "#/components/responses/Error" };
+
+const RESPONSE_CONTENT: Record<NonNullable<HttpRoute["response"]>, Record<string, unknown>> = {
+  json: { "application/json": { schema: { type: "object", additionalProperties: true } } },
+  html: { "text/html": { schema: { type: "string" } } },
+  "event-stream": { "text/event-stream": { schema: { type: "string" } } },
+};
+
+function operation(route: HttpRoute): OpenApiOperation {
+  const scope = requiredScope(route.method, route.path);
+  const op: OpenApiOperation = {
+    operationId: route.operationId,
+    summary: route.summary,
+    "x-required-scope": scope,
+    responses: {
+      "200": { description: "Success", content: RESPONSE_CONTENT[route.response ?? "json"] },
+      "400": ERROR_RESPONSE,
+      "401": ERROR_RESPONSE,
+      "403": ERROR_RESPONSE,
+    },
+  };
+  if (scope === null) {
+    op.security = [];
+    op.responses = { "200": op.responses["200"] };
+  }
+  if (route.tool) {
+    op.responses["404"] = ERROR_RESPONSE;
+    op.responses["503"] = ERROR_RESPONSE;
+  }
+
+  const properties = route.params.properties ?? {};
+  const required = route.params.required ?? [];
+  if (route.method === "GET") {
+    if (Object.keys(properties).length > 0) {
+      op.parameters = Object.entries(properties).map(([name, { description, ...schema }]) => ({
+        name,
+        in: "query" as const,
+        required: required.includes(name),
+        ...(description ? { description } : {}),
+        schema,
+      }));
+    }
+  } else {
+    op.requestBody = { required: required.length > 0, content: { "application/json": { schema: route.params } } };
+  }
+  return op;
+}
+
+/** The OpenAPI 3 document of the routes, for a server at serverUrl. */
+export function buildOpenApiDocument(
+  { routes = HTTP_ROUTES, serverUrl = "http://localhost:3456" }: { routes?: HttpRoute[]; serverUrl?: string } = {},
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  for (const route of routes) {
+    paths[route.path] ??= {};
+    paths[route.path][route.method.toLowerCase()] = operation(route);
+  }
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Comet Bridge HTTP API",
+      version: MCP_SERVER_INFO.version,
+      description: "REST endpoints of the comet_* tools. Send a bearer token from ~/.comet-mcp/http-tokens.json; x-required-scope names the scope each operation needs.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } },
+      schemas: {
+        Error: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+      },
+      responses: {
+        Error: { description: "Error", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+      },
+    },
+    paths,
+  };
+}
+
+// ─── Client generation ───────────────────────────────────────────
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** A TypeScript type for a JSON schema. */
+function tsType(schema: JsonSchema, indent: string): string {
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  const options = schema.oneOf ?? schema.anyOf;
+  if (options) return options.map((option) => tsType(option, indent)).join(" | ");
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = schema.items ? tsType(schema.items, indent) : "unknown";
+      return /[|{]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case "object":
+      return schema.properties ? tsObject(schema, indent) : "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function tsObject(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = schema.required ?? [];
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const doc = property.description ? `${inner}/** ${property.description.replace(/\*\//g, "*\\/")} */\n` : "";
+    return `${doc}${inner}${name}${required.includes(name) ? "" : "?"}: ${tsType(property, inner)};`;
+  });
+  return lines.length > 0 ? `{\n${lines.join("\n")}\n${indent}}` : "Record<string, never>";
+}
+
+/** Source of src/client.ts for the JSON operations of an OpenAPI document. */
+export function generateClientSource(doc: OpenApiDocument): string {
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const [path, operations] of Object.entries(doc.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      if (!(op.responses["200"] as { content: Record<string, unknown> }).content["application/json"]) continue;
+
+      const schema: JsonSchema | null = op.requestBody
+        ? op.requestBody.content["application/json"].schema
+        : op.parameters
+          ? {
+              type: "object",
+              properties: Object.fromEntries(op.parameters.map((p) => [p.name, { ...p.schema, description: p.description }])),
+              required: op.parameters.filter((p) => p.required).map((p) => p.name),
+            }
+          : null;
+
+      let signature = "";
+      let argument = "";
+      if (schema && Object.keys(schema.properties ?? {}).length > 0) {
+        const typeName = `${pascalCase(op.operationId)}${op.requestBody ? "Request" : "Query"}`;
+        types.push(`export interface ${typeName} ${tsObject(schema, "")}\n`);
+        const optional = (schema.required ?? []).length === 0;
+        signature = `params: ${typeName}${optional ? " = {}" : ""}`;
+        argument = ", params";
+      }
+      methods.push(
+        `  /** ${op.summary} (${method.toUpperCase()} ${path}) */\n` +
+        `  ${op.operationId}(${signature}): Promise<BridgeResponse> {\n` +
+        `    return this.request("${method.toUpperCase()}", "${path}"${argument});\n` +
+        `  }\n`,
+      );
+    }
+  }
+
+  return `// Comet Bridge HTTP client — generated from the OpenAPI document of the HTTP
+// bridge (${doc.info.title} ${doc.info.version}) by src/generate-client.ts.
+// Do not edit: change the route table in src/http-routes.ts and run
+// \`npm run generate:client\`.
+//
+//   const comet = new CometBridgeClient({ token: process.env.COMET_API_TOKEN });
+//   const { answer } = await comet.ask({ prompt: "What is new in AI?" });
+
+// ─── Types ───────────────────────────────────────────────────────
+
+/** A JSON response body: the tool's structured result. */
+export type BridgeResponse = Record<string, any>;
+
+export interface CometBridgeClientOptions {
+  /** Base URL of the bridge (default: ${doc.servers[0]?.url}). */
+  baseUrl?: string;
+  /** Bearer token from ~/.comet-mcp/http-tokens.json. */
+  token?: string;
+  /** fetch implementation (default: the global fetch). */
+  fetch?: typeof fetch;
+}
+
+${types.join("\n")}
+// ─── Client ──────────────────────────────────────────────────────
+
+/** A response with a status other than 2xx; message is the server's error. */
+export class CometBridgeError extends Error {
+  constructor(readonly status: number, readonly body: BridgeResponse) {
+    super(typeof body.error === "string" ? body.error : \`HTTP \${status}\`);
+    this.name = "CometBridgeError";
+  }
+}
+
+export class CometBridgeClient {
+  private readonly baseUrl: string;
+  private readonly token?: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: CometBridgeClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? ${JSON.stringify(doc.servers[0]?.url ?? "")};
+    this.token = options.token;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  private async request(method: "GET" | "POST", path: string, params: object = {}): Promise<BridgeResponse> {
+    const url = new URL(path, this.baseUrl);
+    const headers: Record<string, string> = {};
+    if (this.token) headers.Authorization = \`Bearer \${this.token}\`;
+    let body: string | undefined;
+    if (method === "GET") {
+      for (const [name, value] of Object.entries(params)) {
+        if (value !== undefined) url.searchParams.set(name, String(value));
+      }
+    } else {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(params);
+    }
+
+    const res = await this.fetchImpl(url, { method, headers, body });
+    const data = (await res.json()) as BridgeResponse;
+    if (!res.ok) throw new CometBridgeError(res.status, data);
+    return data;
+  }
+
+${methods.join("\n")}}
+`;
+}
@@ -10,35 +10,27 @@ import type {
   DelegateEnrichmentResponse,
   TemplateSuggestion,
   TaskTemplate,
+  TaskTemplateStep,
+  StepCondition,
 } from "./types.js";
-import { ToolRouter } from "./tool-router.js";
-import { TaskQueue } from "./task-queue.js";
-import { TaskTemplateRegistry, extractParamsForTemplate } from "./task-templates.js";
+import { SERVER_NAME_TO_ALIAS } from "./types.js";
+import { ToolRouter, type ToolMetrics } from "./tool-router.js";
+import { TaskQueue, GLOBAL_KEY } from "./task-queue.js";
+import {
+  TaskTemplateRegistry,
+  extractParamsForTemplate,
+  applyParamTemplate,
+} from "./task-templates.js";
+import { resolveStepExpressions, readStepValue, testCondition } from "./step-expressions.js";
 import { HealthChecker } from "./health.js";
 import { MonitorProxy } from "./monitor-proxy.js";
 import { DormancyManager } from "./dormancy.js";
+import type { CometEventBus } from "./event-bus.js";
 
 const DEFAULT_TIMEOUT_MS = 60_000;
 const TAB_GROUP_TOOLS = new Set(["comet_tab_groups", "comet_group_tabs", "comet_ungroup_tabs"]);
-
-class AsyncMutex {
-  private locked = false;
-  private waiters: (() => void)[] = [];
-
-  async acquire(): Promise<void> {
-    if (!this.locked) {
-      this.locked = true;
-      return;
-    }
-    await new Promise<void>((resolve) => this.waiters.push(resolve));
-  }
-
-  release(): void {
-    const next = this.waiters.shift();
-    if (next) next();
-    else this.locked = false;
-  }
-}
+// comet-mcp tools that take a tab_id; a task's target tab is passed to them
+const TAB_SCOPED_TOOLS = new Set(["comet_ask", "comet_poll", "comet_stop"]);
 
 interface ICometOrchestrator {
   initialize(): Promise<void>;
@@ -54,6 +46,7 @@ interface ICometOrchestrator {
   ): Promise<TaskResult>;
   getMonitorState(section?: "windows" | "tabs" | "all"): Promise<MonitorState>;
   getTaskStatus(taskId: string): TaskDelegation | null;
+  listTasks(options?: { state?: TaskDelegation["state"]; limit?: number }): TaskDelegation[];
   cancelTask(taskId: string): boolean;
 }
 
@@ -64,7 +57,7 @@ export interface OrchestratorDeps {
   healthChecker: HealthChecker;
   monitorProxy: MonitorProxy;
   dormancyManager: DormancyManager;
-  localToolHandler: (name: string, params: Record<string, unknown>) => Promise<unknown>;
+  events?: CometEventBus;
 }
 
 function keywordOverlap(description: string, template: TaskTemplate): number {
@@ -86,42 +79,104 @@ function buildTaskSteps(
   template: TaskTemplate,
   extracted: Record<string, unknown>,
 ): TaskStep[] {
-  return template.steps.map((s) => {
-    const params = { ...s.paramTemplate };
-
-    switch (s.toolName) {
-      case "comet_ask":
-        if (extracted.prompt && !params.prompt) params.prompt = extracted.prompt;
-        break;
-      case "comet_navigate":
-        if (extracted.url && !params.url) params.url = extracted.url;
-        break;
-      case "comet_type":
-        if (extracted.query && !params.text) params.text = extracted.query;
-        if (extracted.promptCommand && !params.text) params.text = extracted.promptCommand;
-        break;
-      case "comet_get_content":
-        if (extracted.extractionTarget && !params.selector) {
-          params.extractionHint = extracted.extractionTarget;
-        }
-        break;
-      case "comet_find_elements":
-        if (extracted.target && !params.selector) params.selector = extracted.target;
-        break;
-      case "comet_click":
-        if (extracted.target && !params.selector) params.selector = extracted.target;
-        break;
-    }
+  return template.steps.map((s) => buildTaskStep(s, extracted));
+}
 
-    return {
-      toolName: s.toolName,
-      server: s.server,
-      params,
-      result: null,
-      status: "pending" as const,
-      duration_ms: null,
-    };
+function buildTaskStep(s: TaskTemplateStep, extracted: Record<string, unknown>): TaskStep {
+  const params = applyParamTemplate(s.paramTemplate, extracted);
+
+  switch (s.toolName) {
+    case "comet_ask":
+      if (extracted.prompt && !params.prompt) params.prompt = extracted.prompt;
+      break;
+    case "comet_navigate":
+      if (extracted.url && !params.url) params.url = extracted.url;
+      break;
+    case "comet_type":
+      if (extracted.query && !params.text) params.text = extracted.query;
+      if (extracted.promptCommand && !params.text) params.text = extracted.promptCommand;
+      break;
+    case "comet_get_content":
+      if (extracted.extractionTarget && !params.selector) {
+        params.extractionHint = extracted.extractionTarget;
+      }
+      break;
+    case "comet_find_elements":
+      if (extracted.target && !params.selector) params.selector = extracted.target;
+      break;
+    case "comet_click":
+      if (extracted.target && !params.selector) params.selector = extracted.target;
+      break;
+  }
+
+  return {
+    toolName: s.toolName,
+    server: s.server,
+    params,
+    result: null,
+    status: "pending" as const,
+    duration_ms: null,
+    ...(s.optional ? { optional: true } : {}),
+    ...(s.retry ? { retry: s.retry } : {}),
+    ...(s.when ? { when: s.when } : {}),
+    ...(s.timeout_ms ? { timeout_ms: s.timeout_ms } : {}),
+    ...(s.onFailure?.length ? { onFailure: s.onFailure.map((f) => buildTaskStep(f, extracted)) } : {}),
+  };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** A step stopped because the task ran out of time, as opposed to a step that failed. */
+class DeadlineError extends Error {}
+
+/**
+ * Reject with `error` if `run` has not settled within `ms`, aborting the
+ * signal it was given so the call stops too (and frees its tab).
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number, error: () => Error): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const reason = error();
+      controller.abort(reason);
+      reject(reason);
+    }, ms);
   });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+/** `deadline` is set when the task's deadline stopped the step, so it counts as a timeout. */
+type StepOutcome =
+  | { status: "completed" | "skipped" }
+  | { status: "failed"; error: string; deadline?: boolean };
+
+/** cancelTask() flips state from outside while a step is awaited. */
+function wasCancelled(task: TaskDelegation): boolean {
+  return task.state === "cancelled";
+}
+
+function cancelledResult(
+  task: TaskDelegation,
+  toolsInvoked: string[],
+  stepsCompleted: number,
+  payload: unknown,
+): TaskResult {
+  return {
+    status: "cancelled",
+    payload,
+    duration_ms: task.startedAt ? Date.now() - task.startedAt : 0,
+    tools_invoked: toolsInvoked,
+    steps_completed: stepsCompleted,
+    steps_total: task.steps.length,
+    error: { code: "CANCELLED", message: "Task was cancelled", recoverable: false },
+  };
 }
 
 function failureResult(code: string, message: string, payload?: unknown): TaskResult {
@@ -143,10 +198,13 @@ export class CometOrchestrator implements ICometOrchestrator {
   private healthChecker: HealthChecker;
   private monitorProxy: MonitorProxy;
   private dormancyManager: DormancyManager;
-  private localToolHandler: OrchestratorDeps["localToolHandler"];
+  private events: CometEventBus | null;
 
   private ready = false;
-  private cometMutex = new AsyncMutex();
+  /** One drain loop per tab key; tasks on the same tab run strictly in order. */
+  private workers = new Map<string, Promise<void>>();
+  /** Resolvers for synchronous delegate() callers awaiting a queued task. */
+  private resultWaiters = new Map<string, (result: TaskResult) => void>();
 
   constructor(deps: OrchestratorDeps) {
     this.toolRouter = deps.toolRouter;
@@ -155,12 +213,14 @@ export class CometOrchestrator implements ICometOrchestrator {
     this.healthChecker = deps.healthChecker;
     this.monitorProxy = deps.monitorProxy;
     this.dormancyManager = deps.dormancyManager;
-    this.localToolHandler = deps.localToolHandler;
+    this.events = deps.events ?? null;
   }
 
   async initialize(): Promise<void> {
     await this.toolRouter.initialize();
     this.ready = true;
+    // Pick up tasks re-enqueued from the task store
+    for (const key of this.taskQueue.pendingTabKeys()) this.startWorker(key);
   }
 
   health(force?: boolean): Promise<HealthCheckResult> {
@@ -198,6 +258,7 @@ export class CometOrchestrator implements ICometOrchestrator {
     const task: TaskDelegation = {
       id: randomUUID(),
       description,
+      templateName: template.name,
       state: "pending",
       targetTabId: options?.targetTab ?? null,
       steps: buildTaskSteps(template, extracted),
@@ -207,9 +268,12 @@ export class CometOrchestrator implements ICometOrchestrator {
       completedAt: null,
     };
 
+    const tabKey = task.targetTabId ?? GLOBAL_KEY;
     this.taskQueue.enqueue(task);
+    this.recordTask(task);
 
     if (options?.async) {
+      this.startWorker(tabKey);
       return {
         status: "pending" as TaskResult["status"],
         payload: { taskId: task.id },
@@ -220,7 +284,9 @@ export class CometOrchestrator implements ICometOrchestrator {
       };
     }
 
-    return this.executeTask(task, template);
+    const done = new Promise<TaskResult>((resolve) => this.resultWaiters.set(task.id, resolve));
+    this.startWorker(tabKey);
+    return done;
   }
 
   getMonitorState(section?: "windows" | "tabs" | "all"): Promise<MonitorState> {
@@ -231,12 +297,99 @@ export class CometOrchestrator implements ICometOrchestrator {
     return this.taskQueue.getTask(taskId);
   }
 
+  listTasks(options?: { state?: TaskDelegation["state"]; limit?: number }): TaskDelegation[] {
+    let tasks = this.taskQueue.listTasks();
+    if (options?.state) tasks = tasks.filter((t) => t.state === options.state);
+    // Newest first
+    tasks = tasks.reverse();
+    return options?.limit ? tasks.slice(0, options.limit) : tasks;
+  }
+
+  getToolMetrics(): Record<string, ToolMetrics> {
+    return this.toolRouter.getMetrics();
+  }
+
   cancelTask(taskId: string): boolean {
-    return this.taskQueue.cancel(taskId);
+    const task = this.taskQueue.getTask(taskId);
+    const wasPending = task?.state === "pending";
+    const cancelled = this.taskQueue.cancel(taskId);
+    if (!cancelled || !task) return false;
+
+    // A running task stops at its next step boundary (see runSteps); a queued
+    // one is never dequeued, so settle it here.
+    if (wasPending) {
+      task.result = cancelledResult(task, [], 0, null);
+      this.settle(task, task.result);
+    }
+    this.recordTask(task);
+    return true;
   }
 
   // ── Private ──────────────────────────────────────────────────────
 
+  /** Start draining a tab's queue unless a worker is already doing so. */
+  private startWorker(tabKey: string): void {
+    if (this.workers.has(tabKey)) return;
+    const worker = this.drainQueue(tabKey).finally(() => {
+      this.workers.delete(tabKey);
+      // A task may have been enqueued after the last dequeue came back empty
+      if (this.taskQueue.getQueueDepth(tabKey) > 0) this.startWorker(tabKey);
+    });
+    this.workers.set(tabKey, worker);
+  }
+
+  private async drainQueue(tabKey: string): Promise<void> {
+    let task: TaskDelegation | null;
+    while ((task = this.taskQueue.dequeue(tabKey))) {
+      const result = await this.runQueuedTask(task, tabKey);
+      this.settle(task, result);
+    }
+  }
+
+  private async runQueuedTask(task: TaskDelegation, tabKey: string): Promise<TaskResult> {
+    const template = task.templateName ? this.templateRegistry.get(task.templateName) : null;
+    try {
+      if (!template) {
+        throw new Error(`Template "${task.templateName ?? "(none)"}" not found`);
+      }
+      return await this.executeTask(task, template);
+    } catch (err) {
+      task.state = "failed";
+      task.completedAt = Date.now();
+      task.result = failureResult(
+        template ? "INTERNAL_ERROR" : "INVALID_TEMPLATE",
+        err instanceof Error ? err.message : String(err),
+      );
+      this.taskQueue.completeActive(tabKey);
+      this.recordTask(task);
+      return task.result;
+    }
+  }
+
+  private settle(task: TaskDelegation, result: TaskResult): void {
+    const resolve = this.resultWaiters.get(task.id);
+    if (!resolve) return;
+    this.resultWaiters.delete(task.id);
+    resolve(result);
+  }
+
+  /** Persist the task's current state and announce it on the event bus. */
+  private recordTask(task: TaskDelegation, stepIndex?: number): void {
+    this.taskQueue.persist(task);
+    if (!this.events) return;
+    const step = stepIndex !== undefined ? task.steps[stepIndex] : undefined;
+    this.events.publish({
+      type: "task",
+      taskId: task.id,
+      state: task.state,
+      currentStepIndex: task.currentStepIndex,
+      steps_total: task.steps.length,
+      ...(step && stepIndex !== undefined
+        ? { step: { index: stepIndex, toolName: step.toolName, status: step.status } }
+        : {}),
+    });
+  }
+
   private async buildEnrichmentFallback(description: string): Promise<TaskResult> {
     const templates = this.templateRegistry.getAll();
     const available_templates: TemplateSuggestion[] = templates.map((t) => ({
@@ -289,101 +442,101 @@ export class CometOrchestrator implements ICometOrchestrator {
   }
 
   private async executeTask(task: TaskDelegation, template: TaskTemplate): Promise<TaskResult> {
+    const result = await this.runSteps(task, template);
+    task.result = result;
+    this.taskQueue.persist(task);
+    return result;
+  }
+
+  private async runSteps(task: TaskDelegation, template: TaskTemplate): Promise<TaskResult> {
     task.state = "running";
     task.startedAt = Date.now();
+    this.recordTask(task);
 
     const toolsInvoked: string[] = [];
     let lastResult: unknown = null;
     const deadline = task.startedAt + task.timeout_ms;
-    const tabKey = task.targetTabId ?? "__global__";
+    const tabKey = task.targetTabId ?? GLOBAL_KEY;
+
+    const timedOut = (i: number): TaskResult => {
+      task.state = "failed";
+      task.completedAt = Date.now();
+      this.taskQueue.completeActive(tabKey);
+      this.recordTask(task);
+      return {
+        status: "partial",
+        payload: lastResult,
+        duration_ms: Date.now() - task.startedAt!,
+        tools_invoked: toolsInvoked,
+        steps_completed: i,
+        steps_total: task.steps.length,
+        error: {
+          code: "TIMEOUT",
+          message: `Task timed out after ${task.timeout_ms}ms`,
+          recoverable: false,
+          failedStep: i,
+        },
+      };
+    };
 
     for (let i = 0; i < task.steps.length; i++) {
-      if (Date.now() >= deadline) {
-        task.state = "failed";
-        task.completedAt = Date.now();
-        this.taskQueue.completeActive(tabKey);
-        return {
-          status: "partial",
-          payload: lastResult,
-          duration_ms: Date.now() - task.startedAt,
-          tools_invoked: toolsInvoked,
-          steps_completed: i,
-          steps_total: task.steps.length,
-          error: {
-            code: "TIMEOUT",
-            message: `Task timed out after ${task.timeout_ms}ms`,
-            recoverable: false,
-            failedStep: i,
-          },
-        };
+      if (wasCancelled(task)) {
+        return cancelledResult(task, toolsInvoked, i, lastResult);
       }
 
+      if (Date.now() >= deadline) return timedOut(i);
+
       const step = task.steps[i];
       task.currentStepIndex = i;
       step.status = "running";
-      const stepStart = Date.now();
+      this.recordTask(task, i);
 
-      try {
-        if (TAB_GROUP_TOOLS.has(step.toolName)) {
-          const alive = await this.dormancyManager.isExtensionAlive();
-          if (!alive) await this.dormancyManager.wake();
-        }
-        let result: unknown;
-
-        if (step.server === "comet-mcp") {
-          await this.cometMutex.acquire();
-          try {
-            result = await this.localToolHandler(step.toolName, step.params);
-          } finally {
-            this.cometMutex.release();
-          }
-        } else {
-          const toolResult = await this.toolRouter.invoke(step.toolName, step.params);
-          if (!toolResult.success) {
-            throw new Error(toolResult.error ?? `Tool ${step.toolName} failed`);
-          }
-          result = toolResult.data;
-        }
+      const outcome = await this.runStep(task, step, i, deadline);
+      if (step.attempts) toolsInvoked.push(step.toolName);
 
-        step.duration_ms = Date.now() - stepStart;
-        step.result = result;
-        step.status = "completed";
-        lastResult = result;
-        toolsInvoked.push(step.toolName);
-      } catch (err) {
-        step.status = "failed";
-        step.duration_ms = Date.now() - stepStart;
-        step.result = err instanceof Error ? err.message : String(err);
-
-        if (this.isOptionalStep(template, i)) {
-          step.status = "skipped";
-          toolsInvoked.push(step.toolName);
-          continue;
-        }
+      if (outcome.status !== "failed") {
+        this.recordTask(task, i);
+        if (outcome.status === "completed") lastResult = step.result;
+        continue;
+      }
+
+      // Timer precision must not decide this, so the outcome says it, not the clock
+      if (outcome.deadline) return timedOut(i);
 
-        task.state = "failed";
-        task.completedAt = Date.now();
-        this.taskQueue.completeActive(tabKey);
-        return {
-          status: "failure",
-          payload: lastResult,
-          duration_ms: Date.now() - task.startedAt,
-          tools_invoked: toolsInvoked,
-          steps_completed: i,
-          steps_total: task.steps.length,
-          error: {
-            code: "STEP_FAILED",
-            message: err instanceof Error ? err.message : String(err),
-            recoverable: false,
-            failedStep: i,
-          },
-        };
+      if (step.optional || this.isOptionalStep(template, i)) {
+        step.status = "skipped";
+        this.recordTask(task, i);
+        continue;
       }
+
+      task.state = "failed";
+      task.completedAt = Date.now();
+      this.taskQueue.completeActive(tabKey);
+      this.recordTask(task, i);
+      return {
+        status: "failure",
+        payload: lastResult,
+        duration_ms: Date.now() - task.startedAt,
+        tools_invoked: toolsInvoked,
+        steps_completed: i,
+        steps_total: task.steps.length,
+        error: {
+          code: "STEP_FAILED",
+          message: outcome.error,
+          recoverable: false,
+          failedStep: i,
+        },
+      };
+    }
+
+    if (wasCancelled(task)) {
+      return cancelledResult(task, toolsInvoked, task.steps.length, lastResult);
     }
 
     task.state = "completed";
     task.completedAt = Date.now();
     this.taskQueue.completeActive(tabKey);
+    this.recordTask(task);
 
     return {
       status: "success",
@@ -395,6 +548,128 @@ export class CometOrchestrator implements ICometOrchestrator {
     };
   }
 
+  /**
+   * Run one step under its policy: the `when` gate, retries with backoff, the
+   * per-step timeout and onFailure fallbacks. Fallback steps run with the
+   * same index, so they see the same earlier steps.
+   */
+  private async runStep(
+    task: TaskDelegation,
+    step: TaskStep,
+    index: number,
+    deadline: number,
+  ): Promise<StepOutcome> {
+    const stepStart = Date.now();
+    step.status = "running";
+    try {
+      if (step.when && !(await this.conditionHolds(step.when, task.steps, index))) {
+        step.status = "skipped";
+        return { status: "skipped" };
+      }
+
+      const attempts = 1 + (step.retry?.count ?? 0);
+      let failure = "";
+      let pastDeadline = false;
+      for (let attempt = 1; attempt <= attempts && !pastDeadline; attempt++) {
+        if (attempt > 1) {
+          const delay = (step.retry?.backoff_ms ?? 0) * 2 ** (attempt - 2);
+          if (wasCancelled(task) || Date.now() + delay >= deadline) break;
+          await sleep(delay);
+        }
+        step.attempts = attempt;
+        try {
+          step.result = await this.invokeStep(task, step, index, deadline);
+          step.status = "completed";
+          return { status: "completed" };
+        } catch (err) {
+          failure = errorMessage(err);
+          pastDeadline = err instanceof DeadlineError;
+        }
+      }
+
+      if (step.onFailure?.length && !wasCancelled(task) && !pastDeadline) {
+        step.error = failure;
+        let recovered: TaskStep | null = null;
+        for (const fallback of step.onFailure) {
+          const fallbackOutcome = await this.runStep(task, fallback, index, deadline);
+          if (fallbackOutcome.status === "failed") {
+            failure = `${failure}; onFailure ${fallback.toolName} failed: ${fallbackOutcome.error}`;
+            pastDeadline = fallbackOutcome.deadline === true;
+            recovered = null;
+            break;
+          }
+          if (fallbackOutcome.status === "completed") recovered = fallback;
+        }
+        if (recovered) {
+          // Later steps see the fallback's output in place of this step's
+          step.result = recovered.result;
+          step.status = "completed";
+          return { status: "completed" };
+        }
+      }
+
+      step.status = "failed";
+      step.result = failure;
+      return { status: "failed", error: failure, ...(pastDeadline ? { deadline: true } : {}) };
+    } finally {
+      step.duration_ms = Date.now() - stepStart;
+    }
+  }
+
+  private async invokeStep(task: TaskDelegation, step: TaskStep, index: number, deadline: number): Promise<unknown> {
+    if (TAB_GROUP_TOOLS.has(step.toolName)) {
+      const alive = await this.dormancyManager.isExtensionAlive();
+      if (!alive) await this.dormancyManager.wake();
+    }
+    // Record the resolved params so the task history shows what actually ran
+    step.params = resolveStepExpressions(step.params, task.steps, index);
+    if (
+      task.targetTabId &&
+      step.server === "comet-mcp" &&
+      TAB_SCOPED_TOOLS.has(step.toolName) &&
+      step.params.tab_id === undefined
+    ) {
+      step.params = { ...step.params, tab_id: task.targetTabId };
+    }
+
+    // A step never outlives the task: its own timeout_ms, capped by what is left of the task's
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new DeadlineError(`Task timed out after ${task.timeout_ms}ms`);
+    const call = (signal: AbortSignal) =>
+      this.toolRouter.invoke(`${SERVER_NAME_TO_ALIAS[step.server]}:${step.toolName}`, step.params, signal);
+    const toolResult = step.timeout_ms && step.timeout_ms <= remaining
+      ? await withTimeout(call, step.timeout_ms, () => new Error(`${step.toolName} timed out after ${step.timeout_ms}ms`))
+      : await withTimeout(
+          call,
+          remaining,
+          () => new DeadlineError(`${step.toolName} ran past the task timeout of ${task.timeout_ms}ms`),
+        );
+    if (!toolResult.success) {
+      throw new Error(toolResult.error ?? `Tool ${step.toolName} failed`);
+    }
+    return toolResult.data;
+  }
+
+  private async conditionHolds(
+    when: StepCondition | StepCondition[],
+    steps: TaskStep[],
+    index: number,
+  ): Promise<boolean> {
+    for (const condition of Array.isArray(when) ? when : [when]) {
+      let value: unknown;
+      if (condition.health) {
+        const health = this.healthChecker.getCached() ?? (await this.healthChecker.check());
+        value = condition.health === "overall"
+          ? health.overall
+          : health.components[condition.health]?.status ?? "unknown";
+      } else {
+        value = readStepValue(steps, condition.step ?? index - 1, condition.path ?? "status", index);
+      }
+      if (!testCondition(condition, value)) return false;
+    }
+    return true;
+  }
+
   private isOptionalStep(template: TaskTemplate, stepIndex: number): boolean {
     return template.steps[stepIndex]?.optional === true;
   }
@@ -1,36 +1,26 @@
 import { spawn, ChildProcess } from "child_process";
-import { homedir } from "os";
 import { existsSync } from "fs";
-import { join } from "path";
 import { createInterface, Interface as ReadlineInterface } from "readline";
 import type { ToolDescriptor, ToolResult, ServerName } from "./types.js";
+import { cometConfig } from "./config.js";
 
 // ─── Configuration ───────────────────────────────────────────────
 //
-// COMET_BROWSER_SERVER_PATH — absolute path to the Python MCP server entry point.
+// pythonServerPath — absolute path to the Python MCP server entry point
+//   (COMET_BROWSER_SERVER_PATH, --python-server).
 //   Default: ~/Documents/repos/skills/comet-browser/mcp-server/server.py
 //
-// COMET_PYTHON_PATH — python executable to use.
+// pythonPath — python executable to use (COMET_PYTHON_PATH, --python).
 //   Default: python3
-
-const DEFAULT_SERVER_PATH = join(
-  homedir(),
-  "Documents",
-  "repos",
-  "skills",
-  "comet-browser",
-  "mcp-server",
-  "server.py",
-);
-
-const DEFAULT_PYTHON = "python3";
+//
+// Both are resolved by config.ts.
 
 function resolveServerPath(): string {
-  return process.env.COMET_BROWSER_SERVER_PATH || DEFAULT_SERVER_PATH;
+  return cometConfig().pythonServerPath;
 }
 
 function resolvePythonPath(): string {
-  return process.env.COMET_PYTHON_PATH || DEFAULT_PYTHON;
+  return cometConfig().pythonPath;
 }
 
 // ─── MCP JSON-RPC helpers ────────────────────────────────────────
@@ -82,7 +72,7 @@ export class PythonBridge {
       this._starting = false;
       throw new Error(
         `Python MCP server not found at: ${serverPath}\n` +
-        `Set COMET_BROWSER_SERVER_PATH to the correct path, or ensure the skills repo is cloned at ~/Documents/repos/skills/`,
+        `Set COMET_BROWSER_SERVER_PATH (or pythonServerPath in ~/.comet-mcp/config.json) to the correct path, or ensure the skills repo is cloned at ~/Documents/repos/skills/`,
       );
     }
 
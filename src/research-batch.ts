@@ -0,0 +1,322 @@
+// Research batch — fans a list of prompts out over parallel Perplexity tabs.
+//
+// Each prompt gets its own tab and its own CDP connection (a pooled
+// CdpSession), so a batch never moves cometClient's connection and all tabs
+// are polled at the same time. Prompts are submitted through Perplexity's
+// ?q= search URL instead of typing into the page.
+//
+// Tab groups: tabs first open on a per-batch marker URL, so their Chrome tab
+// IDs can be found with TabGroupsClient.listTabs() before they navigate away.
+
+import { cometClient } from "./cdp-client.js";
+import { cdpSessions, type CdpSession } from "./cdp-sessions.js";
+import { agentStatusScript, clampAnswer, type AgentStatusSnapshot } from "./comet-ai.js";
+import { siteProfile } from "./site-profile.js";
+import { tabGroupsClient, type TabGroupColor, type TabGroupsClient } from "./tab-groups.js";
+import type { ResearchAnswer } from "./types.js";
+
+// ---- Types ----
+
+/** A tab driven by the batch over its own connection. */
+export interface ResearchTab {
+  targetId: string;
+  navigate(url: string): Promise<void>;
+  /** Evaluate in the page and return the value; throws on page exceptions. */
+  evaluate(expression: string): Promise<unknown>;
+  /** How long the tab's network has been quiet, when tracked (see NetworkActivity). */
+  networkIdleMs?(): number | null;
+  /** Let go of the connection. The tab itself stays open. */
+  detach(): Promise<void>;
+}
+
+export interface ResearchBatchDeps {
+  openTab: (url: string) => Promise<ResearchTab>;
+  closeTab: (targetId: string) => Promise<boolean>;
+  tabGroups?: Pick<TabGroupsClient, "listTabs" | "createGroup">;
+}
+
+export interface ResearchBatchOptions {
+  prompts: string[];
+  /** Overall wait for answers, in ms (default 120000). */
+  timeout_ms?: number;
+  poll_interval_ms?: number;
+  /** Collect the batch's tabs in a new tab group. */
+  group?: { title?: string; color?: TabGroupColor };
+  /** Close the tabs when the batch returns (default false). */
+  closeTabs?: boolean;
+  /** Called as each prompt settles, in completion order. */
+  onSettled?: (item: ResearchBatchItem, settled: number, total: number) => void | Promise<void>;
+}
+
+export interface ResearchBatchItem {
+  index: number;
+  prompt: string;
+  status: "completed" | "failed" | "timeout";
+  targetId: string | null;
+  /** Thread URL once completed, otherwise the submitted search URL. */
+  url: string | null;
+  answer: ResearchAnswer | null;
+  error?: string;
+  duration_ms: number;
+}
+
+export interface ResearchBatchResult {
+  status: "success" | "partial" | "failure";
+  completed: number;
+  total: number;
+  duration_ms: number;
+  group: { groupId: number; title: string } | { error: string } | null;
+  results: ResearchBatchItem[];
+}
+
+// ---- Constants ----
+
+export const MAX_BATCH_PROMPTS = 20;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const DEFAULT_GROUP_TITLE = "Research batch";
+const PERPLEXITY_SEARCH_URL = "https://www.perplexity.ai/search?q=";
+const TAB_GROUP_COLORS = ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"];
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Same normalization comet_ask applies: one line, no list bullets. */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/^[-*•]\s*/gm, "")
+    .replace(/\n+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function markerUrl(batchId: string, index: number): string {
+  return `data:text/html,comet-batch-${batchId}-${index}`;
+}
+
+/**
+ * Build batch options from tool arguments (shared by the MCP tool and the
+ * HTTP route). Throws on invalid input.
+ */
+export function researchBatchOptionsFrom(args: Record<string, unknown>): ResearchBatchOptions {
+  const prompts = args.prompts;
+  if (!Array.isArray(prompts) || prompts.length === 0 || prompts.some((p) => typeof p !== "string")) {
+    throw new Error("prompts must be a non-empty list of strings");
+  }
+  const color = args.group_color as string | undefined;
+  if (color !== undefined && !TAB_GROUP_COLORS.includes(color)) {
+    throw new Error(`group_color must be one of ${TAB_GROUP_COLORS.join(", ")}`);
+  }
+  const grouped = args.group === true || args.group_title !== undefined || color !== undefined;
+  return {
+    prompts: prompts as string[],
+    timeout_ms: (args.timeout as number) || undefined,
+    group: grouped
+      ? { title: args.group_title as string | undefined, color: color as TabGroupColor | undefined }
+      : undefined,
+    closeTabs: args.close_tabs === true,
+  };
+}
+
+// ---- Batch runner ----
+
+export class ResearchBatch {
+  private deps: ResearchBatchDeps;
+
+  constructor(deps: ResearchBatchDeps) {
+    this.deps = deps;
+  }
+
+  /**
+   * Open one tab per prompt, submit them all, and poll until every prompt has
+   * an answer or the timeout passes. Per-prompt failures are reported in the
+   * results; only invalid options throw.
+   */
+  async run(options: ResearchBatchOptions): Promise<ResearchBatchResult> {
+    const prompts = options.prompts.map(normalizePrompt);
+    if (prompts.length === 0) throw new Error("prompts must be a non-empty list");
+    if (prompts.some((p) => !p)) throw new Error("prompts cannot be empty");
+    if (prompts.length > MAX_BATCH_PROMPTS) {
+      throw new Error(`At most ${MAX_BATCH_PROMPTS} prompts per batch (got ${prompts.length})`);
+    }
+
+    const startMs = Date.now();
+    const timeoutMs = options.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+    const deadline = startMs + timeoutMs;
+    const pollMs = options.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS;
+    const batchId = `${startMs.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+    const items: ResearchBatchItem[] = prompts.map((prompt, index) => ({
+      index,
+      prompt,
+      status: "timeout",
+      targetId: null,
+      url: null,
+      answer: null,
+      duration_ms: 0,
+    }));
+    let settledCount = 0;
+    const settle = async (item: ResearchBatchItem, status: ResearchBatchItem["status"], error?: string) => {
+      item.status = status;
+      if (error !== undefined) item.error = error;
+      else delete item.error;
+      item.duration_ms = Date.now() - startMs;
+      settledCount++;
+      await options.onSettled?.(item, settledCount, items.length);
+    };
+
+    const tabs = new Map<number, ResearchTab>();
+    let group: ResearchBatchResult["group"] = null;
+    let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const opened = await Promise.allSettled(prompts.map((_, i) => this.deps.openTab(markerUrl(batchId, i))));
+      for (const [i, outcome] of opened.entries()) {
+        if (outcome.status === "fulfilled") {
+          tabs.set(i, outcome.value);
+          items[i].targetId = outcome.value.targetId;
+        } else {
+          await settle(items[i], "failed", `Could not open tab: ${errorMessage(outcome.reason)}`);
+        }
+      }
+
+      if (options.group && tabs.size > 0) {
+        group = await this.groupTabs(batchId, [...tabs.keys()], options.group);
+      }
+
+      const pending = new Set<number>();
+      await Promise.all(
+        [...tabs].map(async ([i, tab]) => {
+          const url = PERPLEXITY_SEARCH_URL + encodeURIComponent(prompts[i]);
+          try {
+            await tab.navigate(url);
+            items[i].url = url;
+            pending.add(i);
+          } catch (err) {
+            await settle(items[i], "failed", `Could not submit prompt: ${errorMessage(err)}`);
+          }
+        }),
+      );
+
+      // A page that stops responding must not hold the batch past its timeout
+      const expired = new Promise<never>((_, reject) => {
+        expiryTimer = setTimeout(
+          () => reject(new Error(`Page did not respond within ${timeoutMs}ms`)),
+          Math.max(0, deadline - Date.now()),
+        );
+      });
+      expired.catch(() => {});
+
+      while (pending.size > 0 && Date.now() < deadline) {
+        await sleep(Math.min(pollMs, deadline - Date.now()));
+        await Promise.all([...pending].map((i) => this.poll(tabs.get(i)!, items[i], pending, settle, expired)));
+      }
+      for (const i of pending) {
+        await settle(items[i], "timeout", items[i].error ?? `No answer within ${timeoutMs}ms`);
+      }
+    } finally {
+      clearTimeout(expiryTimer);
+      await Promise.all(
+        [...tabs.values()].map(async (tab) => {
+          await tab.detach().catch(() => {});
+          if (options.closeTabs) await this.deps.closeTab(tab.targetId).catch(() => false);
+        }),
+      );
+    }
+
+    const completed = items.filter((item) => item.status === "completed").length;
+    return {
+      status: completed === items.length ? "success" : completed > 0 ? "partial" : "failure",
+      completed,
+      total: items.length,
+      duration_ms: Date.now() - startMs,
+      group,
+      results: items,
+    };
+  }
+
+  private async poll(
+    tab: ResearchTab,
+    item: ResearchBatchItem,
+    pending: Set<number>,
+    settle: (item: ResearchBatchItem, status: ResearchBatchItem["status"]) => Promise<void>,
+    expired: Promise<never>,
+  ): Promise<void> {
+    try {
+      const script = agentStatusScript(siteProfile(), tab.networkIdleMs?.() ?? null);
+      const snapshot = clampAnswer((await Promise.race([tab.evaluate(script), expired])) as AgentStatusSnapshot);
+      delete item.error;
+      if (snapshot.status !== "completed" || !snapshot.answer) return;
+
+      item.answer = snapshot.answer;
+      const href = await Promise.race([tab.evaluate("window.location.href"), expired]).catch(() => null);
+      if (typeof href === "string") item.url = href;
+      pending.delete(item.index);
+      await settle(item, "completed");
+    } catch (err) {
+      // Evaluation fails while the search page is still loading; keep polling
+      item.error = errorMessage(err);
+    }
+  }
+
+  private async groupTabs(
+    batchId: string,
+    indexes: number[],
+    group: NonNullable<ResearchBatchOptions["group"]>,
+  ): Promise<ResearchBatchResult["group"]> {
+    if (!this.deps.tabGroups) return { error: "Tab groups are not available" };
+    try {
+      const markers = new Set(indexes.map((i) => markerUrl(batchId, i)));
+      const tabIds = (await this.deps.tabGroups.listTabs()).filter((t) => markers.has(t.url)).map((t) => t.id);
+      if (tabIds.length === 0) return { error: "Batch tabs not found in the tab list" };
+
+      const title = group.title ?? DEFAULT_GROUP_TITLE;
+      const { groupId } = await this.deps.tabGroups.createGroup({ tabIds, title, color: group.color });
+      return { groupId, title };
+    } catch (err) {
+      return { error: errorMessage(err) };
+    }
+  }
+}
+
+// ---- Browser-backed deps ----
+
+/** Tabs opened through cometClient, each driven through a pooled session. */
+export function browserResearchDeps(): ResearchBatchDeps {
+  return {
+    openTab: async (url) => {
+      const target = await cometClient.newTab(url);
+      let session: CdpSession;
+      try {
+        session = await cdpSessions.acquire(target.id);
+      } catch (err) {
+        await cometClient.closeTab(target.id);
+        throw err;
+      }
+      return {
+        targetId: target.id,
+        navigate: async (to) => {
+          await session.navigate(to, false);
+        },
+        evaluate: async (expression) => {
+          const { result, exceptionDetails } = await session.evaluate(expression);
+          if (exceptionDetails) {
+            throw new Error(exceptionDetails.exception?.description ?? exceptionDetails.text);
+          }
+          return result.value;
+        },
+        networkIdleMs: () => session.networkIdleMs(),
+        detach: async () => session.release(),
+      };
+    },
+    closeTab: (targetId) => cometClient.closeTab(targetId),
+    tabGroups: tabGroupsClient,
+  };
+}
+
+/** Singleton instance driving the live browser. */
+export const researchBatch = new ResearchBatch(browserResearchDeps());
@@ -0,0 +1,428 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import type { PageDriver } from "./cdp-sessions.js";
+
+// ─── Configuration ───────────────────────────────────────────────
+//
+// Every DOM selector and UI string the Perplexity page scripts depend on
+// lives in a site profile, so a Perplexity redesign (or a non-English UI)
+// is handled by editing a file instead of a release.
+//
+// COMET_SITE_PROFILE — path to a profile override (*.json, *.yaml, *.yml).
+//   Default: ~/.comet-mcp/site-profile.json
+//
+// An override only lists what changes; everything else comes from the
+// built-in profile. Arrays replace the built-in array. Strings are per
+// locale: `locale` picks the set used, falling back to "en" key by key.
+
+export const SITE_PROFILE_VERSION = 1;
+const DEFAULT_PROFILE_PATH = join(homedir(), ".comet-mcp", "site-profile.json");
+
+export type PerplexityMode = "search" | "research" | "labs" | "learn";
+export const PERPLEXITY_MODES: PerplexityMode[] = ["search", "research", "labs", "learn"];
+
+export interface SiteSelectors {
+  /** Prompt input candidates, first match wins. */
+  input: string[];
+  /** Hidden upload input behind the attach button. */
+  fileInput: string;
+  /** Submit button besides the labelled ones (see SiteStrings.submitLabels). */
+  submitButton: string;
+  /** Icon inside a button that marks it as the stop button. */
+  stopIcon: string;
+  /** Spinners shown while the agent works. */
+  loadingIndicator: string;
+  /** Elements marked busy inside the main content while an answer is generated. */
+  busy: string;
+  /** Controls shown below a finished answer (copy, share, rewrite). */
+  answerActions: string;
+  /** Any animation, used to tell that a prompt was submitted. */
+  activityIndicator: string;
+  /** Upload spinners in the composer. */
+  uploadProgress: string;
+  /** Blocks holding answer text (and some other prose). */
+  answerProse: string;
+  mainContent: string;
+  /** Page chrome never holding an answer. */
+  pageChrome: string;
+  /** Questions of a thread. */
+  threadQuestion: string;
+  /** Mode button, with {label} replaced by a SiteStrings.modes label. */
+  modeButton: string;
+  /** Button opening the mode menu when there are no mode buttons. */
+  modeDropdown: string;
+  menuItem: string;
+}
+
+export interface SiteStrings {
+  /** Body text meaning the agent is still busy. */
+  working: string[];
+  /** Beginnings of agent step lines. */
+  steps: string[];
+  /** Regex matching the "N steps completed" marker. */
+  stepsCompleted: string;
+  finished: string;
+  /** Regex matching "Reviewed N sources", with N as the first group. */
+  reviewedSources: string;
+  askFollowUp: string;
+  /** Navigation labels whose prose blocks are not answers. */
+  uiLabels: string[];
+  /** aria-label of the stop button. */
+  stopLabel: string;
+  cancelLabel: string;
+  /** aria-label fragments of submit buttons. */
+  submitLabels: string[];
+  /** Lowercase aria-label fragments of composer buttons that do not submit. */
+  nonSubmitLabels: string[];
+  modes: Record<PerplexityMode, string>;
+}
+
+export interface SiteProfile {
+  version: number;
+  /** Which Perplexity UI this profile matches. */
+  name: string;
+  locale: string;
+  selectors: SiteSelectors;
+  locales: Record<string, Partial<SiteStrings>> & { en: SiteStrings };
+}
+
+// ─── Built-in profile ────────────────────────────────────────────
+
+export const DEFAULT_SITE_PROFILE: SiteProfile = {
+  version: SITE_PROFILE_VERSION,
+  name: "perplexity-2025",
+  locale: "en",
+  selectors: {
+    input: [
+      '[contenteditable="true"]',
+      'textarea[placeholder*="Ask"]',
+      'textarea[placeholder*="Search"]',
+      "textarea",
+      'input[type="text"]',
+    ],
+    fileInput: 'input[type="file"]',
+    submitButton: 'button[type="submit"]',
+    stopIcon: "svg rect",
+    loadingIndicator: '[class*="animate-spin"], [class*="animate-pulse"]',
+    busy: '[aria-busy="true"]',
+    answerActions: "button",
+    activityIndicator: '[class*="animate"]',
+    uploadProgress: '[class*="animate-spin"], [role="progressbar"]',
+    answerProse: '[class*="prose"]',
+    mainContent: "main",
+    pageChrome: "nav, aside, header, footer, form",
+    threadQuestion: 'h1, [class*="query"]',
+    modeButton: 'button[aria-label="{label}"]',
+    modeDropdown: 'button[class*="gap"]',
+    menuItem: '[role="menuitem"], [role="option"], button',
+  },
+  locales: {
+    en: {
+      working: [
+        "Working", "Searching", "Reviewing sources", "Preparing to assist",
+        "Clicking", "Typing:", "Navigating to", "Reading", "Analyzing",
+      ],
+      steps: ["Preparing to assist", "Clicking", "Typing:", "Navigating", "Reading", "Searching", "Found"],
+      stepsCompleted: "\\d+ steps? completed",
+      finished: "Finished",
+      reviewedSources: "Reviewed (\\d+) sources?",
+      askFollowUp: "Ask a follow-up",
+      uiLabels: ["Library", "Discover", "Spaces", "Finance", "Account", "Upgrade", "Home", "Search", "Ask a follow-up"],
+      stopLabel: "Stop",
+      cancelLabel: "Cancel",
+      submitLabels: ["Submit", "Send", "Ask"],
+      nonSubmitLabels: ["search", "research", "labs", "learn", "attach", "voice"],
+      modes: { search: "Search", research: "Research", labs: "Labs", learn: "Learn" },
+    },
+  },
+};
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const REGEX_STRINGS = new Set(["stepsCompleted", "reviewedSources"]);
+
+/** Check an override value against the built-in value of the same key. */
+function checkValue(value: unknown, like: unknown, where: string): unknown {
+  if (Array.isArray(like)) {
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || !v)) {
+      fail(`${where} must be a list of non-empty strings`);
+    }
+    return [...value];
+  }
+  if (typeof like === "string") {
+    if (typeof value !== "string" || !value) fail(`${where} must be a non-empty string`);
+    return value;
+  }
+  return fail(`${where} is not configurable`);
+}
+
+function mergeSection<T extends object>(base: T, raw: unknown, where: string): T {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in base)) fail(`${where}.${key} is not a known setting`);
+    merged[key] = checkValue(value, (base as Record<string, unknown>)[key], `${where}.${key}`);
+  }
+  return merged as T;
+}
+
+function mergeStrings(base: Partial<SiteStrings>, raw: unknown, where: string): Partial<SiteStrings> {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  const en = DEFAULT_SITE_PROFILE.locales.en;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in en)) fail(`${where}.${key} is not a known string`);
+    if (key === "modes") {
+      merged.modes = mergeSection(base.modes ?? en.modes, value, `${where}.modes`);
+      continue;
+    }
+    merged[key] = checkValue(value, en[key as keyof SiteStrings], `${where}.${key}`);
+    if (REGEX_STRINGS.has(key)) {
+      try {
+        new RegExp(value as string, "i");
+      } catch (err) {
+        fail(`${where}.${key} is not a valid regex: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+  return merged as Partial<SiteStrings>;
+}
+
+/** Apply an override (already parsed from JSON/YAML) to a base profile. Throws on invalid input. */
+export function parseSiteProfile(raw: unknown, base: SiteProfile = DEFAULT_SITE_PROFILE): SiteProfile {
+  if (!isRecord(raw)) fail("Site profile must be an object");
+  if (raw.version !== SITE_PROFILE_VERSION) {
+    fail(`Site profile version must be ${SITE_PROFILE_VERSION} (got ${JSON.stringify(raw.version)})`);
+  }
+  for (const key of Object.keys(raw)) {
+    if (!["version", "name", "locale", "selectors", "locales"].includes(key)) {
+      fail(`Site profile has unknown key "${key}"`);
+    }
+  }
+
+  const profile: SiteProfile = structuredClone(base);
+  if (raw.name !== undefined) profile.name = checkValue(raw.name, "", "name") as string;
+  else profile.name = `${base.name} (customized)`;
+  if (raw.locale !== undefined) profile.locale = checkValue(raw.locale, "", "locale") as string;
+  if (raw.selectors !== undefined) profile.selectors = mergeSection(base.selectors, raw.selectors, "selectors");
+  if (raw.locales !== undefined) {
+    if (!isRecord(raw.locales)) fail("locales must be an object");
+    for (const [locale, strings] of Object.entries(raw.locales)) {
+      const merged = mergeStrings(profile.locales[locale] ?? {}, strings, `locales.${locale}`);
+      profile.locales[locale] = merged;
+    }
+  }
+  return profile;
+}
+
+/** Strings of the profile's locale, falling back to English key by key. */
+export function siteStrings(profile: SiteProfile = siteProfile()): SiteStrings {
+  const en = profile.locales.en;
+  const local = profile.locales[profile.locale] ?? {};
+  return { ...en, ...local, modes: { ...en.modes, ...local.modes } };
+}
+
+// ─── Active profile ──────────────────────────────────────────────
+
+export interface SiteProfileLoadResult {
+  profile: SiteProfile;
+  /** Override file in effect, or null for the built-in profile. */
+  source: string | null;
+  error?: string;
+}
+
+let active: SiteProfileLoadResult | null = null;
+
+export function siteProfilePath(): string {
+  return process.env.COMET_SITE_PROFILE || DEFAULT_PROFILE_PATH;
+}
+
+/**
+ * (Re)read the override file and make the result the active profile. A
+ * missing file means the built-in profile; an invalid one keeps the profile
+ * that was active and reports the error.
+ */
+export function loadSiteProfile(path: string = siteProfilePath()): SiteProfileLoadResult {
+  if (!existsSync(path)) {
+    active = { profile: DEFAULT_SITE_PROFILE, source: null };
+    return active;
+  }
+  try {
+    const text = readFileSync(path, "utf-8");
+    const raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+    active = { profile: parseSiteProfile(raw), source: path };
+    return active;
+  } catch (err) {
+    const previous = active ?? { profile: DEFAULT_SITE_PROFILE, source: null };
+    active = previous;
+    return { ...previous, error: `${path}: ${err instanceof Error ? err.message : err}` };
+  }
+}
+
+/** The active profile, loading it on first use. */
+export function siteProfile(): SiteProfile {
+  return (active ?? loadSiteProfile()).profile;
+}
+
+export function siteProfileSource(): string | null {
+  return (active ?? loadSiteProfile()).source;
+}
+
+/**
+ * Page-script prelude defining `P` — `P.sel` (selectors) and `P.text`
+ * (strings of the active locale) — for scripts built from the profile.
+ */
+export function pageProfileScript(profile: SiteProfile = siteProfile()): string {
+  return `const P = ${JSON.stringify({ sel: profile.selectors, text: siteStrings(profile) })};`;
+}
+
+// ─── Self-check ──────────────────────────────────────────────────
+
+/**
+ * When a check can be judged: "always" on any Perplexity page, "thread" on a
+ * page showing a thread, "working" while the agent runs. "optional" checks
+ * have fallbacks and are never reported broken.
+ */
+type CheckScope = "always" | "thread" | "working" | "optional";
+
+interface CheckSpec {
+  name: string;
+  kind: "selector" | "text" | "regex";
+  patterns: string[];
+  scope: CheckScope;
+}
+
+export interface SelfcheckItem {
+  name: string;
+  kind: CheckSpec["kind"];
+  patterns: string[];
+  /** Matches per pattern; null for a pattern the page rejected as invalid. */
+  matches: Array<number | null>;
+  status: "ok" | "broken" | "invalid" | "unverified";
+}
+
+export interface SelfcheckReport {
+  profile: string;
+  version: number;
+  locale: string;
+  source: string | null;
+  url: string;
+  onPerplexity: boolean;
+  onThread: boolean;
+  working: boolean;
+  ok: boolean;
+  broken: string[];
+  checks: SelfcheckItem[];
+}
+
+function checkSpecs(profile: SiteProfile): CheckSpec[] {
+  const sel = profile.selectors;
+  const text = siteStrings(profile);
+  const modeButtons = PERPLEXITY_MODES.map((m) => sel.modeButton.replace("{label}", text.modes[m]));
+  const labelled = (labels: string[]) => labels.map((l) => `button[aria-label*="${l}"]`);
+  return [
+    { name: "input", kind: "selector", patterns: sel.input, scope: "always" },
+    { name: "fileInput", kind: "selector", patterns: [sel.fileInput], scope: "always" },
+    { name: "mainContent", kind: "selector", patterns: [sel.mainContent], scope: "always" },
+    { name: "modeSelector", kind: "selector", patterns: [...modeButtons, sel.modeDropdown], scope: "always" },
+    { name: "submitButton", kind: "selector", patterns: [...labelled(text.submitLabels), sel.submitButton], scope: "optional" },
+    { name: "answerProse", kind: "selector", patterns: [sel.answerProse], scope: "thread" },
+    { name: "threadQuestion", kind: "selector", patterns: [sel.threadQuestion], scope: "thread" },
+    { name: "askFollowUp", kind: "text", patterns: [text.askFollowUp], scope: "thread" },
+    { name: "stopButton", kind: "selector", patterns: [...labelled([text.stopLabel]), `button ${sel.stopIcon}`], scope: "working" },
+    { name: "loadingIndicator", kind: "selector", patterns: [sel.loadingIndicator], scope: "optional" },
+    { name: "busy", kind: "selector", patterns: [sel.busy], scope: "optional" },
+    { name: "answerActions", kind: "selector", patterns: [sel.answerActions], scope: "thread" },
+    { name: "working", kind: "text", patterns: text.working, scope: "optional" },
+    { name: "steps", kind: "text", patterns: text.steps, scope: "optional" },
+    { name: "stepsCompleted", kind: "regex", patterns: [text.stepsCompleted], scope: "optional" },
+    { name: "reviewedSources", kind: "regex", patterns: [text.reviewedSources], scope: "optional" },
+    { name: "finished", kind: "text", patterns: [text.finished], scope: "optional" },
+  ];
+}
+
+function selfcheckScript(specs: CheckSpec[], profile: SiteProfile): string {
+  return `
+  (() => {
+    ${pageProfileScript(profile)}
+    const specs = ${JSON.stringify(specs.map(({ kind, patterns }) => ({ kind, patterns })))};
+    const body = document.body ? document.body.innerText : '';
+    const count = (kind, pattern) => {
+      try {
+        if (kind === 'selector') return document.querySelectorAll(pattern).length;
+        if (kind === 'regex') return (body.match(new RegExp(pattern, 'gi')) || []).length;
+        return body.split(pattern).length - 1;
+      } catch {
+        return null;
+      }
+    };
+    const has = (selector) => { try { return document.querySelector(selector) !== null; } catch { return false; } };
+    const stop = [...document.querySelectorAll('button')].some(btn =>
+      btn.offsetParent !== null && !btn.disabled &&
+      ((btn.getAttribute('aria-label') || '').toLowerCase().includes(P.text.stopLabel.toLowerCase()) ||
+       btn.querySelector(P.sel.stopIcon) !== null));
+    return {
+      url: location.href,
+      working: stop || has(P.sel.loadingIndicator),
+      matches: specs.map(s => s.patterns.map(p => count(s.kind, p))),
+    };
+  })()
+  `;
+}
+
+/**
+ * Check every selector and string of a profile against the page open in
+ * `page`. Checks that cannot be judged on the current page (e.g. the stop
+ * button while the agent is idle) come back "unverified".
+ */
+export async function runSelfcheck(page: PageDriver, profile: SiteProfile = siteProfile()): Promise<SelfcheckReport> {
+  const specs = checkSpecs(profile);
+  const { result, exceptionDetails } = await page.evaluate(selfcheckScript(specs, profile));
+  if (exceptionDetails) {
+    throw new Error(`Self-check script failed: ${exceptionDetails.exception?.description ?? exceptionDetails.text}`);
+  }
+  const raw = result.value as { url: string; working: boolean; matches: Array<Array<number | null>> };
+
+  const onPerplexity = /^https?:\/\/([\w-]+\.)*perplexity\.ai\//i.test(raw.url);
+  const onThread = onPerplexity && /\/search\/[^/?#]+/.test(new URL(raw.url).pathname);
+  const judged: Record<CheckScope, boolean> = {
+    always: onPerplexity,
+    thread: onThread,
+    working: raw.working,
+    optional: false,
+  };
+
+  const checks: SelfcheckItem[] = specs.map((spec, i) => {
+    const matches = raw.matches[i];
+    let status: SelfcheckItem["status"];
+    if (matches.some((m) => m === null)) status = "invalid";
+    else if (matches.some((m) => (m ?? 0) > 0)) status = "ok";
+    else status = judged[spec.scope] ? "broken" : "unverified";
+    return { name: spec.name, kind: spec.kind, patterns: spec.patterns, matches, status };
+  });
+  const broken = checks.filter((c) => c.status === "broken" || c.status === "invalid").map((c) => c.name);
+
+  return {
+    profile: profile.name,
+    version: profile.version,
+    locale: profile.locale,
+    source: active?.profile === profile ? active.source : null,
+    url: raw.url,
+    onPerplexity,
+    onThread,
+    working: raw.working,
+    ok: onPerplexity && broken.length === 0,
+    broken,
+    checks,
+  };
+}
@@ -0,0 +1,161 @@
+// Run-time step expressions for task templates.
+//
+// A step's paramTemplate may reference the output of an earlier step:
+//   {{steps[2].result.url}}          → field of step 2's result
+//   {{steps[1].result.items[0].id}}  → array indexing
+//   {{steps[0].status}}              → completed / failed / skipped
+// Expressions are resolved just before the step runs, against results
+// recorded on the task so far. `{{params.x}}` placeholders are filled earlier,
+// when the task is built (see applyParamTemplate in task-templates.ts).
+//
+// Step `when` conditions read the same values through readStepValue().
+
+import type { StepCondition, TaskStep } from "./types.js";
+
+const STEP_EXPR_SOURCE =
+  "\\{\\{\\s*steps\\[(\\d+)\\]\\.(result|status)((?:\\.[A-Za-z_$][\\w$]*|\\[\\d+\\])*)\\s*\\}\\}";
+const STEP_EXPR_RE = new RegExp(STEP_EXPR_SOURCE, "g");
+const WHOLE_STEP_EXPR_RE = new RegExp(`^${STEP_EXPR_SOURCE}$`);
+// Anything that still looks like a step reference after substitution is malformed
+const LEFTOVER_STEP_EXPR_RE = /\{\{\s*steps\b/;
+const PATH_SEGMENT_RE = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]/g;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reduce a recorded step result to the value expressions navigate. MCP tool
+ * responses are unwrapped: structuredContent wins, then a single text block
+ * (parsed as JSON when it is JSON). Other values pass through unchanged.
+ */
+export function unwrapStepResult(result: unknown): unknown {
+  if (!isRecord(result)) return result;
+  if (isRecord(result.structuredContent)) return result.structuredContent;
+  if (!Array.isArray(result.content)) return result;
+
+  const texts = result.content
+    .filter((c): c is { type: "text"; text: string } => isRecord(c) && c.type === "text" && typeof c.text === "string")
+    .map((c) => c.text);
+  if (texts.length === 0) return result;
+  if (texts.length > 1) return texts.join("\n");
+  try {
+    return JSON.parse(texts[0]);
+  } catch {
+    return texts[0];
+  }
+}
+
+function walkPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const [, key, index] of path.matchAll(PATH_SEGMENT_RE)) {
+    if (current === null || current === undefined) return undefined;
+    current = key !== undefined
+      ? (current as Record<string, unknown>)[key]
+      : (current as unknown[])[Number(index)];
+  }
+  return current;
+}
+
+function lookup(
+  steps: TaskStep[],
+  currentIndex: number,
+  expression: string,
+  index: number,
+  field: "result" | "status",
+  path: string,
+): unknown {
+  if (index >= currentIndex) {
+    throw new Error(`${expression} refers to a step that has not run yet (current step ${currentIndex})`);
+  }
+  const step = steps[index];
+  if (field === "status") return step.status;
+
+  // A failed step's result is its error message, not output worth piping
+  if (step.status !== "completed") {
+    throw new Error(`${expression} did not resolve: step ${index} (${step.toolName}) is ${step.status}`);
+  }
+  const value = walkPath(unwrapStepResult(step.result), path);
+  if (value === undefined) {
+    throw new Error(`${expression} did not resolve: no such field in step ${index} (${step.toolName}) result`);
+  }
+  return value;
+}
+
+/**
+ * Resolve `{{steps[N]...}}` expressions in a step's params. A value that is
+ * exactly one expression keeps the referenced value's type; expressions inside
+ * longer strings are interpolated (objects as JSON). Throws when a reference
+ * points at a later step, does not resolve, or is malformed.
+ */
+export function resolveStepExpressions(
+  params: Record<string, unknown>,
+  steps: TaskStep[],
+  currentIndex: number,
+): Record<string, unknown> {
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = value.match(WHOLE_STEP_EXPR_RE);
+      if (whole) {
+        return lookup(steps, currentIndex, value, Number(whole[1]), whole[2] as "result" | "status", whole[3]);
+      }
+      const replaced = value.replace(STEP_EXPR_RE, (expr, index: string, field, path: string) => {
+        const v = lookup(steps, currentIndex, expr, Number(index), field, path);
+        return typeof v === "string" ? v : JSON.stringify(v);
+      });
+      if (LEFTOVER_STEP_EXPR_RE.test(replaced)) {
+        throw new Error(`Malformed step expression in "${value}"`);
+      }
+      return replaced;
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (isRecord(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolve(v)]));
+    }
+    return value;
+  };
+
+  return resolve(params) as Record<string, unknown>;
+}
+
+/** Indexes of the steps referenced anywhere in a paramTemplate (for load-time checks). */
+export function findStepReferences(params: Record<string, unknown>): number[] {
+  return [...JSON.stringify(params).matchAll(STEP_EXPR_RE)].map((m) => Number(m[1]));
+}
+
+/**
+ * Read an earlier step's status or result for a `when` condition. Unlike
+ * expressions this never throws: results of steps that did not complete,
+ * missing fields and later steps all read as undefined.
+ */
+export function readStepValue(
+  steps: TaskStep[],
+  index: number,
+  path: string,
+  currentIndex: number,
+): unknown {
+  const step = index < currentIndex ? steps[index] : undefined;
+  if (!step) return undefined;
+  if (path === "status") return step.status;
+  if (path !== "result" && !path.startsWith("result.") && !path.startsWith("result[")) return undefined;
+  if (step.status !== "completed") return undefined;
+  return walkPath(unwrapStepResult(step.result), path.slice("result".length));
+}
+
+/** Apply a condition's test to its operand value. No test means "truthy". */
+export function testCondition(condition: StepCondition, value: unknown): boolean {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  if (condition.exists !== undefined) return (value !== undefined && value !== null) === condition.exists;
+  if ("equals" in condition) return same(value, condition.equals);
+  if ("notEquals" in condition) return !same(value, condition.notEquals);
+  if (condition.in) return condition.in.some((candidate) => same(value, candidate));
+  if (condition.contains !== undefined) {
+    const haystack = typeof value === "string" ? value : JSON.stringify(value ?? "");
+    return haystack.toLowerCase().includes(condition.contains.toLowerCase());
+  }
+  if (condition.matches !== undefined) {
+    return typeof value === "string" && new RegExp(condition.matches, "i").test(value);
+  }
+  return Boolean(value);
+}
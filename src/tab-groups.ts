@@ -10,6 +10,8 @@
 
 import CDP from "chrome-remote-interface";
 import type { DormancyManager } from "./dormancy.js";
+import { cometEvents } from "./event-bus.js";
+import { cdpHttpUrl, cometConfig } from "./config.js";
 
 // ---- Types ----
 
@@ -81,9 +83,11 @@ async function ensureExtensionAlive(): Promise<void> {
 export class TabGroupsClient {
   private client: CDP.Client | null = null;
   private port: number;
+  private host: string;
 
-  constructor(port: number = 9222) {
+  constructor(port: number = cometConfig().cdpPort, host: string = cometConfig().cdpHost) {
     this.port = port;
+    this.host = host;
   }
 
   get isConnected(): boolean {
@@ -99,11 +103,11 @@ export class TabGroupsClient {
   async connect(): Promise<string> {
     // 1. List all CDP targets
     const response = await fetch(
-      `http://127.0.0.1:${this.port}/json/list`
+      `${cdpHttpUrl(this.host, this.port)}/json/list`
     );
     if (!response.ok) {
       throw new Error(
-        `Cannot reach Comet on port ${this.port}. Is Comet running with --remote-debugging-port=${this.port}?`
+        `Cannot reach Comet at ${cdpHttpUrl(this.host, this.port)}. Is Comet running with --remote-debugging-port=${this.port}?`
       );
     }
     const targets = (await response.json()) as Array<{
@@ -263,7 +267,7 @@ export class TabGroupsClient {
     const title = options.title != null ? JSON.stringify(options.title) : "undefined";
     const color = options.color != null ? JSON.stringify(options.color) : "undefined";
 
-    return await this.evaluate(`
+    const result = await this.evaluate(`
       (async () => {
         const groupId = await chrome.tabs.group({ tabIds: ${tabIdsJson} });
         const updateProps = {};
@@ -284,6 +288,8 @@ export class TabGroupsClient {
         };
       })()
     `);
+    cometEvents.publish({ type: "tab-groups", action: "create" });
+    return result;
   }
 
   /** Update an existing tab group's title, color, or collapsed state. */
@@ -296,7 +302,7 @@ export class TabGroupsClient {
     if (options.collapsed !== undefined)
       props.push(`collapsed: ${options.collapsed}`);
 
-    return await this.evaluate(`
+    const group = await this.evaluate(`
       (async () => {
         const g = await chrome.tabGroups.update(${options.groupId}, { ${props.join(", ")} });
         return {
@@ -305,11 +311,13 @@ export class TabGroupsClient {
         };
       })()
     `);
+    cometEvents.publish({ type: "tab-groups", action: "update" });
+    return group;
   }
 
   /** Move a tab group to a new position. */
   async moveGroup(groupId: number, index: number): Promise<TabGroup> {
-    return await this.evaluate(`
+    const group = await this.evaluate(`
       (async () => {
         const g = await chrome.tabGroups.move(${groupId}, { index: ${index} });
         return {
@@ -318,6 +326,8 @@ export class TabGroupsClient {
         };
       })()
     `);
+    cometEvents.publish({ type: "tab-groups", action: "move" });
+    return group;
   }
 
   /** Remove tabs from their groups (tabs remain open). */
@@ -327,6 +337,7 @@ export class TabGroupsClient {
         await chrome.tabs.ungroup(${JSON.stringify(tabIds)});
       })()
     `);
+    cometEvents.publish({ type: "tab-groups", action: "ungroup" });
   }
 
   /** List all tabs with their groupId (−1 = ungrouped). */
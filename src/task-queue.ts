@@ -1,11 +1,25 @@
 import type { TaskDelegation } from "./types.js";
+import type { TaskStore } from "./task-store.js";
 
-const GLOBAL_KEY = "__global__";
+export const GLOBAL_KEY = "__global__";
+
+const TERMINAL_STATES = new Set(["completed", "failed", "cancelled"]);
+
+export interface RestoreSummary {
+  restored: number;
+  interrupted: number; // unfinished when the process stopped — marked failed
+  resumed: number; // pending tasks re-enqueued (resumePending only)
+}
 
 export class TaskQueue {
   private queues = new Map<string, TaskDelegation[]>();
   private activeTasks = new Map<string, TaskDelegation>();
   private taskRegistry = new Map<string, TaskDelegation>();
+  private store: TaskStore | null;
+
+  constructor(options?: { store?: TaskStore | null }) {
+    this.store = options?.store ?? null;
+  }
 
   private tabKey(tabId: string | null): string {
     return tabId ?? GLOBAL_KEY;
@@ -16,6 +30,7 @@ export class TaskQueue {
     if (!this.queues.has(key)) this.queues.set(key, []);
     this.queues.get(key)!.push(task);
     this.taskRegistry.set(task.id, task);
+    this.persist(task);
   }
 
   dequeue(tabId: string): TaskDelegation | null {
@@ -30,15 +45,18 @@ export class TaskQueue {
     task.state = "running";
     task.startedAt = Date.now();
     this.activeTasks.set(tabId, task);
+    this.persist(task);
     return task;
   }
 
+  /** Release the tab's active slot. A task already failed or cancelled keeps that state. */
   completeActive(tabId: string): void {
     const active = this.activeTasks.get(tabId);
     if (active) {
-      active.state = "completed";
-      active.completedAt = Date.now();
+      if (!TERMINAL_STATES.has(active.state)) active.state = "completed";
+      active.completedAt ??= Date.now();
       this.activeTasks.delete(tabId);
+      this.persist(active);
     }
   }
 
@@ -50,9 +68,14 @@ export class TaskQueue {
     return this.queues.get(tabId)?.length ?? 0;
   }
 
+  /** Tab keys that have tasks waiting to be dequeued. */
+  pendingTabKeys(): string[] {
+    return [...this.queues.entries()].filter(([, q]) => q.length > 0).map(([key]) => key);
+  }
+
   cancel(taskId: string): boolean {
     const task = this.taskRegistry.get(taskId);
-    if (!task) return false;
+    if (!task || TERMINAL_STATES.has(task.state)) return false;
 
     task.state = "cancelled";
     task.completedAt = Date.now();
@@ -69,10 +92,89 @@ export class TaskQueue {
       this.activeTasks.delete(key);
     }
 
+    this.persist(task);
     return true;
   }
 
   getTask(taskId: string): TaskDelegation | null {
     return this.taskRegistry.get(taskId) ?? null;
   }
+
+  /** All known tasks, oldest first. */
+  listTasks(): TaskDelegation[] {
+    return [...this.taskRegistry.values()];
+  }
+
+  /**
+   * Write the current state of a task to the store. Called internally on
+   * queue transitions; the orchestrator calls it after step and result updates.
+   * Store failures are logged, never thrown — persistence must not break a run.
+   */
+  persist(task: TaskDelegation): void {
+    if (!this.store) return;
+    try {
+      this.store.save(task);
+    } catch (err) {
+      console.error(`[task-queue] Failed to persist task ${task.id}:`, err);
+    }
+  }
+
+  /**
+   * Reload tasks from the store after a restart. Tasks that were running are
+   * marked failed with an INTERRUPTED error. Pending tasks are re-enqueued when
+   * resumePending is set, otherwise they are failed the same way.
+   */
+  restore(options?: { resumePending?: boolean }): RestoreSummary {
+    const summary: RestoreSummary = { restored: 0, interrupted: 0, resumed: 0 };
+    if (!this.store) return summary;
+
+    for (const task of this.store.load()) {
+      summary.restored++;
+      this.taskRegistry.set(task.id, task);
+
+      if (task.state === "pending" && options?.resumePending) {
+        const key = this.tabKey(task.targetTabId);
+        if (!this.queues.has(key)) this.queues.set(key, []);
+        this.queues.get(key)!.push(task);
+        summary.resumed++;
+        continue;
+      }
+
+      if (task.state === "pending" || task.state === "running") {
+        this.markInterrupted(task);
+        this.persist(task);
+        summary.interrupted++;
+      }
+    }
+
+    return summary;
+  }
+
+  private markInterrupted(task: TaskDelegation): void {
+    const wasRunning = task.state === "running";
+    const now = Date.now();
+    const completedSteps = task.steps.filter((s) => s.status === "completed").length;
+
+    for (const step of task.steps) {
+      if (step.status === "running") step.status = "failed";
+    }
+    task.state = "failed";
+    task.completedAt = now;
+    task.result = {
+      status: completedSteps > 0 ? "partial" : "failure",
+      payload: null,
+      duration_ms: task.startedAt ? now - task.startedAt : 0,
+      tools_invoked: task.steps.filter((s) => s.status === "completed").map((s) => s.toolName),
+      steps_completed: completedSteps,
+      steps_total: task.steps.length,
+      error: {
+        code: "INTERRUPTED",
+        message: wasRunning
+          ? "Server stopped while the task was running"
+          : "Server stopped before the task started",
+        recoverable: true,
+        ...(wasRunning ? { failedStep: task.currentStepIndex } : {}),
+      },
+    };
+  }
 }
@@ -0,0 +1,133 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import type { TaskDelegation } from "./types.js";
+
+// ─── Configuration ───────────────────────────────────────────────
+//
+// COMET_TASK_STORE — "off" to keep tasks in memory only, or an absolute
+//   path to the JSON file to use.
+//   Default: ~/.comet-mcp/tasks-<process>.json (one file per server process,
+//   so the stdio MCP server and the HTTP bridge never overwrite each other)
+// COMET_TASK_RESUME — "1" to re-run tasks that were still queued when the
+//   process stopped, instead of marking them failed
+
+const DEFAULT_STORE_DIR = join(homedir(), ".comet-mcp");
+const DEFAULT_MAX_FINISHED = 500;
+const STORE_VERSION = 1;
+
+/**
+ * Persistence backend for TaskQueue. Implementations must tolerate being
+ * called on every task mutation; the queue never batches writes itself.
+ */
+export interface TaskStore {
+  /** Load every persisted task, oldest first. */
+  load(): TaskDelegation[];
+  /** Insert or replace a task record (including steps and final result). */
+  save(task: TaskDelegation): void;
+}
+
+interface TaskStoreFile {
+  version: number;
+  tasks: TaskDelegation[];
+}
+
+const FINISHED_STATES = new Set(["completed", "failed", "cancelled"]);
+
+export class JsonFileTaskStore implements TaskStore {
+  private records = new Map<string, TaskDelegation>();
+  private loaded = false;
+  private readonly maxFinished: number;
+
+  constructor(
+    private readonly filePath: string,
+    options?: { maxFinished?: number },
+  ) {
+    this.maxFinished = options?.maxFinished ?? DEFAULT_MAX_FINISHED;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  load(): TaskDelegation[] {
+    this.records.clear();
+    if (!existsSync(this.filePath)) {
+      this.loaded = true;
+      return [];
+    }
+
+    let parsed: TaskStoreFile;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, "utf-8"));
+    } catch (err) {
+      throw new Error(
+        `Task store ${this.filePath} is unreadable: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+    if (parsed.version !== STORE_VERSION || !Array.isArray(parsed.tasks)) {
+      throw new Error(`Task store ${this.filePath} has unsupported format (version ${parsed.version})`);
+    }
+
+    for (const task of parsed.tasks) this.records.set(task.id, task);
+    // Only a file that parsed may be merged into and rewritten
+    this.loaded = true;
+    return [...this.records.values()];
+  }
+
+  save(task: TaskDelegation): void {
+    if (!this.loaded) {
+      try {
+        this.load();
+      } catch (err) {
+        this.setAside(err);
+      }
+    }
+    // Re-insert so Map order tracks most recent activity
+    this.records.delete(task.id);
+    this.records.set(task.id, structuredClone(task));
+    this.prune();
+    this.flush();
+  }
+
+  /**
+   * Move a file load() rejected out of the way, so the next write starts a
+   * new history instead of overwriting the old one.
+   */
+  private setAside(reason: unknown): void {
+    const aside = `${this.filePath}.corrupt-${Date.now()}`;
+    renameSync(this.filePath, aside);
+    console.error(`[task-store] ${reason instanceof Error ? reason.message : reason}; moved it to ${aside}`);
+    this.records.clear();
+    this.loaded = true;
+  }
+
+  private prune(): void {
+    const finished = [...this.records.values()].filter((t) => FINISHED_STATES.has(t.state));
+    const excess = finished.length - this.maxFinished;
+    for (let i = 0; i < excess; i++) this.records.delete(finished[i].id);
+  }
+
+  private flush(): void {
+    const data: TaskStoreFile = { version: STORE_VERSION, tasks: [...this.records.values()] };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${this.filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmp, this.filePath);
+  }
+}
+
+export function shouldResumePendingTasks(): boolean {
+  return process.env.COMET_TASK_RESUME === "1";
+}
+
+/**
+ * Build the task store for a server process from the environment.
+ * Returns null when persistence is disabled.
+ */
+export function createTaskStore(processName: string): TaskStore | null {
+  const setting = process.env.COMET_TASK_STORE;
+  if (setting === "off") return null;
+  return new JsonFileTaskStore(setting || join(DEFAULT_STORE_DIR, `tasks-${processName}.json`));
+}
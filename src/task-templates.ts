@@ -1,7 +1,8 @@
-import type { TaskTemplate, TaskTemplateStep, ServerName } from "./types.js";
+import type { TaskTemplate, TaskTemplateStep, ServerName, ParamExtractionRule } from "./types.js";
 
 export interface ITaskTemplateRegistry {
-  register(template: TaskTemplate): void;
+  register(template: TaskTemplate, options?: { prepend?: boolean }): void;
+  unregister(name: string): boolean;
   match(description: string): TaskTemplate | null;
   getAll(): TaskTemplate[];
   get(name: string): TaskTemplate | null;
@@ -19,11 +20,36 @@ function step(
 
 const URL_RE = /https?:\/\//i;
 
+/** How triggerPatterns are matched when a template does not say. */
+export const DEFAULT_MATCH_MODE: NonNullable<TaskTemplate["matchMode"]> = "regex";
+
+// Shortwave's SPA re-renders its toolbar while loading; clicks often land on a stale node
+const SHORTWAVE_CLICK_RETRY = { count: 2, backoff_ms: 500 };
+
+const RESEARCH_TRIGGER_WORDS = ["research", "deep dive", "analyze", "look into"];
+const SEARCH_TRIGGER_WORDS = ["search for", "search", "look up", "quick search", "what is", "find out about", "find out"];
+const SHORTWAVE_TRIGGER_WORDS = ["shortwave", "ask shortwave", "email assistant", "shortwave query", "shortwave triage", "email triage"];
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Pattern prefix skipping one leading trigger phrase (and punctuation after it), if present. */
+function leadingTrigger(triggers: string[]): string {
+  const alternatives = [...triggers].sort((a, b) => b.length - a.length).map(escapeRegex);
+  return `^\\s*(?:(?:${alternatives.join("|")})\\b[\\s,.:;!?-]*)?`;
+}
+
+// Separates "<first part> then <second part>" in compound descriptions
+const THEN = "(?:,|\\s+and)?\\s+(?:then|afterwards)\\s+";
+const URL_RULE: ParamExtractionRule = { pattern: "https?://\\S+", param: "url" };
+
 function buildBuiltins(): TaskTemplate[] {
   return [
     {
       name: "research-extract",
       description: "Deep research then extract content from result page",
+      matchMode: "keyword",
       triggerPatterns: [
         "research.*then extract",
         "research.*then get",
@@ -35,6 +61,10 @@ function buildBuiltins(): TaskTemplate[] {
         "analyze.*then get",
       ],
       defaultParams: {},
+      extractRules: [
+        { pattern: `${leadingTrigger(RESEARCH_TRIGGER_WORDS)}([\\s\\S]+)`, param: "prompt" },
+        { pattern: `${leadingTrigger(RESEARCH_TRIGGER_WORDS)}(?<prompt>[\\s\\S]+?)${THEN}(?<extractionTarget>[\\s\\S]+)` },
+      ],
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_mode", "comet-mcp", "Set Comet to research mode", { mode: "research" }),
@@ -46,8 +76,10 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "research",
       description: "Deep research using Comet AI",
+      matchMode: "keyword",
       triggerPatterns: ["research", "deep dive", "analyze"],
       defaultParams: {},
+      extractRules: [{ pattern: `${leadingTrigger(RESEARCH_TRIGGER_WORDS)}([\\s\\S]+)`, param: "prompt" }],
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_mode", "comet-mcp", "Set Comet to research mode", { mode: "research" }),
@@ -58,8 +90,10 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "search",
       description: "Quick search using Comet AI",
+      matchMode: "keyword",
       triggerPatterns: ["search", "look up", "quick search", "what is", "find out"],
       defaultParams: {},
+      extractRules: [{ pattern: `${leadingTrigger(SEARCH_TRIGGER_WORDS)}([\\s\\S]+)`, param: "prompt" }],
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_mode", "comet-mcp", "Set Comet to search mode", { mode: "search" }),
@@ -70,6 +104,7 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "navigate-extract",
       description: "Navigate to URL and extract page content",
+      matchMode: "keyword",
       triggerPatterns: [
         "extract.*https?://",
         "scrape.*https?://",
@@ -81,6 +116,7 @@ function buildBuiltins(): TaskTemplate[] {
         "https?://.*pull data",
       ],
       defaultParams: {},
+      extractRules: [URL_RULE, { pattern: `${THEN}([\\s\\S]+)`, param: "extractionTarget" }],
       steps: [
         step("comet_navigate", "comet-browser", "Navigate to URL"),
         step("comet_get_content", "comet-browser", "Extract page content"),
@@ -89,8 +125,10 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "navigate",
       description: "Navigate browser to a URL",
+      matchMode: "keyword",
       triggerPatterns: ["go to", "open", "navigate to"],
       defaultParams: {},
+      extractRules: [URL_RULE],
       steps: [
         step("comet_navigate", "comet-browser", "Navigate to URL"),
       ],
@@ -98,6 +136,7 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "shortwave-saved-prompt",
       description: "Run a Shortwave saved prompt command",
+      matchMode: "keyword",
       triggerPatterns: [
         "shortwave /analyze",
         "shortwave /tasks",
@@ -106,12 +145,13 @@ function buildBuiltins(): TaskTemplate[] {
         "shortwave /clarity",
         "shortwave /specify",
       ],
-      defaultParams: { mode: "Advanced" },
+      defaultParams: { mode: "Advanced", promptCommand: "/analyze" },
+      extractRules: [{ pattern: "/(?:analyze|tasks|plan|checklist|clarity|specify)\\b", param: "promptCommand" }],
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_navigate", "comet-browser", "Open Shortwave", { url: "https://app.shortwave.com/" }),
         step("comet_find_elements", "comet-browser", "Find mode selector", {}, true),
-        step("comet_click", "comet-browser", "Set Advanced mode", {}, true),
+        { ...step("comet_click", "comet-browser", "Set Advanced mode", {}, true), retry: SHORTWAVE_CLICK_RETRY },
         step("comet_type", "comet-browser", "Enter saved prompt command"),
         step("comet_wait", "comet-browser", "Wait for response"),
         step("comet_get_content", "comet-browser", "Extract response"),
@@ -120,19 +160,20 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "shortwave-triage",
       description: "Triage emails via Shortwave AI assistant",
+      matchMode: "keyword",
       triggerPatterns: [
         "shortwave triage",
         "email triage shortwave",
         "batch listen email",
         "shortwave email triage",
       ],
-      defaultParams: { mode: "Advanced" },
+      defaultParams: { mode: "Advanced", query: "/analyze" },
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_navigate", "comet-browser", "Open Shortwave", { url: "https://app.shortwave.com/" }),
         step("comet_find_elements", "comet-browser", "Find mode selector", {}, true),
-        step("comet_click", "comet-browser", "Set Advanced mode", {}, true),
-        step("comet_click", "comet-browser", "Focus query input"),
+        { ...step("comet_click", "comet-browser", "Set Advanced mode", {}, true), retry: SHORTWAVE_CLICK_RETRY },
+        { ...step("comet_click", "comet-browser", "Focus query input"), retry: SHORTWAVE_CLICK_RETRY },
         step("comet_type", "comet-browser", "Enter /analyze triage prompt"),
         step("comet_wait", "comet-browser", "Wait for triage response"),
         step("comet_get_content", "comet-browser", "Extract triage results"),
@@ -141,14 +182,16 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "shortwave-query",
       description: "Ask Shortwave AI email assistant a question",
+      matchMode: "keyword",
       triggerPatterns: ["shortwave", "ask shortwave", "email assistant", "shortwave query"],
       defaultParams: { mode: "Advanced" },
+      extractRules: [{ pattern: `${leadingTrigger(SHORTWAVE_TRIGGER_WORDS)}([\\s\\S]+)`, param: "query" }],
       steps: [
         step("comet_connect", "comet-mcp", "Ensure Comet connection"),
         step("comet_navigate", "comet-browser", "Open Shortwave", { url: "https://app.shortwave.com/" }),
         step("comet_find_elements", "comet-browser", "Find mode selector", {}, true),
-        step("comet_click", "comet-browser", "Set Advanced mode", {}, true),
-        step("comet_click", "comet-browser", "Focus query input"),
+        { ...step("comet_click", "comet-browser", "Set Advanced mode", {}, true), retry: SHORTWAVE_CLICK_RETRY },
+        { ...step("comet_click", "comet-browser", "Focus query input"), retry: SHORTWAVE_CLICK_RETRY },
         step("comet_type", "comet-browser", "Enter query"),
         step("comet_wait", "comet-browser", "Wait for response"),
         step("comet_get_content", "comet-browser", "Extract response"),
@@ -157,8 +200,17 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "dom-interact",
       description: "Interact with page DOM elements (click, type, scroll, etc.)",
+      matchMode: "keyword",
       triggerPatterns: ["click", "type", "fill", "scroll", "submit", "form"],
       defaultParams: {},
+      // Later rules win: click, then type/fill, then scroll, then submit
+      extractRules: [
+        { pattern: "[\\s\\S]+", param: "target" },
+        { pattern: "submit", param: "action", value: "click" },
+        { pattern: "scroll", param: "action", value: "scroll" },
+        { pattern: "type|fill", param: "action", value: "type" },
+        { pattern: "click", param: "action", value: "click" },
+      ],
       steps: [
         step("comet_find_elements", "comet-browser", "Find target element"),
         step("comet_click", "comet-browser", "Perform DOM interaction"),
@@ -167,6 +219,7 @@ function buildBuiltins(): TaskTemplate[] {
     {
       name: "screenshot",
       description: "Capture a screenshot of the current page",
+      matchMode: "keyword",
       triggerPatterns: ["screenshot", "capture", "take picture"],
       defaultParams: {},
       steps: [
@@ -176,108 +229,71 @@ function buildBuiltins(): TaskTemplate[] {
   ];
 }
 
-const URL_EXTRACT_RE = /https?:\/\/\S+/i;
-
-const RESEARCH_TRIGGER_WORDS = ["research", "deep dive", "analyze", "look into"];
-const SEARCH_TRIGGER_WORDS = ["search for", "search", "look up", "quick search", "what is", "find out about", "find out"];
-const SHORTWAVE_TRIGGER_WORDS = ["shortwave", "ask shortwave", "email assistant", "shortwave query", "shortwave triage", "email triage"];
-const SHORTWAVE_PROMPT_RE = /\/(analyze|tasks|plan|checklist|clarity|specify)\b/i;
-
-function stripTriggerWords(description: string, triggers: string[]): string {
-  let text = description;
-  for (const t of triggers.sort((a, b) => b.length - a.length)) {
-    const re = new RegExp(`\\b${t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "gi");
-    text = text.replace(re, "");
-  }
-  return text.replace(/^\s*[,.:;!?\-]+\s*/, "").replace(/\s+/g, " ").trim();
-}
-
-function extractCompoundParts(description: string): { left: string; right: string } | null {
-  const separators = [" then ", " and then ", ", then ", " afterwards "];
-  const lower = description.toLowerCase();
-  for (const sep of separators) {
-    const idx = lower.indexOf(sep);
-    if (idx > 0) {
-      return {
-        left: description.slice(0, idx).trim(),
-        right: description.slice(idx + sep.length).trim(),
-      };
-    }
-  }
-  return null;
-}
-
+/**
+ * Params for a task: the template's defaultParams, overlaid with what its
+ * extractRules capture from the description, in order (later rules win).
+ */
 export function extractParamsForTemplate(
   description: string,
   template: TaskTemplate,
 ): Record<string, unknown> {
   const params: Record<string, unknown> = { ...template.defaultParams };
+  for (const rule of template.extractRules ?? []) {
+    Object.assign(params, applyExtractionRule(description, rule));
+  }
+  return params;
+}
 
-  switch (template.name) {
-    case "research":
-    case "search": {
-      const triggers = template.name === "research" ? RESEARCH_TRIGGER_WORDS : SEARCH_TRIGGER_WORDS;
-      params.prompt = stripTriggerWords(description, triggers) || description;
-      break;
-    }
-
-    case "research-extract": {
-      const parts = extractCompoundParts(description);
-      if (parts) {
-        params.prompt = stripTriggerWords(parts.left, RESEARCH_TRIGGER_WORDS) || parts.left;
-        params.extractionTarget = parts.right;
-      } else {
-        params.prompt = stripTriggerWords(description, RESEARCH_TRIGGER_WORDS) || description;
-      }
-      break;
-    }
-
-    case "navigate": {
-      const urlMatch = description.match(URL_EXTRACT_RE);
-      if (urlMatch) params.url = urlMatch[0];
-      break;
-    }
-
-    case "navigate-extract": {
-      const urlMatch = description.match(URL_EXTRACT_RE);
-      if (urlMatch) params.url = urlMatch[0];
-      const parts = extractCompoundParts(description);
-      if (parts) params.extractionTarget = parts.right;
-      break;
-    }
+function applyExtractionRule(description: string, rule: ParamExtractionRule): Record<string, string> {
+  const match = description.match(new RegExp(rule.pattern, "i"));
+  if (!match) return {};
 
-    case "shortwave-query": {
-      params.query = stripTriggerWords(description, SHORTWAVE_TRIGGER_WORDS) || description;
-      break;
-    }
+  const captured: Record<string, string> = {};
+  for (const [name, value] of Object.entries(match.groups ?? {})) {
+    if (value !== undefined) captured[name] = value.trim();
+  }
+  if (rule.param && rule.value !== undefined) {
+    captured[rule.param] = rule.value;
+  } else if (rule.param) {
+    const value = match[rule.group ?? (match.length > 1 ? 1 : 0)];
+    if (value !== undefined) captured[rule.param] = value.trim();
+  }
+  return captured;
+}
 
-    case "shortwave-triage": {
-      params.query = "/analyze";
-      break;
-    }
+const PARAM_PLACEHOLDER_RE = /\{\{\s*params\.(\w+)\s*\}\}/g;
+const WHOLE_PARAM_PLACEHOLDER_RE = /^\{\{\s*params\.(\w+)\s*\}\}$/;
 
-    case "shortwave-saved-prompt": {
-      const promptMatch = description.match(SHORTWAVE_PROMPT_RE);
-      params.promptCommand = promptMatch ? `/${promptMatch[1]}` : "/analyze";
-      break;
+/**
+ * Fill `{{params.name}}` placeholders in a step's paramTemplate. A value that
+ * is exactly one placeholder keeps the param's type (and is dropped when the
+ * param is missing); placeholders inside longer strings are interpolated.
+ */
+export function applyParamTemplate(
+  paramTemplate: Record<string, unknown>,
+  params: Record<string, unknown>,
+): Record<string, unknown> {
+  const fill = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = value.match(WHOLE_PARAM_PLACEHOLDER_RE);
+      if (whole) return params[whole[1]];
+      return value.replace(PARAM_PLACEHOLDER_RE, (_, name: string) =>
+        params[name] === undefined ? "" : String(params[name]),
+      );
     }
-
-    case "dom-interact": {
-      const lower = description.toLowerCase();
-      if (lower.includes("click")) params.action = "click";
-      else if (lower.includes("type") || lower.includes("fill")) params.action = "type";
-      else if (lower.includes("scroll")) params.action = "scroll";
-      else if (lower.includes("submit")) params.action = "click";
-      params.target = description;
-      break;
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fill(v)]));
     }
+    return value;
+  };
 
-    case "screenshot": {
-      break;
-    }
+  const filled: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(paramTemplate)) {
+    const resolved = fill(value);
+    if (resolved !== undefined) filled[key] = resolved;
   }
-
-  return params;
+  return filled;
 }
 
 export class TaskTemplateRegistry implements ITaskTemplateRegistry {
@@ -292,12 +308,22 @@ export class TaskTemplateRegistry implements ITaskTemplateRegistry {
     }
   }
 
-  register(template: TaskTemplate): void {
+  /** Register a template. Prepended templates are tried before existing ones in match(). */
+  register(template: TaskTemplate, options?: { prepend?: boolean }): void {
     if (this.templates.has(template.name)) {
       throw new Error(`Template "${template.name}" is already registered`);
     }
     this.templates.set(template.name, template);
-    this.ordered.push(template);
+    if (options?.prepend) this.ordered.unshift(template);
+    else this.ordered.push(template);
+  }
+
+  unregister(name: string): boolean {
+    const template = this.templates.get(name);
+    if (!template) return false;
+    this.templates.delete(name);
+    this.ordered = this.ordered.filter((t) => t !== template);
+    return true;
   }
 
   get(name: string): TaskTemplate | null {
@@ -321,6 +347,10 @@ export class TaskTemplateRegistry implements ITaskTemplateRegistry {
   }
 
   private matchesTemplate(template: TaskTemplate, lower: string, hasUrl: boolean): boolean {
+    if ((template.matchMode ?? DEFAULT_MATCH_MODE) === "regex") {
+      return template.triggerPatterns.some((p) => new RegExp(p, "i").test(lower));
+    }
+
     // navigate and navigate-extract need a URL present
     if (template.name === "navigate" || template.name === "navigate-extract") {
       if (!hasUrl) {
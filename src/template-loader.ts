@@ -0,0 +1,348 @@
+import { existsSync, readdirSync, readFileSync, watch, type FSWatcher } from "fs";
+import { homedir } from "os";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  SERVER_ALIAS_MAP,
+  type ParamExtractionRule,
+  type ServerAlias,
+  type StepCondition,
+  type ServerName,
+  type TaskTemplate,
+  type TaskTemplateStep,
+} from "./types.js";
+import { DEFAULT_MATCH_MODE, type TaskTemplateRegistry } from "./task-templates.js";
+import { findStepReferences } from "./step-expressions.js";
+
+// ─── Configuration ───────────────────────────────────────────────
+//
+// COMET_TEMPLATES_DIR — directory of user-defined task templates
+//   (*.yaml, *.yml, *.json). Default: ~/.comet-mcp/templates
+
+const DEFAULT_TEMPLATES_DIR = join(homedir(), ".comet-mcp", "templates");
+const TEMPLATE_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+const RELOAD_DEBOUNCE_MS = 250;
+const DIR_POLL_MS = 2_000;
+
+export interface TemplateLoadResult {
+  loaded: string[]; // template names now registered from files
+  errors: Array<{ file: string; error: string }>;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkRegex(pattern: unknown, where: string): string {
+  if (typeof pattern !== "string" || !pattern) fail(`${where} must be a non-empty string`);
+  try {
+    new RegExp(pattern, "i");
+  } catch (err) {
+    fail(`${where} is not a valid regex: ${err instanceof Error ? err.message : err}`);
+  }
+  return pattern;
+}
+
+function parseServer(value: unknown, where: string): ServerName {
+  if (value === "comet-mcp" || value === "comet-browser") return value;
+  const aliased = SERVER_ALIAS_MAP[value as ServerAlias];
+  if (aliased) return aliased;
+  return fail(`${where}.server must be one of comet-mcp, comet-browser, mcp, browser`);
+}
+
+const HEALTH_OPERANDS = new Set(["overall", "browser", "comet-mcp", "comet-monitor", "extension"]);
+const CONDITION_TESTS = ["equals", "notEquals", "in", "contains", "matches", "exists"] as const;
+
+function parseCondition(raw: unknown, where: string, stepIndex: number): StepCondition {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  const condition: StepCondition = {};
+
+  if (raw.health !== undefined) {
+    if (raw.step !== undefined) fail(`${where} takes either step or health, not both`);
+    if (!HEALTH_OPERANDS.has(raw.health as string)) {
+      fail(`${where}.health must be one of ${[...HEALTH_OPERANDS].join(", ")}`);
+    }
+    condition.health = raw.health as StepCondition["health"];
+  } else {
+    // Default operand: the previous step
+    const ref = raw.step ?? stepIndex - 1;
+    if (!Number.isInteger(ref) || (ref as number) < 0 || (ref as number) >= stepIndex) {
+      fail(`${where}.step must refer to an earlier step`);
+    }
+    condition.step = ref as number;
+    if (raw.path !== undefined) {
+      if (typeof raw.path !== "string" || !/^(status|result)\b/.test(raw.path)) {
+        fail(`${where}.path must be "status" or start with "result"`);
+      }
+      condition.path = raw.path;
+    }
+  }
+
+  const tests = CONDITION_TESTS.filter((t) => raw[t] !== undefined);
+  if (tests.length > 1) fail(`${where} takes at most one of ${CONDITION_TESTS.join(", ")}`);
+  if (raw.in !== undefined && !Array.isArray(raw.in)) fail(`${where}.in must be a list`);
+  if (raw.contains !== undefined && typeof raw.contains !== "string") fail(`${where}.contains must be a string`);
+  if (raw.matches !== undefined) checkRegex(raw.matches, `${where}.matches`);
+  if (raw.exists !== undefined && typeof raw.exists !== "boolean") fail(`${where}.exists must be true or false`);
+  for (const t of tests) (condition as Record<string, unknown>)[t] = raw[t];
+
+  return condition;
+}
+
+function parsePositiveInt(value: unknown, where: string, allowZero = false): number {
+  if (!Number.isInteger(value) || (value as number) < (allowZero ? 0 : 1)) {
+    fail(`${where} must be a ${allowZero ? "non-negative" : "positive"} integer`);
+  }
+  return value as number;
+}
+
+function parseStep(raw: unknown, where: string, stepIndex: number): TaskTemplateStep {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  if (typeof raw.toolName !== "string" || !raw.toolName) fail(`${where}.toolName is required`);
+  if (raw.paramTemplate !== undefined && !isRecord(raw.paramTemplate)) {
+    fail(`${where}.paramTemplate must be an object`);
+  }
+  const step: TaskTemplateStep = {
+    toolName: raw.toolName,
+    server: parseServer(raw.server, where),
+    paramTemplate: (raw.paramTemplate as Record<string, unknown> | undefined) ?? {},
+    description: typeof raw.description === "string" ? raw.description : raw.toolName,
+    optional: raw.optional === true,
+  };
+  for (const ref of findStepReferences(step.paramTemplate)) {
+    if (ref >= stepIndex) fail(`${where} references steps[${ref}], which has not run yet`);
+  }
+
+  if (raw.retry !== undefined) {
+    if (!isRecord(raw.retry)) fail(`${where}.retry must be an object`);
+    step.retry = {
+      count: parsePositiveInt(raw.retry.count, `${where}.retry.count`),
+      backoff_ms: parsePositiveInt(raw.retry.backoff_ms ?? 0, `${where}.retry.backoff_ms`, true),
+    };
+  }
+  if (raw.timeout_ms !== undefined) {
+    step.timeout_ms = parsePositiveInt(raw.timeout_ms, `${where}.timeout_ms`);
+  }
+  if (raw.when !== undefined) {
+    step.when = Array.isArray(raw.when)
+      ? raw.when.map((c, i) => parseCondition(c, `${where}.when[${i}]`, stepIndex))
+      : parseCondition(raw.when, `${where}.when`, stepIndex);
+  }
+  if (raw.onFailure !== undefined) {
+    if (!Array.isArray(raw.onFailure) || raw.onFailure.length === 0) {
+      fail(`${where}.onFailure must be a non-empty list of steps`);
+    }
+    // Fallbacks run in the failed step's slot, so they see the same earlier steps
+    step.onFailure = raw.onFailure.map((f, i) => parseStep(f, `${where}.onFailure[${i}]`, stepIndex));
+  }
+  return step;
+}
+
+function parseRule(raw: unknown, where: string): ParamExtractionRule {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  const rule: ParamExtractionRule = { pattern: checkRegex(raw.pattern, `${where}.pattern`) };
+  if (raw.param !== undefined) {
+    if (typeof raw.param !== "string") fail(`${where}.param must be a string`);
+    rule.param = raw.param;
+  }
+  if (raw.group !== undefined) {
+    if (!Number.isInteger(raw.group) || (raw.group as number) < 0) {
+      fail(`${where}.group must be a non-negative integer`);
+    }
+    rule.group = raw.group as number;
+  }
+  if (raw.value !== undefined) {
+    if (typeof raw.value !== "string") fail(`${where}.value must be a string`);
+    if (rule.param === undefined) fail(`${where}.value needs a param to set`);
+    rule.value = raw.value;
+  }
+  return rule;
+}
+
+function parseTemplate(raw: unknown, where: string): TaskTemplate {
+  if (!isRecord(raw)) fail(`${where} must be an object`);
+  if (typeof raw.name !== "string" || !raw.name) fail(`${where}.name is required`);
+  const at = `${where} (${raw.name})`;
+
+  if (!Array.isArray(raw.triggerPatterns) || raw.triggerPatterns.length === 0) {
+    fail(`${at}.triggerPatterns must be a non-empty list`);
+  }
+  const matchMode = raw.matchMode ?? DEFAULT_MATCH_MODE;
+  if (matchMode !== "regex" && matchMode !== "keyword") {
+    fail(`${at}.matchMode must be "regex" or "keyword"`);
+  }
+  const triggerPatterns = raw.triggerPatterns.map((p, i) =>
+    matchMode === "regex"
+      ? checkRegex(p, `${at}.triggerPatterns[${i}]`)
+      : typeof p === "string" && p
+        ? p.toLowerCase()
+        : fail(`${at}.triggerPatterns[${i}] must be a non-empty string`),
+  );
+
+  if (raw.defaultParams !== undefined && !isRecord(raw.defaultParams)) {
+    fail(`${at}.defaultParams must be an object`);
+  }
+  if (raw.extractRules !== undefined && !Array.isArray(raw.extractRules)) {
+    fail(`${at}.extractRules must be a list`);
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    fail(`${at}.steps must be a non-empty list`);
+  }
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    triggerPatterns,
+    matchMode,
+    defaultParams: (raw.defaultParams as Record<string, unknown> | undefined) ?? {},
+    extractRules: ((raw.extractRules as unknown[] | undefined) ?? []).map((r, i) =>
+      parseRule(r, `${at}.extractRules[${i}]`),
+    ),
+    steps: raw.steps.map((s, i) => parseStep(s, `${at}.steps[${i}]`, i)),
+  };
+}
+
+/**
+ * Parse one template file. A file holds a single template, a list of
+ * templates, or `{ templates: [...] }`. Throws on the first invalid field.
+ */
+export function parseTemplateFile(file: string, text: string): TaskTemplate[] {
+  const doc: unknown = extname(file) === ".json" ? JSON.parse(text) : parseYaml(text);
+  const list = Array.isArray(doc) ? doc : isRecord(doc) && Array.isArray(doc.templates) ? doc.templates : [doc];
+  return list.map((raw, i) => ({
+    ...parseTemplate(raw, list.length > 1 ? `templates[${i}]` : "template"),
+    source: file,
+  }));
+}
+
+// ─── Loader ──────────────────────────────────────────────────────
+
+/**
+ * Loads user-defined templates from a directory into a registry and keeps
+ * them in sync with the files. File templates are tried before built-ins and
+ * may not reuse a built-in name. A file that fails to parse is skipped on its
+ * own; the rest still load.
+ */
+export class TemplateLoader {
+  readonly dir: string;
+  private registry: TaskTemplateRegistry;
+  private loadedNames: string[] = [];
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirPollTimer: ReturnType<typeof setInterval> | null = null;
+  private dirPollMs: number;
+
+  constructor(registry: TaskTemplateRegistry, options?: { dir?: string; dirPollMs?: number }) {
+    this.registry = registry;
+    this.dir = options?.dir ?? process.env.COMET_TEMPLATES_DIR ?? DEFAULT_TEMPLATES_DIR;
+    this.dirPollMs = options?.dirPollMs ?? DIR_POLL_MS;
+  }
+
+  /** (Re)load every template file, replacing templates from the previous load. */
+  load(): TemplateLoadResult {
+    const result: TemplateLoadResult = { loaded: [], errors: [] };
+
+    for (const name of this.loadedNames) this.registry.unregister(name);
+    this.loadedNames = [];
+    if (!existsSync(this.dir)) return result;
+
+    const files = readdirSync(this.dir)
+      .filter((f) => TEMPLATE_EXTENSIONS.has(extname(f).toLowerCase()))
+      .sort();
+
+    const templates: TaskTemplate[] = [];
+    for (const f of files) {
+      const file = join(this.dir, f);
+      try {
+        templates.push(...parseTemplateFile(file, readFileSync(file, "utf-8")));
+      } catch (err) {
+        result.errors.push({ file, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    // Prepend in reverse so the first file's first template is tried first
+    for (const template of [...templates].reverse()) {
+      try {
+        this.registry.register(template, { prepend: true });
+        this.loadedNames.push(template.name);
+      } catch (err) {
+        result.errors.push({
+          file: template.source ?? this.dir,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    result.loaded = [...this.loadedNames].reverse();
+    return result;
+  }
+
+  /**
+   * Reload whenever a file in the directory changes. A directory that does
+   * not exist yet (or is removed later) is polled for until it appears, then
+   * loaded and watched. Returns false when already watching.
+   */
+  watch(onReload?: (result: TemplateLoadResult) => void): boolean {
+    if (this.watcher || this.dirPollTimer) return false;
+    if (existsSync(this.dir)) {
+      this.startWatcher(onReload);
+    } else {
+      this.waitForDir(onReload);
+    }
+    return true;
+  }
+
+  private startWatcher(onReload?: (result: TemplateLoadResult) => void): void {
+    this.watcher = watch(this.dir, () => this.scheduleReload(onReload));
+    this.watcher.on("error", () => {
+      // The directory was removed: wait for it to come back
+      this.watcher?.close();
+      this.watcher = null;
+      this.waitForDir(onReload);
+    });
+    this.watcher.unref();
+  }
+
+  private waitForDir(onReload?: (result: TemplateLoadResult) => void): void {
+    this.dirPollTimer = setInterval(() => {
+      if (!existsSync(this.dir)) return;
+      clearInterval(this.dirPollTimer!);
+      this.dirPollTimer = null;
+      this.startWatcher(onReload);
+      // Files may have been written before the watcher started
+      this.scheduleReload(onReload);
+    }, this.dirPollMs);
+    this.dirPollTimer.unref();
+  }
+
+  private scheduleReload(onReload?: (result: TemplateLoadResult) => void): void {
+    // Editors emit several events per save; reload once they settle
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      let result: TemplateLoadResult;
+      try {
+        result = this.load();
+      } catch (err) {
+        // E.g. the directory was renamed away mid-reload; a throw here would end the process
+        result = { loaded: [], errors: [{ file: this.dir, error: err instanceof Error ? err.message : String(err) }] };
+      }
+      onReload?.(result);
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  close(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+    if (this.dirPollTimer) clearInterval(this.dirPollTimer);
+    this.dirPollTimer = null;
+    this.watcher?.close();
+    this.watcher = null;
+  }
+}
@@ -0,0 +1,350 @@
+// Conversation threads — Perplexity threads by ID, with their Q&A history.
+//
+// A thread is identified by the slug of its URL
+// (https://www.perplexity.ai/search/<thread_id>). Threads that comet_ask
+// created or continued, or whose history was read, are remembered in a small
+// registry so they can be listed and reopened later. Opening a thread reuses
+// a tab that already shows it, or opens a new one; callers then drive that tab
+// by its target ID (see cdp-sessions.ts).
+//
+// Configuration:
+//   COMET_THREAD_STORE — "off" to keep the registry in memory only, or an
+//     absolute path to the JSON file to use.
+//     Default: ~/.comet-mcp/threads.json (shared by the MCP server and the
+//     HTTP bridge; the file is re-read before every write)
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { cometClient } from "./cdp-client.js";
+import { cdpSessions } from "./cdp-sessions.js";
+import { threadTurnsScript, type ThreadTurnsSnapshot } from "./comet-ai.js";
+import type { ResearchAnswer } from "./types.js";
+
+// ---- Types ----
+
+export interface ThreadRecord {
+  id: string;
+  url: string;
+  /** First question asked in the thread ("" if it was never seen). */
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ThreadSummary extends ThreadRecord {
+  /** Target ID of a tab currently showing the thread, if any. */
+  tab_id: string | null;
+}
+
+export interface ThreadTurn {
+  index: number;
+  question: string;
+  answer: ResearchAnswer;
+}
+
+export interface ThreadHistory {
+  thread_id: string | null;
+  url: string;
+  tab_id: string | null;
+  turns: ThreadTurn[];
+}
+
+export interface OpenedThread {
+  thread_id: string;
+  url: string;
+  tab_id: string;
+  /** False when a tab was already showing the thread. */
+  opened: boolean;
+}
+
+/** Persistence backend for the thread registry. */
+export interface ThreadStore {
+  load(): ThreadRecord[];
+  save(records: ThreadRecord[]): void;
+}
+
+export interface ThreadsDeps {
+  listTabs: () => Promise<Array<{ id: string; url: string }>>;
+  /** Open a new tab on url and return its target ID once the page has loaded. */
+  openTab: (url: string) => Promise<string>;
+  navigate: (targetId: string, url: string) => Promise<void>;
+  /**
+   * Evaluate in a tab, or on the main connection when targetId is undefined,
+   * and return the value. Throws on page exceptions.
+   */
+  evaluate: (targetId: string | undefined, expression: string) => Promise<unknown>;
+  store?: ThreadStore | null;
+}
+
+export interface ThreadsOptions {
+  /** How long history() waits for a freshly opened thread to render (default 10000). */
+  loadTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+// ---- Constants ----
+
+export const PERPLEXITY_THREAD_URL = "https://www.perplexity.ai/search/";
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_THREADS = 500;
+const DEFAULT_LOAD_TIMEOUT_MS = 10_000;
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const MAX_TURN_ANSWER_CHARS = 50_000;
+const STORE_VERSION = 1;
+const THREAD_URL_PATTERN = /^https?:\/\/(?:[\w-]+\.)*perplexity\.ai\/search\/([^/?#]+)/i;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Thread ID of a Perplexity thread URL, or null for any other URL. */
+export function threadIdFromUrl(url: string | null | undefined): string | null {
+  const match = url?.match(THREAD_URL_PATTERN);
+  if (!match || match[1] === "new") return null;
+  return decodeURIComponent(match[1]);
+}
+
+export function threadUrl(threadId: string): string {
+  return PERPLEXITY_THREAD_URL + encodeURIComponent(threadId);
+}
+
+/** Accept either a bare thread ID or a full thread URL. */
+function normalizeThreadId(idOrUrl: string): string {
+  const trimmed = idOrUrl.trim();
+  const id = threadIdFromUrl(trimmed) ?? trimmed;
+  if (!id || /[/?#\s]/.test(id)) throw new Error(`Invalid thread_id: ${idOrUrl}`);
+  return id;
+}
+
+// ---- Store ----
+
+interface ThreadStoreFile {
+  version: number;
+  threads: ThreadRecord[];
+}
+
+export class JsonFileThreadStore implements ThreadStore {
+  constructor(private readonly filePath: string) {}
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  load(): ThreadRecord[] {
+    if (!existsSync(this.filePath)) return [];
+    let parsed: ThreadStoreFile;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, "utf-8"));
+    } catch (err) {
+      throw new Error(
+        `Thread store ${this.filePath} is unreadable: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+    if (parsed.version !== STORE_VERSION || !Array.isArray(parsed.threads)) {
+      throw new Error(`Thread store ${this.filePath} has unsupported format (version ${parsed.version})`);
+    }
+    return parsed.threads;
+  }
+
+  save(records: ThreadRecord[]): void {
+    const data: ThreadStoreFile = { version: STORE_VERSION, threads: records };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    const tmp = `${this.filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tmp, this.filePath);
+  }
+}
+
+/** Build the thread store from the environment. Returns null when persistence is disabled. */
+export function createThreadStore(): ThreadStore | null {
+  const setting = process.env.COMET_THREAD_STORE;
+  if (setting === "off") return null;
+  return new JsonFileThreadStore(setting || join(homedir(), ".comet-mcp", "threads.json"));
+}
+
+// ---- Thread manager ----
+
+export class ThreadManager {
+  private deps: ThreadsDeps;
+  private records = new Map<string, ThreadRecord>();
+  private loadTimeoutMs: number;
+  private pollIntervalMs: number;
+
+  constructor(deps: ThreadsDeps, options: ThreadsOptions = {}) {
+    this.deps = deps;
+    this.loadTimeoutMs = options.loadTimeoutMs ?? DEFAULT_LOAD_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Remember the thread at url, creating its record on first sight. The
+   * question becomes the title of a new thread. Returns null when url is not
+   * a thread URL (e.g. the Perplexity home page).
+   */
+  record(url: string, question?: string): ThreadRecord | null {
+    const id = threadIdFromUrl(url);
+    if (!id) return null;
+    this.sync();
+
+    const now = Date.now();
+    const existing = this.records.get(id);
+    const record: ThreadRecord = existing
+      ? { ...existing, url: threadUrl(id), title: existing.title || question || "", updatedAt: now }
+      : { id, url: threadUrl(id), title: question ?? "", createdAt: now, updatedAt: now };
+    // Re-insert so Map order tracks most recent activity
+    this.records.delete(id);
+    this.records.set(id, record);
+    while (this.records.size > MAX_THREADS) {
+      this.records.delete(this.records.keys().next().value!);
+    }
+    this.persist();
+    return record;
+  }
+
+  get(threadId: string): ThreadRecord | null {
+    this.sync();
+    return this.records.get(threadId) ?? null;
+  }
+
+  /** Known threads, most recently used first, with the tab showing each (if open). */
+  async list(limit = DEFAULT_LIST_LIMIT): Promise<ThreadSummary[]> {
+    this.sync();
+    const tabs = await this.deps.listTabs().catch(() => []);
+    return [...this.records.values()]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit)
+      .map((record) => ({
+        ...record,
+        tab_id: tabs.find((t) => threadIdFromUrl(t.url) === record.id)?.id ?? null,
+      }));
+  }
+
+  /**
+   * Bring a thread up in a tab. With tabId, that tab is navigated to the
+   * thread unless it already shows it; otherwise a tab already showing the
+   * thread is reused, or a new one is opened.
+   */
+  async open(threadIdOrUrl: string, tabId?: string): Promise<OpenedThread> {
+    const id = normalizeThreadId(threadIdOrUrl);
+    const url = threadUrl(id);
+    const tabs = await this.deps.listTabs();
+
+    let targetId: string;
+    let opened = false;
+    if (tabId) {
+      const tab = tabs.find((t) => t.id === tabId);
+      if (!tab) throw new Error(`No tab found with ID: ${tabId}`);
+      targetId = tabId;
+      if (threadIdFromUrl(tab.url) !== id) {
+        await this.deps.navigate(tabId, url);
+        opened = true;
+      }
+    } else {
+      const showing = tabs.find((t) => threadIdFromUrl(t.url) === id);
+      if (showing) {
+        targetId = showing.id;
+      } else {
+        targetId = await this.deps.openTab(url);
+        opened = true;
+      }
+    }
+
+    this.record(url);
+    return { thread_id: id, url, tab_id: targetId, opened };
+  }
+
+  /**
+   * Read every question/answer pair of a thread. With threadId the thread is
+   * opened first (in tabId, if given); with only tabId, whatever thread that
+   * tab shows is read; with neither, the main connection's tab is read.
+   */
+  async history(target: { threadId?: string; tabId?: string } = {}): Promise<ThreadHistory> {
+    let tabId = target.tabId;
+    let justOpened = false;
+    if (target.threadId) {
+      const thread = await this.open(target.threadId, tabId);
+      tabId = thread.tab_id;
+      justOpened = thread.opened;
+    }
+
+    // A freshly opened thread renders its turns after the load event
+    const deadline = Date.now() + (justOpened ? this.loadTimeoutMs : 0);
+    const script = threadTurnsScript();
+    let snapshot = (await this.deps.evaluate(tabId, script)) as ThreadTurnsSnapshot;
+    while (snapshot.turns.length === 0 && Date.now() < deadline) {
+      await sleep(this.pollIntervalMs);
+      snapshot = (await this.deps.evaluate(tabId, script)) as ThreadTurnsSnapshot;
+    }
+
+    const turns: ThreadTurn[] = snapshot.turns.map((turn, index) => {
+      const answer = turn.answer;
+      if (answer.markdown.length > MAX_TURN_ANSWER_CHARS) {
+        answer.markdown = answer.markdown.substring(0, MAX_TURN_ANSWER_CHARS);
+      }
+      return { index, question: turn.question, answer };
+    });
+    const record = this.record(snapshot.url, turns[0]?.question);
+    return { thread_id: record?.id ?? null, url: snapshot.url, tab_id: tabId ?? null, turns };
+  }
+
+  /** Merge records another process may have written since the last read. */
+  private sync(): void {
+    if (!this.deps.store) return;
+    let stored: ThreadRecord[];
+    try {
+      stored = this.deps.store.load();
+    } catch {
+      return;
+    }
+    for (const record of stored) {
+      const known = this.records.get(record.id);
+      if (!known || record.updatedAt > known.updatedAt) this.records.set(record.id, record);
+    }
+  }
+
+  /**
+   * Write every record to the store. Store failures are logged, never thrown:
+   * the answer that produced the record has already been read.
+   */
+  private persist(): void {
+    if (!this.deps.store) return;
+    try {
+      this.deps.store.save([...this.records.values()]);
+    } catch (err) {
+      console.error("[threads] Failed to persist threads:", err);
+    }
+  }
+}
+
+// ---- Browser-backed deps ----
+
+/** Threads opened through cometClient and read through pooled sessions. */
+export function browserThreadsDeps(): ThreadsDeps {
+  return {
+    listTabs: async () => (await cometClient.listTargets()).filter((t) => t.type === "page"),
+    openTab: async (url) => {
+      // Open blank and navigate over our own session, so the load can be awaited
+      const target = await cometClient.newTab("about:blank");
+      await cdpSessions.withSession(target.id, (session) => session.navigate(url, true));
+      return target.id;
+    },
+    navigate: async (targetId, url) => {
+      await cdpSessions.withSession(targetId, (session) => session.navigate(url, true));
+    },
+    evaluate: async (targetId, expression) => {
+      const { result, exceptionDetails } = targetId
+        ? await cdpSessions.withSession(targetId, (session) => session.evaluate(expression))
+        : await cometClient.safeEvaluate(expression);
+      if (exceptionDetails) {
+        throw new Error(exceptionDetails.exception?.description ?? exceptionDetails.text);
+      }
+      return result.value;
+    },
+    store: createThreadStore(),
+  };
+}
+
+/** Singleton instance driving the live browser. */
+export const threads = new ThreadManager(browserThreadsDeps());
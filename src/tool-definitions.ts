@@ -0,0 +1,271 @@
+// Tool definitions — names, descriptions and input schemas of the comet_*
+// tools. The MCP server lists them as is; the orchestrator's ToolRouter sees
+// them as local ToolDescriptors. What each tool does is in tool-service.ts.
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_BATCH_PROMPTS } from "./research-batch.js";
+import { MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from "./attachments.js";
+import { CAPTURE_MODES } from "./network-capture.js";
+import { PERPLEXITY_MODES } from "./site-profile.js";
+import type { ToolDescriptor, ToolCategory } from "./types.js";
+
+// ─── MCP tools ───────────────────────────────────────────────────
+
+export const TOOLS: Tool[] = [
+  {
+    name: "comet_connect",
+    description: "Connect to Comet browser (auto-starts if needed). Preserves all existing tabs and tab groups.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clean: { type: "boolean", description: "Close ungrouped non-Perplexity tabs (default: false). Tabs in groups are always preserved." },
+      },
+    },
+  },
+  {
+    name: "comet_ask",
+    description: "Send a prompt to Comet/Perplexity and wait for the complete response (blocking). Ideal for tasks requiring real browser interaction (login walls, dynamic content, filling forms) or deep research with agentic browsing. Pass a progressToken to receive each agent step ('Step: ...') and newly streamed answer text ('Answer: ...') as progress notifications.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: { type: "string", description: "Question or task for Comet - focus on goals and context" },
+        newChat: { type: "boolean", description: "Start a fresh conversation (default: false)" },
+        timeout: { type: "number", description: "Max wait time in ms (default: 15000 = 15s)" },
+        tab_id: { type: "string", description: "CDP target ID of a Perplexity tab to ask in, without moving the main connection (optional; newChat then restarts that tab)" },
+        thread_id: { type: "string", description: "Continue this thread (ID or URL from an earlier comet_ask or comet_threads); reuses a tab showing it or opens one. Cannot be combined with newChat" },
+        capture: {
+          type: "string",
+          enum: CAPTURE_MODES,
+          description: "How to read the answer: 'dom' scrapes the page; 'network' reads Perplexity's response stream for exact text and sources, falling back to the page when the stream is not recognised (default: COMET_ANSWER_CAPTURE, else 'dom')",
+        },
+        attachments: {
+          type: "array",
+          description: `Files to upload with the prompt, e.g. a PDF or screenshot to analyze: a local file path, or { data, name } with base64 (or data: URL) content. At most ${MAX_ATTACHMENTS}, ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB each`,
+          items: {
+            oneOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  path: { type: "string", description: "Local file path" },
+                  data: { type: "string", description: "Base64 file content or data: URL" },
+                  name: { type: "string", description: "File name to upload as (for data)" },
+                },
+              },
+            ],
+          },
+        },
+      },
+      required: ["prompt"],
+    },
+  },
+  {
+    name: "comet_threads",
+    description: "List, reopen and read Perplexity conversation threads. 'list' shows threads comet_ask has used, newest first; 'open' brings a thread up in a tab and returns its tab_id; 'history' returns every question and answer of a thread as structured turns.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: { type: "string", enum: ["list", "open", "history"], description: "Operation to perform (default: list)" },
+        thread_id: { type: "string", description: "Thread ID or URL (required for open; for history, omit to read the thread in tab_id or the main tab)" },
+        tab_id: { type: "string", description: "CDP target ID of the tab to open or read the thread in (optional)" },
+        limit: { type: "number", description: "Max threads to list (default: 50)" },
+      },
+    },
+  },
+  {
+    name: "comet_research_batch",
+    description: `Run several prompts in parallel, each in its own Perplexity tab, and return every answer together. Tabs are polled at the same time, so 10 prompts take about as long as the slowest one. Does not move the tab comet_ask uses. At most ${MAX_BATCH_PROMPTS} prompts. Pass a progressToken to be notified as each prompt finishes.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompts: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          minItems: 1,
+          maxItems: MAX_BATCH_PROMPTS,
+          description: "Questions to research, one tab each",
+        },
+        timeout: { type: "number", description: "Max wait for all answers in ms (default: 120000 = 2min)" },
+        group: { type: "boolean", description: "Collect the tabs in a new tab group (requires the Tab Groups Bridge extension; default: false)" },
+        group_title: { type: "string", description: "Tab group title (implies group; default: 'Research batch')" },
+        group_color: {
+          type: "string",
+          enum: ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"],
+          description: "Tab group color (implies group)",
+        },
+        close_tabs: { type: "boolean", description: "Close the tabs once answers are collected (default: false)" },
+      },
+      required: ["prompts"],
+    },
+  },
+  {
+    name: "comet_poll",
+    description: "Check agent status and progress. Call repeatedly to monitor agentic tasks.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Orchestrator task ID to check (optional — omit for Comet AI agent status)" },
+        tab_id: { type: "string", description: "CDP target ID of the tab to check (optional — omit for the main tab)" },
+      },
+    },
+  },
+  {
+    name: "comet_stop",
+    description: "Stop the current agent task if it's going off track",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string", description: "Orchestrator task ID to cancel (optional — omit to stop Comet AI agent)" },
+        tab_id: { type: "string", description: "CDP target ID of the tab whose agent to stop (optional — omit for the main tab)" },
+      },
+    },
+  },
+  {
+    name: "comet_screenshot",
+    description: "Capture a screenshot of current page",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "comet_mode",
+    description: "Switch Perplexity search mode. Modes: 'search' (basic), 'research' (deep research), 'labs' (analytics/visualization), 'learn' (educational). Call without mode to see current mode.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mode: {
+          type: "string",
+          enum: PERPLEXITY_MODES,
+          description: "Mode to switch to (optional - omit to see current mode)",
+        },
+      },
+    },
+  },
+  {
+    name: "comet_selfcheck",
+    description:
+      "Check the site profile (the selectors and UI strings used to drive Perplexity) against the live page and report which ones no longer match. Checks that need an open thread or a running agent are 'unverified' otherwise. Re-reads the profile override file first.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tab_id: { type: "string", description: "Tab to check (from comet_tab_groups list_tabs). Defaults to the connected tab." },
+      },
+    },
+  },
+  {
+    name: "comet_tab_groups",
+    description:
+      "Manage Chrome tab groups in Comet browser. Requires the Comet Tab Groups Bridge extension (load unpacked from extension/ dir). " +
+      "Actions: list (all groups), list_tabs (all tabs with group info), create (new group from tab IDs), " +
+      "update (rename/recolor/collapse), move (reorder), ungroup (remove tabs from group), delete (ungroup all tabs in a group).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "list_tabs", "create", "update", "move", "ungroup", "delete"],
+          description: "The tab group operation to perform",
+        },
+        tabIds: {
+          type: "array",
+          items: { type: "number" },
+          description: "Tab IDs (for create, ungroup)",
+        },
+        groupId: {
+          type: "number",
+          description: "Group ID (for update, move, delete)",
+        },
+        title: {
+          type: "string",
+          description: "Group title (for create, update)",
+        },
+        color: {
+          type: "string",
+          enum: ["grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"],
+          description: "Group color (for create, update)",
+        },
+        collapsed: {
+          type: "boolean",
+          description: "Collapse/expand group (for update)",
+        },
+        index: {
+          type: "number",
+          description: "Position index (for move)",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "comet_health",
+    description: "Check health of all Comet infrastructure components",
+    inputSchema: {
+      type: "object",
+      properties: {
+        force: { type: "boolean", description: "Bypass cache and run fresh probes (default: false)" },
+      },
+    },
+  },
+  {
+    name: "comet_delegate",
+    description: "Delegate a task to the Comet orchestration layer",
+    inputSchema: {
+      type: "object",
+      properties: {
+        description: { type: "string", description: "Natural-language task description" },
+        target_tab: { type: "string", description: "Tab ID to target (optional)" },
+        timeout_ms: {
+          type: "number",
+          description:
+            "Max execution time in ms (default: 60000). A comet_ask step still running then is stopped; other tools run to completion, keeping their tab busy until they do",
+        },
+        async: { type: "boolean", description: "Return immediately with task ID and run in the background; poll with comet_poll task_id (default: false)" },
+        template: { type: "string", description: "Force a specific template name (optional)" },
+      },
+      required: ["description"],
+    },
+  },
+  {
+    name: "comet_monitor",
+    description: "Get comet-monitor state data",
+    inputSchema: {
+      type: "object",
+      properties: {
+        section: {
+          type: "string",
+          enum: ["windows", "tabs", "all"],
+          description: "Which section to return (default: all)",
+        },
+      },
+    },
+  },
+];
+
+// ─── Router descriptors ──────────────────────────────────────────
+
+const TOOL_CATEGORIES: Record<string, ToolCategory> = {
+  comet_connect: "meta",
+  comet_ask: "ai",
+  comet_research_batch: "ai",
+  comet_poll: "ai",
+  comet_stop: "ai",
+  comet_threads: "ai",
+  comet_screenshot: "monitor",
+  comet_mode: "ai",
+  comet_selfcheck: "monitor",
+  comet_tab_groups: "tab",
+  comet_health: "monitor",
+  comet_delegate: "meta",
+  comet_monitor: "monitor",
+};
+
+/** The tools as ToolRouter descriptors, so orchestrated steps can call them. */
+export function localToolDescriptors(): ToolDescriptor[] {
+  return TOOLS.map((t) => ({
+    name: t.name,
+    qualifiedName: `mcp:${t.name}`,
+    server: "comet-mcp",
+    category: TOOL_CATEGORIES[t.name] ?? "meta",
+    schema: t.inputSchema as Record<string, unknown>,
+    description: t.description ?? "",
+    isCanonical: true,
+  }));
+}
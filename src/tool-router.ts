@@ -8,6 +8,7 @@ import {
   SERVER_NAME_TO_ALIAS,
   TOOL_COLLISIONS,
 } from "./types.js";
+import { schemaProblems, type JsonSchema } from "./json-schema.js";
 
 export interface PythonBridge {
   callTool: (
@@ -17,22 +18,86 @@ export interface PythonBridge {
   listTools: () => Promise<ToolDescriptor[]>;
 }
 
+/**
+ * Executes a comet-mcp tool in-process. Resolves with the tool's output;
+ * throws (or rejects) on failure. When signal aborts, the tool stops what it
+ * is doing in the browser and gives up the tab.
+ */
+export type LocalToolHandler = (
+  name: string,
+  params: Record<string, unknown>,
+  signal?: AbortSignal,
+) => Promise<unknown>;
+
+export interface ToolMetrics {
+  calls: number;
+  failures: number;
+  total_ms: number;
+  last_ms: number | null;
+  lastError: string | null;
+}
+
+// Local tools that never touch the Perplexity tab. comet_delegate in particular
+// must bypass the mutex: its steps re-enter invoke() for comet_ask etc.
+// comet_research_batch drives tabs of its own over separate connections.
+const LOCK_FREE_LOCAL_TOOLS = new Set([
+  "comet_delegate",
+  "comet_health",
+  "comet_monitor",
+  "comet_research_batch",
+]);
+
+// Lock key for calls without a tab_id, which run on cometClient's connection
+const MAIN_TAB_KEY = "";
+
+class AsyncMutex {
+  private locked = false;
+  private waiters: (() => void)[] = [];
+
+  async acquire(): Promise<void> {
+    if (!this.locked) {
+      this.locked = true;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) next();
+    else this.locked = false;
+  }
+}
+
 export class ToolRouter {
   private inventory: ToolDescriptor[] = [];
   private localTools: ToolDescriptor[];
   private pythonBridge: PythonBridge;
+  private localHandler: LocalToolHandler | null;
+  // Local tools drive a Perplexity tab, so calls on the same tab run one at a
+  // time. Calls naming a tab_id (pooled sessions) only wait for that tab.
+  private tabMutexes = new Map<string, AsyncMutex>();
+  private metrics = new Map<string, ToolMetrics>();
 
-  constructor(localTools: ToolDescriptor[], pythonBridge: PythonBridge) {
+  constructor(
+    localTools: ToolDescriptor[],
+    pythonBridge: PythonBridge,
+    localHandler?: LocalToolHandler,
+  ) {
     this.localTools = localTools;
     this.pythonBridge = pythonBridge;
+    this.localHandler = localHandler ?? null;
+    // Local tools are routable before (or without) a successful initialize()
+    this.inventory = this.buildInventory(localTools);
   }
 
   async initialize(): Promise<void> {
     const remoteTool = await this.pythonBridge.listTools();
+    this.inventory = this.buildInventory([...this.localTools, ...remoteTool]);
+  }
 
-    const allTools = [...this.localTools, ...remoteTool];
-
-    this.inventory = allTools.map((tool) => {
+  private buildInventory(allTools: ToolDescriptor[]): ToolDescriptor[] {
+    return allTools.map((tool) => {
       const alias = SERVER_NAME_TO_ALIAS[tool.server];
       const qualifiedName = `${alias}:${tool.name}`;
 
@@ -72,9 +137,15 @@ export class ToolRouter {
     return this.inventory.filter((t) => t.category === category);
   }
 
+  /**
+   * Run a tool by plain or qualified name. signal stops a local tool that is
+   * still running (or still waiting for its tab); browser-server tools run to
+   * the end of their own RPC timeout.
+   */
   async invoke(
     toolName: string,
     params: Record<string, unknown>,
+    signal?: AbortSignal,
   ): Promise<ToolResult> {
     const tool = this.findTool(toolName);
     if (!tool) {
@@ -88,11 +159,111 @@ export class ToolRouter {
       };
     }
 
-    if (tool.server === "comet-browser") {
-      return this.pythonBridge.callTool(tool.name, params);
+    // Local and Python-bridge tools alike: nothing runs with arguments that do
+    // not fit the tool's inputSchema (from TOOLS, or PythonBridge.listTools())
+    const problems = schemaProblems(tool.schema as JsonSchema, params);
+    const result: ToolResult =
+      problems.length > 0
+        ? {
+            toolName: tool.name,
+            server: tool.server,
+            success: false,
+            data: { invalid_fields: problems },
+            duration_ms: 0,
+            error: `Invalid arguments for ${tool.name}: ${problems.map((p) => p.message).join("; ")}`,
+          }
+        : tool.server === "comet-browser"
+          ? await this.pythonBridge.callTool(tool.name, params)
+          : await this.invokeLocal(tool.name, params, signal);
+    this.record(tool.qualifiedName, result);
+    return result;
+  }
+
+  /** Per-tool call counts and timings, keyed by qualified name. */
+  getMetrics(): Record<string, ToolMetrics> {
+    return Object.fromEntries(
+      [...this.metrics.entries()].map(([name, m]) => [name, { ...m }]),
+    );
+  }
+
+  private async invokeLocal(
+    toolName: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<ToolResult> {
+    const base = { toolName, server: "comet-mcp" as ServerName };
+    if (!this.localHandler) {
+      return {
+        ...base,
+        success: false,
+        data: null,
+        duration_ms: 0,
+        error: `No local handler configured for ${toolName}`,
+      };
+    }
+
+    const handler = this.localHandler;
+    return this.withTabLock(toolName, params, async () => {
+      const startMs = Date.now();
+      try {
+        // Given up while queued for the tab: do not start
+        signal?.throwIfAborted();
+        const data = await handler(toolName, params, signal);
+        return { ...base, success: true, data, duration_ms: Date.now() - startMs };
+      } catch (err) {
+        return {
+          ...base,
+          success: false,
+          data: null,
+          duration_ms: Date.now() - startMs,
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    });
+  }
+
+  /**
+   * Run fn holding the lock of the tab a local tool call drives (params.tab_id,
+   * or the main tab). Tool calls that do not go through invoke(), such as MCP
+   * and REST requests, take the same lock so they queue behind orchestrated
+   * steps instead of interleaving with them.
+   */
+  async withTabLock<T>(toolName: string, params: Record<string, unknown>, fn: () => Promise<T>): Promise<T> {
+    const mutex = LOCK_FREE_LOCAL_TOOLS.has(toolName) ? null : this.mutexFor(params);
+    await mutex?.acquire();
+    try {
+      return await fn();
+    } finally {
+      mutex?.release();
     }
+  }
 
-    throw new Error("local invocation not wired");
+  private mutexFor(params: Record<string, unknown>): AsyncMutex {
+    const tab = typeof params.tab_id === "string" ? params.tab_id : MAIN_TAB_KEY;
+    let mutex = this.tabMutexes.get(tab);
+    if (!mutex) {
+      mutex = new AsyncMutex();
+      this.tabMutexes.set(tab, mutex);
+    }
+    return mutex;
+  }
+
+  private record(qualifiedName: string, result: ToolResult): void {
+    const m = this.metrics.get(qualifiedName) ?? {
+      calls: 0,
+      failures: 0,
+      total_ms: 0,
+      last_ms: null,
+      lastError: null,
+    };
+    m.calls++;
+    m.total_ms += result.duration_ms;
+    m.last_ms = result.duration_ms;
+    if (!result.success) {
+      m.failures++;
+      m.lastError = result.error ?? null;
+    }
+    this.metrics.set(qualifiedName, m);
   }
 
   async isServerAvailable(server: ServerName): Promise<boolean> {
@@ -0,0 +1,814 @@
+// Tool service — what the comet_* tools do, independent of transport.
+//
+// The MCP server (mcp-server.ts, over stdio or Streamable HTTP), the REST
+// routes (http-server.ts) and the orchestrator's ToolRouter all run tools
+// here. Each call returns a ToolOutput: structured data (the HTTP response
+// body and MCP structuredContent) plus a text rendering (the MCP text
+// content). The adapters only map that onto their wire format, so a fix here
+// lands in every transport at once.
+
+import { cometClient } from "./cdp-client.js";
+import { cdpSessions, type PageDriver } from "./cdp-sessions.js";
+import { CometAI, cometAI, formatAnswer } from "./comet-ai.js";
+import { researchBatch, researchBatchOptionsFrom, type ResearchBatchOptions, type ResearchBatchResult } from "./research-batch.js";
+import { threads, type ThreadRecord } from "./threads.js";
+import { prepareAttachments } from "./attachments.js";
+import { CAPTURE_MODES, defaultCaptureMode, settledAnswerSource, type CaptureMode } from "./network-capture.js";
+import { loadSiteProfile, runSelfcheck, siteProfile, type SelfcheckReport } from "./site-profile.js";
+import { tabGroupsClient, type TabGroupColor } from "./tab-groups.js";
+import { TOOLS } from "./tool-definitions.js";
+import { schemaProblems, type JsonSchema, type SchemaProblem } from "./json-schema.js";
+import type { CometOrchestrator } from "./orchestrator.js";
+
+// ─── Types ───────────────────────────────────────────────────────
+
+/**
+ * Why a call did not succeed:
+ *   invalid      bad arguments (HTTP 400)
+ *   not_found    the task, thread or group named does not exist (HTTP 404)
+ *   unavailable  a service the tool needs is not there (HTTP 503)
+ *   failed       the tool ran but its work failed; data says how (HTTP 200)
+ */
+export type ToolErrorKind = "invalid" | "not_found" | "unavailable" | "failed";
+
+export interface ToolOutput {
+  /** Structured result: the HTTP response body and MCP structuredContent. */
+  data: Record<string, unknown>;
+  /** Human-readable rendering: the MCP text content. */
+  text: string;
+  /** Image content (screenshots), sent to MCP clients instead of the text. */
+  image?: { data: string; mimeType: string };
+  /** Set when the call did not succeed. */
+  error?: ToolErrorKind;
+}
+
+/** Receives human-readable progress updates while a tool is running. */
+export type ProgressReporter = (message: string) => Promise<void>;
+
+/** A ToolOutput as an MCP CallTool result. A type, not an interface, so it fits the SDK's indexed result type. */
+export type McpToolResponse = {
+  content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+export interface ToolServiceDeps {
+  /** The orchestrator once it exists; orchestration tools are unavailable until then. */
+  orchestrator: () => CometOrchestrator | null;
+  /**
+   * Runs fn holding the tab lock orchestrated steps use (ToolRouter.withTabLock),
+   * so calls from every client and transport take turns on a tab.
+   */
+  withTabLock?: <T>(toolName: string, params: Record<string, unknown>, fn: () => Promise<T>) => Promise<T>;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+const PERPLEXITY_URL = "https://www.perplexity.ai/";
+
+// Tools that watch or interrupt a tab while another call is driving it:
+// comet_stop must reach an agent a long comet_ask is still waiting on.
+const UNLOCKED_TOOLS = new Set(["comet_poll", "comet_stop", "comet_screenshot"]);
+
+const MODE_DESCRIPTIONS: Record<string, string> = {
+  search: "Basic web search",
+  research: "Deep research with comprehensive analysis",
+  labs: "Analytics, visualizations, and coding",
+  learn: "Educational content and explanations",
+};
+
+function ok(data: Record<string, unknown>, text: string): ToolOutput {
+  return { data, text };
+}
+
+function fail(error: ToolErrorKind, message: string, text = `Error: ${message}`): ToolOutput {
+  return { data: { error: message }, text, error };
+}
+
+// Input schemas by tool name. Arguments are checked against them before a tool
+// runs: values such as comet_mode's mode end up in scripts evaluated in the page.
+const TOOL_SCHEMAS = new Map(TOOLS.map((t) => [t.name, t.inputSchema as JsonSchema]));
+
+/** An "invalid" result listing every argument that does not fit the tool's schema. */
+function invalidArguments(toolName: string, problems: SchemaProblem[]): ToolOutput {
+  const message = `Invalid arguments for ${toolName}: ${problems.map((p) => p.message).join("; ")}`;
+  return { data: { error: message, invalid_fields: problems }, text: `Error: ${message}`, error: "invalid" };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run fn on the tab named by tab_id through a pooled CDP session, or on the
+ * shared cometClient connection when no tab is named.
+ */
+async function onTab<T>(tabId: string | undefined, fn: (page: PageDriver, ai: CometAI) => Promise<T>): Promise<T> {
+  if (!tabId) return fn(cometClient, cometAI);
+  return cdpSessions.withSession(tabId, (session) => fn(session, new CometAI(session)));
+}
+
+/** Remember the thread the page now shows, if it is one; prompt titles a new thread. */
+async function recordThread(page: PageDriver, prompt: string): Promise<ThreadRecord | null> {
+  const href = (await page.evaluate("window.location.href").catch(() => null))?.result.value;
+  return typeof href === "string" ? threads.record(href, prompt) : null;
+}
+
+function threadLine(thread: ThreadRecord | null): string {
+  return thread ? `\n\nThread: ${thread.url} (thread_id: ${thread.id})` : "";
+}
+
+function formatSelfcheck(report: SelfcheckReport): string {
+  const source = report.source ?? "built-in";
+  let text = `Site profile ${report.profile} (v${report.version}, locale ${report.locale}, ${source})\n`;
+  text += `Page: ${report.url}\n`;
+  if (!report.onPerplexity) text += `Not on Perplexity — open perplexity.ai to verify selectors.\n`;
+  text += report.ok ? `All checks passed.\n` : report.broken.length > 0 ? `Broken: ${report.broken.join(", ")}\n` : "";
+  text += "\n" + report.checks
+    .map((c) => `${c.status.padEnd(10)} ${c.name} (${c.matches.map((m) => m ?? "invalid").join("/")})`)
+    .join("\n");
+  return text;
+}
+
+/** Text of a task's final payload: the last step's MCP text content, or JSON. */
+function describeTaskPayload(payload: unknown): string {
+  const content = (payload as McpToolResponse | null)?.content;
+  if (Array.isArray(content)) {
+    return content.filter((c) => c.type === "text" && c.text).map((c) => c.text).join("\n");
+  }
+  return typeof payload === "string" ? payload : JSON.stringify(payload, null, 2);
+}
+
+/** Map a ToolOutput onto an MCP CallTool result. */
+export function toMcpResponse(output: ToolOutput): McpToolResponse {
+  return {
+    content: output.image
+      ? [{ type: "image", data: output.image.data, mimeType: output.image.mimeType }]
+      : [{ type: "text", text: output.text }],
+    ...(output.image ? {} : { structuredContent: output.data }),
+    ...(output.error ? { isError: true } : {}),
+  };
+}
+
+// ─── Service ─────────────────────────────────────────────────────
+
+export class ToolService {
+  constructor(private readonly deps: ToolServiceDeps) {}
+
+  /**
+   * Run a comet_* tool for a client, holding its tab's lock. Throws on
+   * unknown tools and unexpected failures (CDP errors and the like).
+   */
+  async call(name: string, args: Record<string, unknown>, onProgress?: ProgressReporter): Promise<ToolOutput> {
+    const schema = TOOL_SCHEMAS.get(name);
+    const problems = schema ? schemaProblems(schema, args) : [];
+    if (problems.length > 0) return invalidArguments(name, problems);
+
+    const { withTabLock } = this.deps;
+    if (!withTabLock || UNLOCKED_TOOLS.has(name)) return this.dispatch(name, args, onProgress);
+    return withTabLock(name, args, () => this.dispatch(name, args, onProgress));
+  }
+
+  /**
+   * LocalToolHandler for the ToolRouter, which already holds the tab lock and
+   * has checked the arguments: orchestrated steps record the MCP response
+   * (step expressions read its structuredContent), and a call that did not
+   * succeed throws so the router reports success: false. signal stops a
+   * comet_ask the step's timeout has given up on.
+   */
+  readonly runStep = async (name: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<McpToolResponse> => {
+    const output = await this.dispatch(name, params, undefined, signal);
+    if (output.error) throw new Error((output.data.error as string | undefined) ?? `${name} failed`);
+    return toMcpResponse(output);
+  };
+
+  private async dispatch(
+    name: string,
+    args: Record<string, unknown>,
+    onProgress?: ProgressReporter,
+    signal?: AbortSignal,
+  ): Promise<ToolOutput> {
+    switch (name) {
+      case "comet_connect": return this.connect(args);
+      case "comet_ask": return this.ask(args, onProgress, signal);
+      case "comet_research_batch": return this.runBatch(args, onProgress);
+      case "comet_poll": return this.poll(args);
+      case "comet_stop": return this.stop(args);
+      case "comet_threads": return this.threadAction(args);
+      case "comet_screenshot": return this.screenshot();
+      case "comet_mode": return this.mode(args);
+      case "comet_selfcheck": return this.selfcheck(args);
+      case "comet_tab_groups": return this.tabGroups(args);
+      case "comet_health": return this.health(args);
+      case "comet_delegate": return this.delegate(args);
+      case "comet_monitor": return this.monitor(args);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private orchestrator(): CometOrchestrator | null {
+    return this.deps.orchestrator();
+  }
+
+  // ---- Browsing ----
+
+  private async connect(args: Record<string, unknown>): Promise<ToolOutput> {
+    const clean = (args.clean as boolean) || false;
+    const startResult = await cometClient.startComet();
+
+    // List all targets — observe, don't destroy
+    const targets = await cometClient.listTargets();
+    const pageTabs = targets.filter((t) => t.type === "page");
+
+    const perplexityTab = pageTabs.find((t) => t.url?.includes("perplexity.ai"));
+    let connectedTo: string;
+    let connectedTabId: string;
+
+    if (perplexityTab) {
+      await cometClient.connect(perplexityTab.id);
+      connectedTo = "existing Perplexity tab";
+      connectedTabId = perplexityTab.id;
+    } else {
+      const newTab = await cometClient.newTab(PERPLEXITY_URL);
+      await sleep(2000);
+      await cometClient.connect(newTab.id);
+      connectedTo = pageTabs.length > 0 ? "new Perplexity tab" : "new Perplexity tab (browser was empty)";
+      connectedTabId = newTab.id;
+    }
+
+    // Optional cleanup: only close ungrouped non-Perplexity tabs
+    let cleanedCount = 0;
+    let cleanSkipped: string | null = null;
+    if (clean && pageTabs.length > 1) {
+      let groupedUrls: Set<string> | null = null;
+      try {
+        const allTabs = await tabGroupsClient.listTabs();
+        groupedUrls = new Set(allTabs.filter((t) => t.groupId !== -1 && t.url).map((t) => t.url));
+      } catch {
+        cleanSkipped = "tab groups extension not available";
+      }
+
+      for (const tab of groupedUrls ? pageTabs : []) {
+        if (tab.id === connectedTabId) continue;
+        if (tab.url?.includes("perplexity.ai")) continue;
+        if (groupedUrls!.has(tab.url)) continue;
+        try {
+          await cometClient.closeTab(tab.id);
+          cleanedCount++;
+        } catch { /* ignore */ }
+      }
+    }
+
+    let groupCount: number | null = null;
+    if (!cleanSkipped) {
+      try {
+        groupCount = (await tabGroupsClient.listGroups()).length;
+      } catch { /* extension not available */ }
+    }
+
+    const tabCount = pageTabs.length - cleanedCount;
+    const message = cleanSkipped
+      ? `${startResult}\nConnected to ${connectedTo} (${tabCount} tabs preserved — clean skipped, ${cleanSkipped})`
+      : `${startResult}\nConnected to ${connectedTo} (${tabCount} tabs${groupCount !== null ? `, ${groupCount} groups` : ""} preserved` +
+        `${cleanedCount > 0 ? `, cleaned ${cleanedCount} ungrouped tabs` : ""})`;
+    return ok({
+      message,
+      connected: true,
+      tab: connectedTo,
+      tab_id: connectedTabId,
+      tabs: tabCount,
+      groups: groupCount,
+      cleaned: cleanedCount,
+    }, message);
+  }
+
+  private async ask(args: Record<string, unknown>, onProgress?: ProgressReporter, signal?: AbortSignal): Promise<ToolOutput> {
+    let prompt = args.prompt as string;
+    const timeout = (args.timeout as number) || 15000;
+    const newChat = (args.newChat as boolean) || false;
+    const threadId = args.thread_id as string | undefined;
+    const captureMode = (args.capture as CaptureMode | undefined) ?? defaultCaptureMode();
+    let tabId = args.tab_id as string | undefined;
+
+    if (!prompt || prompt.trim().length === 0) {
+      return fail("invalid", "prompt cannot be empty");
+    }
+    if (threadId && newChat) {
+      return fail("invalid", "thread_id cannot be combined with newChat");
+    }
+    if (!CAPTURE_MODES.includes(captureMode)) {
+      return fail("invalid", `capture must be one of ${CAPTURE_MODES.join(", ")}`);
+    }
+
+    prompt = prompt
+      .replace(/^[-*•]\s*/gm, "")
+      .replace(/\n+/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    // A thread is continued in whichever tab shows it
+    if (threadId) {
+      tabId = (await threads.open(threadId, tabId)).tab_id;
+    }
+
+    // newChat: open a fresh Perplexity tab (preserves existing tabs)
+    if (newChat && !tabId) {
+      const newTab = await cometClient.newTab(PERPLEXITY_URL);
+      await sleep(2000);
+      await cometClient.connect(newTab.id);
+    } else if (!tabId) {
+      const tabs = await cometClient.listTabsCategorized();
+      if (tabs.main) {
+        await cometClient.connect(tabs.main.id);
+      }
+    }
+
+    return onTab(tabId, async (page, ai) => {
+      const proseSelector = JSON.stringify(siteProfile().selectors.answerProse);
+      const urlResult = await page.evaluate("window.location.href");
+      const currentUrl = urlResult.result.value as string;
+      const isOnPerplexity = currentUrl?.includes("perplexity.ai");
+
+      // A named tab starts its fresh conversation in place
+      if (!isOnPerplexity || (newChat && tabId)) {
+        await page.navigate(PERPLEXITY_URL, true);
+        await sleep(2000);
+      }
+
+      const oldStateResult = await page.evaluate(`
+        (() => {
+          const proseEls = document.querySelectorAll(${proseSelector});
+          const lastProse = proseEls[proseEls.length - 1];
+          return {
+            count: proseEls.length,
+            lastText: lastProse ? lastProse.innerText.substring(0, 100) : ''
+          };
+        })()
+      `);
+      const oldState = oldStateResult.result.value as { count: number; lastText: string };
+
+      const capture = captureMode === "network" ? page.startAnswerCapture() : null;
+      try {
+        // Temp files for base64 attachments are only needed until uploaded
+        const attachments = args.attachments !== undefined ? prepareAttachments(args.attachments) : null;
+        try {
+          await ai.sendPrompt(prompt, attachments?.paths);
+        } finally {
+          attachments?.cleanup();
+        }
+
+        const startTime = Date.now();
+        const stepsCollected: string[] = [];
+        let sawNewResponse = false;
+        let reportedText = "";
+        let domCompletedAt: number | null = null;
+
+        while (Date.now() - startTime < timeout) {
+          await sleep(2000);
+          if (signal?.aborted) {
+            // Given up on by the caller: stop the agent as comet_stop would, and free the tab
+            await ai.stopAgent().catch(() => false);
+            throw signal.reason;
+          }
+
+          const currentStateResult = await page.evaluate(`
+            (() => {
+              const proseEls = document.querySelectorAll(${proseSelector});
+              const lastProse = proseEls[proseEls.length - 1];
+              const text = lastProse ? lastProse.innerText : '';
+              return {
+                count: proseEls.length,
+                lastText: text.substring(0, 100),
+                text: text.substring(0, 20000)
+              };
+            })()
+          `);
+          const currentState = currentStateResult.result.value as { count: number; lastText: string; text: string };
+
+          if (!sawNewResponse) {
+            if (currentState.count > oldState.count ||
+                (currentState.lastText && currentState.lastText !== oldState.lastText)) {
+              sawNewResponse = true;
+            }
+          }
+
+          const status = await ai.getAgentStatus();
+
+          for (const step of status.steps) {
+            if (!stepsCollected.includes(step)) {
+              stepsCollected.push(step);
+              await onProgress?.(`Step: ${step}`);
+            }
+          }
+
+          // Stream only the text appended since the last update; resend in full if it was rewritten
+          if (onProgress && sawNewResponse && currentState.text && currentState.text !== reportedText) {
+            const delta = currentState.text.startsWith(reportedText)
+              ? currentState.text.substring(reportedText.length)
+              : currentState.text;
+            reportedText = currentState.text;
+            if (delta.trim()) await onProgress(`Answer: ${delta}`);
+          }
+
+          // The captured stream wins; the page's answer is the fallback
+          const domCompleted = status.status === "completed" && sawNewResponse;
+          domCompletedAt = domCompleted ? domCompletedAt ?? Date.now() : null;
+          const source = settledAnswerSource(capture?.result(), domCompletedAt === null ? null : Date.now() - domCompletedAt);
+          if (source) {
+            const answer = source === "network" ? capture!.result().answer : status.answer;
+            const thread = await recordThread(page, prompt);
+            const text = answer
+              ? formatAnswer(answer) + threadLine(thread)
+              : `Task completed (no response text extracted)${threadLine(thread)}`;
+            return ok({
+              status: "completed",
+              response: answer?.markdown || "Task completed (no response text extracted)",
+              answer: answer ?? null,
+              extraction: source,
+              thread_id: thread?.id ?? null,
+              url: thread?.url ?? null,
+              tab_id: tabId ?? null,
+            }, text);
+          }
+        }
+
+        // Timeout — report what the agent is doing
+        const finalStatus = await ai.getAgentStatus();
+        const thread = await recordThread(page, prompt);
+        const message = `Task in progress (${stepsCollected.length} steps so far).`;
+        let text = `${message}\n`;
+        text += `Status: ${finalStatus.status.toUpperCase()}\n`;
+        if (finalStatus.currentStep) {
+          text += `Current: ${finalStatus.currentStep}\n`;
+        }
+        if (finalStatus.agentBrowsingUrl) {
+          text += `Browsing: ${finalStatus.agentBrowsingUrl}\n`;
+        }
+        if (stepsCollected.length > 0) {
+          text += `\nSteps:\n${stepsCollected.map((s) => `  • ${s}`).join("\n")}\n`;
+        }
+        const sameTab = tabId ? ` with tab_id "${tabId}"` : "";
+        text += `\nUse comet_poll${sameTab} to check progress or comet_stop${sameTab} to cancel.`;
+        text += threadLine(thread);
+
+        return ok({
+          status: "in_progress",
+          message,
+          agentStatus: finalStatus.status,
+          thread_id: thread?.id ?? null,
+          url: thread?.url ?? null,
+          tab_id: tabId ?? null,
+          steps: stepsCollected,
+          currentStep: finalStatus.currentStep || null,
+          agentBrowsingUrl: finalStatus.agentBrowsingUrl || null,
+        }, text);
+      } finally {
+        capture?.stop();
+      }
+    });
+  }
+
+  private async runBatch(args: Record<string, unknown>, onProgress?: ProgressReporter): Promise<ToolOutput> {
+    let options: ResearchBatchOptions;
+    try {
+      options = researchBatchOptionsFrom(args);
+    } catch (err) {
+      return fail("invalid", errorMessage(err));
+    }
+    let batch: ResearchBatchResult;
+    try {
+      batch = await researchBatch.run({
+        ...options,
+        onSettled: (item, settled, total) =>
+          onProgress?.(`Done ${settled}/${total} (${item.status}): ${item.prompt.substring(0, 60)}`),
+      });
+    } catch (err) {
+      // run() only throws for prompts it will not take (e.g. whitespace only)
+      return fail("invalid", errorMessage(err));
+    }
+
+    const seconds = (batch.duration_ms / 1000).toFixed(1);
+    let text = `Research batch: ${batch.completed}/${batch.total} answered in ${seconds}s`;
+    if (batch.group && "groupId" in batch.group) text += ` (tab group "${batch.group.title}")`;
+    if (batch.group && "error" in batch.group) text += ` (not grouped: ${batch.group.error})`;
+    for (const item of batch.results) {
+      text += `\n\n## [${item.index + 1}] ${item.prompt}\n`;
+      text += item.answer
+        ? formatAnswer(item.answer)
+        : `${item.status.toUpperCase()}: ${item.error ?? "no answer"}`;
+      if (item.url) text += `\nThread: ${item.url}`;
+    }
+    return {
+      data: batch as unknown as Record<string, unknown>,
+      text,
+      ...(batch.status === "failure" ? { error: "failed" as const } : {}),
+    };
+  }
+
+  private async poll(args: Record<string, unknown>): Promise<ToolOutput> {
+    const taskId = args.task_id as string | undefined;
+
+    if (taskId) {
+      const orchestrator = this.orchestrator();
+      if (!orchestrator) return fail("unavailable", "Orchestrator not initialized");
+      const task = orchestrator.getTaskStatus(taskId);
+      if (!task) return fail("not_found", `No task found with ID: ${taskId}`);
+
+      let text = `Task ${task.id}\n`;
+      text += `State: ${task.state.toUpperCase()}\n`;
+      text += `Steps: ${task.currentStepIndex}/${task.steps.length}\n`;
+      if (task.startedAt) {
+        const elapsed = (task.completedAt ?? Date.now()) - task.startedAt;
+        text += `Duration: ${elapsed}ms\n`;
+      }
+      for (const step of task.steps) {
+        const icon = step.status === "completed" ? "✓" : step.status === "running" ? "…" : step.status === "failed" ? "✗" : "·";
+        text += `  ${icon} ${step.toolName} [${step.status}]${step.duration_ms != null ? ` ${step.duration_ms}ms` : ""}\n`;
+      }
+      if (task.result?.error) {
+        text += `Error: ${task.result.error.code} — ${task.result.error.message}\n`;
+      }
+      if (task.result && task.result.payload != null) {
+        text += `\nResult:\n${describeTaskPayload(task.result.payload)}`;
+      }
+      return ok({
+        task_id: task.id,
+        state: task.state,
+        currentStepIndex: task.currentStepIndex,
+        steps_total: task.steps.length,
+        startedAt: task.startedAt ?? null,
+        completedAt: task.completedAt ?? null,
+        result: task.result ?? null,
+      }, text);
+    }
+
+    const status = await onTab(args.tab_id as string | undefined, (_page, ai) => ai.getAgentStatus());
+
+    if (status.status === "completed" && status.answer) {
+      return ok({
+        status: "completed",
+        response: status.response,
+        answer: status.answer,
+        steps: status.steps,
+      }, formatAnswer(status.answer));
+    }
+
+    let text = `Status: ${status.status.toUpperCase()}\n`;
+    if (status.agentBrowsingUrl) {
+      text += `Browsing: ${status.agentBrowsingUrl}\n`;
+    }
+    if (status.currentStep) {
+      text += `Current: ${status.currentStep}\n`;
+    }
+    if (status.steps.length > 0) {
+      text += `\nSteps:\n${status.steps.map((s) => `  • ${s}`).join("\n")}\n`;
+    }
+    if (status.status === "working") {
+      text += `\n[Use comet_stop to interrupt, or comet_screenshot to see current page]`;
+    }
+
+    return ok({
+      status: status.status,
+      steps: status.steps,
+      currentStep: status.currentStep || null,
+      agentBrowsingUrl: status.agentBrowsingUrl || null,
+    }, text);
+  }
+
+  private async stop(args: Record<string, unknown>): Promise<ToolOutput> {
+    const taskId = args.task_id as string | undefined;
+
+    if (taskId) {
+      const orchestrator = this.orchestrator();
+      if (!orchestrator) return fail("unavailable", "Orchestrator not initialized");
+      const cancelled = orchestrator.cancelTask(taskId);
+      const message = cancelled ? `Task ${taskId} cancelled` : `No active task found with ID: ${taskId}`;
+      return ok({ task_id: taskId, cancelled, message }, message);
+    }
+
+    const stopped = await onTab(args.tab_id as string | undefined, (_page, ai) => ai.stopAgent());
+    const message = stopped ? "Agent stopped" : "No active agent to stop";
+    return ok({ stopped, message }, message);
+  }
+
+  private async threadAction(args: Record<string, unknown>): Promise<ToolOutput> {
+    const action = (args.action as string) || "list";
+    const threadId = args.thread_id as string | undefined;
+    const tabId = args.tab_id as string | undefined;
+
+    switch (action) {
+      case "list": {
+        const list = await threads.list((args.limit as number) || undefined);
+        if (list.length === 0) {
+          return ok({ count: 0, threads: [] }, "No threads yet. Threads appear here once comet_ask has used them.");
+        }
+        let text = `${list.length} thread(s), newest first:\n`;
+        for (const t of list) {
+          text += `\n• ${t.title || "(untitled)"}\n  thread_id: ${t.id}\n  ${t.url}`;
+          text += t.tab_id ? `\n  open in tab ${t.tab_id}` : "";
+          text += `\n  last used ${new Date(t.updatedAt).toISOString()}`;
+        }
+        return ok({ count: list.length, threads: list }, text);
+      }
+
+      case "open": {
+        if (!threadId) return fail("invalid", "thread_id is required for open");
+        const thread = await threads.open(threadId, tabId);
+        const how = thread.opened ? "Opened" : "Already open:";
+        return ok(
+          thread as unknown as Record<string, unknown>,
+          `${how} ${thread.url} in tab ${thread.tab_id}\nPass tab_id "${thread.tab_id}" or thread_id "${thread.thread_id}" to comet_ask to continue it.`,
+        );
+      }
+
+      case "history": {
+        const history = await threads.history({ threadId, tabId });
+        let text = `Thread: ${history.url}`;
+        if (history.thread_id) text += ` (thread_id: ${history.thread_id})`;
+        text += `\n${history.turns.length} turn(s)`;
+        for (const turn of history.turns) {
+          text += `\n\n## Q${turn.index + 1}: ${turn.question || "(question not found)"}\n\n`;
+          text += formatAnswer(turn.answer);
+        }
+        return ok(history as unknown as Record<string, unknown>, text);
+      }
+
+      default:
+        return fail("invalid", `unknown action "${action}". Use list, open, or history.`);
+    }
+  }
+
+  private async screenshot(): Promise<ToolOutput> {
+    const result = await cometClient.screenshot("png");
+    const image = { data: result.data, mimeType: "image/png" };
+    return { data: image, text: "Screenshot (image/png)", image };
+  }
+
+  private async mode(args: Record<string, unknown>): Promise<ToolOutput> {
+    const mode = args.mode as string | undefined;
+
+    if (!mode) {
+      const currentMode = await cometAI.getMode();
+      let text = `Current mode: ${currentMode}\n\nAvailable modes:\n`;
+      for (const [m, desc] of Object.entries(MODE_DESCRIPTIONS)) {
+        const marker = m === currentMode ? "→" : " ";
+        text += `${marker} ${m}: ${desc}\n`;
+      }
+      return ok({ currentMode, modes: MODE_DESCRIPTIONS }, text);
+    }
+
+    try {
+      await cometAI.setMode(mode);
+    } catch (err) {
+      return fail("invalid", errorMessage(err), errorMessage(err));
+    }
+    const message = `Switched to ${mode} mode`;
+    return ok({ mode, message }, message);
+  }
+
+  private async selfcheck(args: Record<string, unknown>): Promise<ToolOutput> {
+    // Re-read the site profile so edits to the override file are checked too
+    const loaded = loadSiteProfile();
+    const report = await onTab(args.tab_id as string | undefined, (page) => runSelfcheck(page, loaded.profile));
+    let text = formatSelfcheck(report);
+    if (loaded.error) text = `Profile file not applied: ${loaded.error}\n\n${text}`;
+    return ok({ ...report, ...(loaded.error ? { profileError: loaded.error } : {}) }, text);
+  }
+
+  private async tabGroups(args: Record<string, unknown>): Promise<ToolOutput> {
+    const action = args.action as string;
+    try {
+      switch (action) {
+        case "list": {
+          const groups = await tabGroupsClient.listGroups();
+          if (groups.length === 0) return ok({ groups }, "No tab groups found.");
+          const lines = groups.map(
+            (g) => `[${g.id}] "${g.title || "(untitled)"}" (${g.color}${g.collapsed ? ", collapsed" : ""})`
+          );
+          return ok({ groups }, `Tab groups:\n${lines.join("\n")}`);
+        }
+
+        case "list_tabs": {
+          const tabs = await tabGroupsClient.listTabs();
+          const lines = tabs.map(
+            (t) => `[tab:${t.id}] group:${t.groupId === -1 ? "none" : t.groupId} "${t.title}" ${t.url}`
+          );
+          return ok({ tabs }, `Tabs (${tabs.length}):\n${lines.join("\n")}`);
+        }
+
+        case "create": {
+          const tabIds = args.tabIds as number[];
+          if (!tabIds || tabIds.length === 0) return fail("invalid", "tabIds required for create");
+          const result = await tabGroupsClient.createGroup({
+            tabIds,
+            title: args.title as string | undefined,
+            color: args.color as TabGroupColor | undefined,
+          });
+          return ok(
+            result as unknown as Record<string, unknown>,
+            `Created group ${result.groupId}: "${result.group.title || "(untitled)"}" (${result.group.color})`,
+          );
+        }
+
+        case "update": {
+          const groupId = args.groupId as number;
+          if (groupId === undefined) return fail("invalid", "groupId required for update");
+          const group = await tabGroupsClient.updateGroup({
+            groupId,
+            title: args.title as string | undefined,
+            color: args.color as TabGroupColor | undefined,
+            collapsed: args.collapsed as boolean | undefined,
+          });
+          return ok(
+            group as unknown as Record<string, unknown>,
+            `Updated group ${group.id}: "${group.title || "(untitled)"}" (${group.color}${group.collapsed ? ", collapsed" : ""})`,
+          );
+        }
+
+        case "move": {
+          const groupId = args.groupId as number;
+          const index = args.index as number;
+          if (groupId === undefined || index === undefined) return fail("invalid", "groupId and index required for move");
+          const group = await tabGroupsClient.moveGroup(groupId, index);
+          return ok(group as unknown as Record<string, unknown>, `Moved group ${group.id} to index ${index}`);
+        }
+
+        case "ungroup": {
+          const tabIds = args.tabIds as number[];
+          if (!tabIds || tabIds.length === 0) return fail("invalid", "tabIds required for ungroup");
+          await tabGroupsClient.ungroupTabs(tabIds);
+          return ok({ ungroupedTabs: tabIds.length }, `Ungrouped ${tabIds.length} tab(s)`);
+        }
+
+        case "delete": {
+          const groupId = args.groupId as number;
+          if (groupId === undefined) return fail("invalid", "groupId required for delete");
+          const tabs = await tabGroupsClient.listTabs();
+          const groupTabs = tabs.filter((t) => t.groupId === groupId);
+          if (groupTabs.length === 0) {
+            const message = `No tabs found in group ${groupId}`;
+            return ok({ deleted: false, ungroupedTabs: 0, message }, message);
+          }
+          await tabGroupsClient.ungroupTabs(groupTabs.map((t) => t.id));
+          const message = `Deleted group ${groupId} (ungrouped ${groupTabs.length} tab(s))`;
+          return ok({ deleted: true, ungroupedTabs: groupTabs.length, message }, message);
+        }
+
+        default:
+          return fail("invalid", `Unknown action: ${action}. Use: list, list_tabs, create, update, move, ungroup, delete`);
+      }
+    } catch (tgError) {
+      const msg = errorMessage(tgError);
+      if (msg.includes("extension") || msg.includes("service worker") || msg.includes("Bridge")) {
+        return fail(
+          "unavailable",
+          `Tab Groups Bridge extension not connected: ${msg}`,
+          `Tab Groups Bridge extension not connected.\n\n` +
+            `To use tab groups:\n` +
+            `1. Open comet://extensions in Comet\n` +
+            `2. Enable "Developer mode"\n` +
+            `3. Click "Load unpacked" and select the extension/ folder from comet-mcp\n` +
+            `4. Try again\n\n` +
+            `Error: ${msg}`,
+        );
+      }
+      throw tgError;
+    }
+  }
+
+  // ---- Orchestration ----
+
+  private async health(args: Record<string, unknown>): Promise<ToolOutput> {
+    const orchestrator = this.orchestrator();
+    if (!orchestrator) return fail("unavailable", "Orchestrator not initialized");
+    const result = await orchestrator.health((args.force as boolean) || false);
+    return ok(result as unknown as Record<string, unknown>, JSON.stringify(result, null, 2));
+  }
+
+  private async delegate(args: Record<string, unknown>): Promise<ToolOutput> {
+    const orchestrator = this.orchestrator();
+    if (!orchestrator) return fail("unavailable", "Orchestrator not initialized");
+    const description = args.description as string;
+    if (!description) return fail("invalid", "description is required");
+    const result = await orchestrator.delegate(description, {
+      targetTab: args.target_tab as string | undefined,
+      timeout_ms: args.timeout_ms as number | undefined,
+      async: args.async as boolean | undefined,
+      template: args.template as string | undefined,
+    });
+    return ok(result as unknown as Record<string, unknown>, JSON.stringify(result, null, 2));
+  }
+
+  private async monitor(args: Record<string, unknown>): Promise<ToolOutput> {
+    const orchestrator = this.orchestrator();
+    if (!orchestrator) return fail("unavailable", "Orchestrator not initialized");
+    const section = args.section as "windows" | "tabs" | "all" | undefined;
+    const result = await orchestrator.getMonitorState(section);
+    return ok(result as unknown as Record<string, unknown>, JSON.stringify(result, null, 2));
+  }
+}
@@ -43,8 +43,23 @@ export interface EvaluateResult {
   };
 }
 
+/** A browser window as reported by CDP Browser.getWindowForTarget */
+export interface BrowserWindow {
+  windowId: number;
+  /** Title of the first page target in the window */
+  title: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** normal, minimized, maximized or fullscreen */
+  windowState: string;
+  targetIds: string[];
+}
+
 export interface CometState {
   connected: boolean;
+  host: string;
   port: number;
   currentUrl?: string;
   activeTabId?: string;
@@ -101,20 +116,44 @@ export interface ToolResult {
   error?: string;
 }
 
+// ─── Research Answers ───────────────────────────────────────────
+
+export interface AnswerCitation {
+  marker: number; // [n] marker used in the answer markdown
+  url: string;
+  title: string;
+}
+
+export interface AnswerSource {
+  url: string;
+  title: string;
+}
+
+export interface ResearchAnswer {
+  markdown: string;
+  citations: AnswerCitation[];
+  sources: AnswerSource[];
+  sourceCount: number | null; // N from "Reviewed N sources", when shown
+}
+
 // ─── Task Queue & Delegation ────────────────────────────────────
 
-export interface TaskStep {
+export interface TaskStep extends StepPolicy {
   toolName: string;
   server: ServerName;
   params: Record<string, unknown>;
   result: unknown | null;
   status: StepStatus;
   duration_ms: number | null;
+  onFailure?: TaskStep[]; // fallback steps, recorded as they run
+  attempts?: number;
+  error?: string; // failure that triggered onFailure
 }
 
 export interface TaskDelegation {
   id: string;
   description: string;
+  templateName?: string;
   state: TaskState;
   targetTabId: string | null;
   steps: TaskStep[];
@@ -122,6 +161,7 @@ export interface TaskDelegation {
   timeout_ms: number;
   startedAt: number | null;
   completedAt: number | null;
+  result?: TaskResult | null;
 }
 
 export interface TaskResult {
@@ -195,20 +235,65 @@ export interface MonitorState {
 
 // ─── Task Templates ─────────────────────────────────────────────
 
-export interface TaskTemplateStep {
+export interface StepRetryPolicy {
+  count: number; // retries after the first attempt
+  backoff_ms: number; // delay before the first retry; doubles on each further retry
+}
+
+/**
+ * Gate for running a step. The operand is an earlier step (`step` + `path`,
+ * where path is "status" or "result..."), or a health component status.
+ * With no test, the operand must be truthy.
+ */
+export interface StepCondition {
+  step?: number;
+  path?: string; // default "status"
+  health?: ComponentName | "overall";
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  contains?: string;
+  matches?: string; // case-insensitive regex
+  exists?: boolean;
+}
+
+export interface StepPolicy {
+  optional?: boolean; // failure is recorded as skipped and the task continues
+  retry?: StepRetryPolicy;
+  when?: StepCondition | StepCondition[]; // all must hold, otherwise the step is skipped
+  timeout_ms?: number;
+}
+
+export interface TaskTemplateStep extends StepPolicy {
   toolName: string;
   server: ServerName;
   paramTemplate: Record<string, unknown>;
   description: string;
-  optional?: boolean;
+  onFailure?: TaskTemplateStep[]; // run in order if the step still fails after retries
+}
+
+/**
+ * Regex applied (case-insensitive) to the task description. Named capture
+ * groups become params of the same name; `param` receives an unnamed group,
+ * or `value` when one is given. Rules apply in order; later ones win.
+ */
+export interface ParamExtractionRule {
+  pattern: string;
+  param?: string;
+  group?: number; // capture group for `param` (default 1, or 0 if the pattern has none)
+  value?: string; // set `param` to this when the pattern matches, instead of a capture
 }
 
 export interface TaskTemplate {
   name: string;
   description: string;
   triggerPatterns: string[];
+  // regex (default): case-insensitive regexes; keyword: lowercase substrings
+  matchMode?: "keyword" | "regex";
   defaultParams: Record<string, unknown>;
+  extractRules?: ParamExtractionRule[];
   steps: TaskTemplateStep[];
+  source?: string; // file a user-defined template was loaded from
 }
 
 // ─── Delegate Enrichment (no-match fallback per NC-7) ───────────
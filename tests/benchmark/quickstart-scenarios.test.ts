@@ -2,16 +2,18 @@
  * Quickstart Validation Scenarios 1-16
  * Constitution II compliance: runtime proof for Spec 005 validation phase
  *
- * Requires: comet-mcp (3456), comet-monitor (5555), Comet browser (9222)
+ * Requires: comet-mcp (3456), comet-monitor (5555), Comet browser (9222),
+ * and COMET_API_TOKEN set to a full token from ~/.comet-mcp/http-tokens.json
  */
 import { describe, it, expect } from "vitest";
 
 const API = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 const CDP = "http://127.0.0.1:9222";
 const MONITOR = "http://127.0.0.1:5555";
 
 async function get(path: string, base = API): Promise<{ status: number; body: any }> {
-  const res = await fetch(new URL(path, base).toString());
+  const res = await fetch(new URL(path, base).toString(), { headers: AUTH });
   const body = res.headers.get("content-type")?.includes("json")
     ? await res.json()
     : await res.text();
@@ -21,7 +23,7 @@ async function get(path: string, base = API): Promise<{ status: number; body: an
 async function post(path: string, data: Record<string, unknown> = {}, base = API): Promise<{ status: number; body: any }> {
   const res = await fetch(new URL(path, base).toString(), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...AUTH },
     body: JSON.stringify(data),
   });
   const body = res.headers.get("content-type")?.includes("json")
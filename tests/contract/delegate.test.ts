@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 interface DelegateInput {
   description: string;
@@ -58,7 +59,7 @@ async function callDelegateTool(input: DelegateInput): Promise<DelegateOutput> {
   }
   const res = await fetch(new URL("/api/delegate", API_BASE).toString(), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...AUTH },
     body: JSON.stringify(input),
   });
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
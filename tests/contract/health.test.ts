@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 interface HealthInput {
   force?: boolean;
@@ -25,7 +26,7 @@ interface HealthOutput {
 async function callHealthTool(input: HealthInput): Promise<HealthOutput> {
   const url = new URL("/api/health", API_BASE);
   if (input.force) url.searchParams.set("force", "true");
-  const res = await fetch(url.toString());
+  const res = await fetch(url.toString(), { headers: AUTH });
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
   return res.json() as Promise<HealthOutput>;
 }
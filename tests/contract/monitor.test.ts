@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 interface MonitorInput {
   section?: "windows" | "tabs" | "all";
@@ -28,7 +29,7 @@ interface MonitorOutput {
 async function callMonitorTool(input: MonitorInput): Promise<MonitorOutput> {
   const url = new URL("/api/monitor", API_BASE);
   if (input.section) url.searchParams.set("section", input.section);
-  const res = await fetch(url.toString());
+  const res = await fetch(url.toString(), { headers: AUTH });
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
   return res.json() as Promise<MonitorOutput>;
 }
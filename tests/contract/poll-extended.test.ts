@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 interface PollInput {
   task_id?: string;
@@ -33,7 +34,7 @@ const VALID_TASK_STATES = [
 async function callPollTool(input: PollInput): Promise<PollOutputExtended> {
   const url = new URL("/api/poll", API_BASE);
   if (input.task_id) url.searchParams.set("task_id", input.task_id);
-  const res = await fetch(url.toString());
+  const res = await fetch(url.toString(), { headers: AUTH });
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
   return res.json() as Promise<PollOutputExtended>;
 }
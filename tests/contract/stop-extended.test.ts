@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 interface StopInput {
   task_id?: string;
@@ -23,7 +24,7 @@ async function callStopTool(input: StopInput): Promise<StopOutput> {
   if (input.task_id) body.task_id = input.task_id;
   const res = await fetch(url.toString(), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...AUTH },
     body: JSON.stringify(body),
   });
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
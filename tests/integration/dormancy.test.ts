@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 const CDP_URL = "http://127.0.0.1:9222";
 
 describe("dormancy integration (requires running Comet browser)", () => {
@@ -16,7 +17,7 @@ describe("dormancy integration (requires running Comet browser)", () => {
   });
 
   it("tab groups list works (dormancy recovery is transparent)", async () => {
-    const res = await fetch(new URL("/api/tab-groups", API_BASE).toString());
+    const res = await fetch(new URL("/api/tab-groups", API_BASE).toString(), { headers: AUTH });
     expect(res.ok).toBe(true);
     const body = await res.json();
     expect(body).toHaveProperty("groups");
@@ -24,7 +25,7 @@ describe("dormancy integration (requires running Comet browser)", () => {
   });
 
   it("tab groups list_tabs returns tab array", async () => {
-    const res = await fetch(new URL("/api/tab-groups/tabs", API_BASE).toString());
+    const res = await fetch(new URL("/api/tab-groups/tabs", API_BASE).toString(), { headers: AUTH });
     expect(res.ok).toBe(true);
     const body = await res.json();
     expect(body).toHaveProperty("tabs");
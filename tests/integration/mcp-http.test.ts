@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { spawn, type ChildProcess } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { createServer, type AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CometBridgeClient, CometBridgeError } from "../../src/client.js";
+
+// The built HTTP daemon (dist/http-server.js, from `npm run build`) serving
+// MCP over Streamable HTTP next to its REST routes. No browser is needed:
+// the tests only check that every client reaches the same orchestrator.
+
+const DAEMON_PATH = fileURLToPath(new URL("../../dist/http-server.js", import.meta.url));
+const FULL_TOKEN = "full-".padEnd(43, "f");
+const READ_TOKEN = "read-".padEnd(43, "r");
+const auth = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+interface ToolResult {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+describe("HTTP daemon MCP transport", () => {
+  let daemon: ChildProcess;
+  let home: string;
+  let base: string;
+  const clients: Client[] = [];
+
+  async function connectClient(name: string): Promise<Client> {
+    const client = new Client({ name, version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL("/mcp", base), {
+      requestInit: { headers: auth(FULL_TOKEN) },
+    }));
+    clients.push(client);
+    return client;
+  }
+
+  beforeAll(async () => {
+    if (!existsSync(DAEMON_PATH)) throw new Error("dist/http-server.js not found; run `npm run build` first");
+    const port = await freePort();
+    base = `http://127.0.0.1:${port}`;
+
+    // A throwaway home keeps task and thread files out of ~/.comet-mcp; CDP
+    // port 9 (discard) keeps the daemon away from a running Comet
+    home = mkdtempSync(join(tmpdir(), "comet-daemon-home-"));
+    mkdirSync(join(home, ".comet-mcp"));
+    writeFileSync(join(home, ".comet-mcp", "http-tokens.json"), JSON.stringify({
+      tokens: [{ name: "full", token: FULL_TOKEN, scope: "full" }, { name: "dashboard", token: READ_TOKEN, scope: "read" }],
+    }));
+    daemon = spawn(process.execPath, [DAEMON_PATH], {
+      env: { ...process.env, HOME: home, USERPROFILE: home, COMET_HTTP_PORT: String(port), COMET_CDP_PORT: "9" },
+      stdio: "ignore",
+    });
+
+    const deadline = Date.now() + 15_000;
+    while (Date.now() < deadline) {
+      try {
+        if ((await fetch(`${base}/api/health`, { headers: auth(READ_TOKEN) })).ok) return;
+      } catch { /* not listening yet */ }
+      await new Promise((r) => setTimeout(r, 200));
+    }
+    throw new Error("HTTP daemon did not start");
+  }, 30_000);
+
+  afterAll(async () => {
+    for (const client of clients) await client.close().catch(() => {});
+    daemon?.kill();
+    if (home) rmSync(home, { recursive: true, force: true });
+  });
+
+  it("serves the comet_* tools to several MCP clients at once", async () => {
+    const [a, b] = await Promise.all([connectClient("client-a"), connectClient("client-b")]);
+    const [toolsA, toolsB] = await Promise.all([a.listTools(), b.listTools()]);
+    expect(toolsA.tools.map((t) => t.name)).toContain("comet_ask");
+    expect(toolsB.tools).toHaveLength(toolsA.tools.length);
+  });
+
+  it("shares one task queue between MCP clients and REST", async () => {
+    const [a, b] = await Promise.all([connectClient("delegator"), connectClient("poller")]);
+
+    const delegated = (await a.callTool({
+      name: "comet_delegate",
+      arguments: { description: "take a screenshot", async: true },
+    })) as ToolResult;
+    const taskId = delegated.structuredContent?.payload?.taskId;
+    expect(typeof taskId).toBe("string");
+
+    const polled = (await b.callTool({ name: "comet_poll", arguments: { task_id: taskId } })) as ToolResult;
+    expect(polled.isError).toBeFalsy();
+    expect(polled.structuredContent?.task_id).toBe(taskId);
+
+    const rest = await fetch(`${base}/api/poll?task_id=${taskId}`, { headers: auth(FULL_TOKEN) });
+    expect(rest.status).toBe(200);
+    expect((await rest.json()).task_id).toBe(taskId);
+  });
+
+  it("answers 404 for an unknown MCP session", async () => {
+    const response = await fetch(`${base}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "no-such-session",
+        ...auth(FULL_TOKEN),
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("turns away requests without the right token or from other origins", async () => {
+    expect((await fetch(`${base}/api/poll`)).status).toBe(401);
+    expect((await fetch(`${base}/api/stop`, { method: "POST", headers: auth(READ_TOKEN) })).status).toBe(403);
+    expect((await fetch(`${base}/api/screenshot`, { headers: auth(READ_TOKEN) })).status).toBe(403);
+    expect((await fetch(`${base}/mcp`, { method: "POST", headers: auth(READ_TOKEN) })).status).toBe(403);
+    expect((await fetch(`${base}/dashboard`)).status).toBe(200);
+
+    const foreign = await fetch(`${base}/api/poll`, { headers: { ...auth(FULL_TOKEN), Origin: "https://evil.example" } });
+    expect(foreign.status).toBe(403);
+    const own = await fetch(`${base}/api/tasks`, { headers: { ...auth(READ_TOKEN), Origin: `http://localhost:${new URL(base).port}` } });
+    expect(own.headers.get("access-control-allow-origin")).toBe(`http://localhost:${new URL(base).port}`);
+  });
+
+  it("serves its OpenAPI document and checks requests against it", async () => {
+    const doc = await (await fetch(`${base}/api/openapi.json`, { headers: auth(READ_TOKEN) })).json();
+    expect(doc.paths["/api/ask"].post.operationId).toBe("ask");
+
+    const comet = new CometBridgeClient({ baseUrl: base, token: FULL_TOKEN });
+    expect(await comet.stop({ task_id: "no-such-task" })).toMatchObject({ task_id: "no-such-task", cancelled: false });
+
+    const misspelled = await fetch(`${base}/api/stop`, {
+      method: "POST",
+      headers: { ...auth(FULL_TOKEN), "Content-Type": "application/json" },
+      body: JSON.stringify({ taskId: "t1" }),
+    });
+    expect(misspelled.status).toBe(400);
+    expect((await misspelled.json()).error).toMatch(/taskId is not a known field/);
+
+    const notJson = await fetch(`${base}/api/stop`, { method: "POST", headers: auth(FULL_TOKEN), body: "{ task_id" });
+    expect(notJson.status).toBe(400);
+
+    const error = await comet.poll({ task_id: "no-such-task" }).catch((e) => e);
+    expect(error).toBeInstanceOf(CometBridgeError);
+    expect(error.status).toBe(404);
+  });
+});
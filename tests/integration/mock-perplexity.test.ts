@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { CDP_PORT, MockPerplexity, findBrowser } from "./mock-perplexity.js";
+
+// End-to-end: the built MCP server (dist/index.js, from `npm run build`)
+// drives a headless Chromium showing the mock Perplexity page.
+
+const SERVER_PATH = fileURLToPath(new URL("../../dist/index.js", import.meta.url));
+const browser = findBrowser();
+const requireBrowser = process.env.COMET_REQUIRE_BROWSER === "1";
+
+interface ToolResult {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+describe.skipIf(!browser && !requireBrowser)("mock Perplexity end-to-end (headless Chromium)", () => {
+  const mock = new MockPerplexity(browser!);
+  let client: Client;
+  let home: string;
+
+  async function call(name: string, args: Record<string, unknown> = {}): Promise<ToolResult & { text: string }> {
+    const result = (await client.callTool({ name, arguments: args })) as ToolResult;
+    return { ...result, text: result.content.map((c) => c.text ?? "").join("\n") };
+  }
+
+  beforeAll(async () => {
+    if (!browser) {
+      throw new Error("COMET_REQUIRE_BROWSER is set but no browser was found; set COMET_TEST_BROWSER or put Chromium on PATH");
+    }
+    if (!existsSync(SERVER_PATH)) throw new Error("dist/index.js not found; run `npm run build` first");
+    await mock.start();
+
+    // A throwaway home keeps task, thread and site-profile files out of ~/.comet-mcp
+    home = mkdtempSync(join(tmpdir(), "comet-mock-home-"));
+    client = new Client({ name: "mock-perplexity-test", version: "1.0.0" });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [SERVER_PATH],
+      env: { ...process.env, HOME: home, USERPROFILE: home, COMET_CDP_PORT: String(CDP_PORT) } as Record<string, string>,
+      stderr: "ignore",
+    }));
+  }, 30_000);
+
+  afterAll(async () => {
+    await client?.close();
+    await mock.stop();
+    if (home) rmSync(home, { recursive: true, force: true });
+  });
+
+  it("comet_connect attaches to the Perplexity tab", async () => {
+    const result = await call("comet_connect");
+    expect(result.text).toContain("already running");
+    expect(result.text).toContain("Connected to existing Perplexity tab");
+  });
+
+  it("comet_mode reads and switches the mode through the dropdown", async () => {
+    expect((await call("comet_mode")).text).toContain("Current mode: search");
+
+    const switched = await call("comet_mode", { mode: "labs" });
+    expect(switched.isError).toBeFalsy();
+    expect(switched.text).toBe("Switched to labs mode");
+
+    expect((await call("comet_mode")).text).toContain("Current mode: labs");
+  });
+
+  it("comet_ask types the prompt, waits for the answer and extracts it", async () => {
+    const result = await call("comet_ask", { prompt: "What are comets made of?", timeout: 20_000 });
+
+    expect(result.structuredContent?.status).toBe("completed");
+    expect(result.structuredContent?.extraction).toBe("dom");
+    const answer = result.structuredContent?.answer;
+    expect(answer.markdown).toContain("Mock answer to: What are comets made of?");
+    expect(answer.markdown).toContain("**ice, dust and rock**[1]");
+    expect(answer.citations).toEqual([{ marker: 1, url: "https://example.com/comets", title: "example.com" }]);
+  }, 60_000);
+
+  it("comet_stop stops an answer that is still generating", async () => {
+    const pending = await call("comet_ask", { prompt: "Take your time [slow]", timeout: 4_000 });
+    expect(pending.text).toContain("Task in progress");
+    expect(pending.text).toContain("Status: WORKING");
+
+    expect((await call("comet_stop")).text).toBe("Agent stopped");
+    const poll = await call("comet_poll");
+    expect(poll.text).not.toContain("Status: WORKING");
+  }, 60_000);
+});
@@ -0,0 +1,125 @@
+// Mock Perplexity harness — a fixture page served over HTTP, opened in a
+// headless Chromium that listens for CDP like Comet does. It uses port 9333,
+// not Comet's 9222, so a running Comet is left alone; the server under test
+// is pointed at it with COMET_CDP_PORT.
+//
+// The page is served as http://perplexity.ai.localhost:<port>/: Chromium
+// resolves *.localhost to the loopback address by itself, and the URL contains
+// "perplexity.ai", so comet-mcp treats the tab as a Perplexity tab.
+//
+// Configuration:
+//   COMET_TEST_BROWSER — Chromium or Chrome executable to launch.
+//     Default: the first of chromium, chromium-browser, google-chrome,
+//     google-chrome-stable found on PATH. Tests skip when there is none.
+//   COMET_REQUIRE_BROWSER=1 — fail instead of skipping when there is none
+//     (set in CI, so the suite cannot pass without running).
+
+import { spawn, type ChildProcess } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { delimiter, join } from "path";
+import { fileURLToPath } from "url";
+
+export const CDP_PORT = 9333;
+const PAGE_PATH = fileURLToPath(new URL("../fixtures/mock-perplexity/index.html", import.meta.url));
+const BROWSER_NAMES = ["chromium", "chromium-browser", "google-chrome", "google-chrome-stable"];
+const STARTUP_TIMEOUT_MS = 15_000;
+
+/** Path of the browser to test against, or null when none is installed. */
+export function findBrowser(): string | null {
+  if (process.env.COMET_TEST_BROWSER) return process.env.COMET_TEST_BROWSER;
+  for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+    for (const name of BROWSER_NAMES) {
+      const path = join(dir, name);
+      if (dir && existsSync(path)) return path;
+    }
+  }
+  return null;
+}
+
+async function cdpVersion(): Promise<unknown | null> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${CDP_PORT}/json/version`, { signal: AbortSignal.timeout(1_000) });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+export class MockPerplexity {
+  /** URL of the mock page, once started. */
+  url = "";
+  private server: Server | null = null;
+  private browser: ChildProcess | null = null;
+  private profileDir: string | null = null;
+
+  constructor(private readonly browserPath: string) {}
+
+  /** Serve the page and launch the browser on it; resolves once CDP answers. */
+  async start(): Promise<void> {
+    if (await cdpVersion()) {
+      throw new Error(`Port ${CDP_PORT} is already in use; stop the browser listening on it before running these tests`);
+    }
+
+    const html = readFileSync(PAGE_PATH, "utf-8");
+    this.server = createServer((req, res) => {
+      // Every path is the page, so thread URLs (/search/...) reload it too
+      if (req.url === "/favicon.ico") {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(html);
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://perplexity.ai.localhost:${port}/`;
+
+    this.profileDir = mkdtempSync(join(tmpdir(), "comet-mock-browser-"));
+    this.browser = spawn(this.browserPath, [
+      "--headless=new",
+      `--remote-debugging-port=${CDP_PORT}`,
+      `--user-data-dir=${this.profileDir}`,
+      "--no-first-run",
+      "--no-default-browser-check",
+      "--disable-gpu",
+      // CI containers usually run as root, where the sandbox cannot start
+      "--no-sandbox",
+      this.url,
+    ], { stdio: "ignore" });
+
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (this.browser.exitCode !== null) throw new Error(`${this.browserPath} exited with code ${this.browser.exitCode}`);
+      if (await this.pageLoaded()) return;
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    throw new Error(`${this.browserPath} did not open ${this.url} within ${STARTUP_TIMEOUT_MS / 1000}s`);
+  }
+
+  async stop(): Promise<void> {
+    const browser = this.browser;
+    if (browser && browser.exitCode === null) {
+      const exited = new Promise((resolve) => browser.once("exit", resolve));
+      browser.kill();
+      await Promise.race([exited, new Promise((resolve) => setTimeout(resolve, 5_000))]);
+    }
+    this.browser = null;
+    await new Promise((resolve) => (this.server ? this.server.close(resolve) : resolve(undefined)));
+    this.server = null;
+    if (this.profileDir) rmSync(this.profileDir, { recursive: true, force: true });
+    this.profileDir = null;
+  }
+
+  private async pageLoaded(): Promise<boolean> {
+    try {
+      const response = await fetch(`http://127.0.0.1:${CDP_PORT}/json/list`, { signal: AbortSignal.timeout(1_000) });
+      if (!response.ok) return false;
+      const targets = (await response.json()) as Array<{ type: string; url: string }>;
+      return targets.some((t) => t.type === "page" && t.url.startsWith(this.url));
+    } catch {
+      return false;
+    }
+  }
+}
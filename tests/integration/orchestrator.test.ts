@@ -1,16 +1,17 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 async function apiGet(path: string): Promise<any> {
-  const res = await fetch(new URL(path, API_BASE).toString());
+  const res = await fetch(new URL(path, API_BASE).toString(), { headers: AUTH });
   return { status: res.status, body: await res.json() };
 }
 
 async function apiPost(path: string, body: Record<string, unknown> = {}): Promise<any> {
   const res = await fetch(new URL(path, API_BASE).toString(), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...AUTH },
     body: JSON.stringify(body),
   });
   return { status: res.status, body: await res.json() };
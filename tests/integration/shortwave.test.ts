@@ -1,12 +1,13 @@
 import { describe, it, expect } from "vitest";
 
 const API_BASE = process.env.COMET_API_URL || "http://127.0.0.1:3456";
+const AUTH = { Authorization: `Bearer ${process.env.COMET_API_TOKEN ?? ""}` };
 
 describe.skip("shortwave integration (requires Shortwave login — run manually)", () => {
   it("delegate triage routes through shortwave-triage template", async () => {
     const res = await fetch(new URL("/api/delegate", API_BASE).toString(), {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...AUTH },
       body: JSON.stringify({ description: "triage my email in Shortwave" }),
     });
     expect(res.ok).toBe(true);
@@ -19,7 +20,7 @@ describe.skip("shortwave integration (requires Shortwave login — run manually)
   it("shortwave-query template targets Shortwave URL", async () => {
     const res = await fetch(new URL("/api/delegate", API_BASE).toString(), {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...AUTH },
       body: JSON.stringify({ description: "ask Shortwave to summarize my unread emails" }),
     });
     expect(res.ok).toBe(true);
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+import { prepareAttachments, MAX_ATTACHMENTS } from "../../src/attachments.js";
+
+describe("prepareAttachments", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-attachments-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes local files through as absolute paths", () => {
+    const pdf = join(dir, "report.pdf");
+    writeFileSync(pdf, "%PDF-1.4");
+
+    const prepared = prepareAttachments([pdf, { path: pdf }]);
+    expect(prepared.paths).toEqual([pdf, pdf]);
+    expect(prepared.names).toEqual(["report.pdf", "report.pdf"]);
+    prepared.cleanup();
+    expect(existsSync(pdf)).toBe(true);
+  });
+
+  it("writes base64 blobs to temp files until cleanup", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const prepared = prepareAttachments([
+      { data: png.toString("base64"), name: "shot.png" },
+      { data: `data:application/pdf;base64,${Buffer.from("%PDF").toString("base64")}` },
+      { data: png.toString("base64"), name: "shot.png" },
+    ]);
+
+    expect(prepared.names).toEqual(["shot.png", "attachment-2.pdf", "shot.png"]);
+    expect(readFileSync(prepared.paths[0])).toEqual(png);
+    expect(readFileSync(prepared.paths[1], "utf-8")).toBe("%PDF");
+    expect(prepared.paths[0]).not.toBe(prepared.paths[2]);
+
+    prepared.cleanup();
+    expect(prepared.paths.some((p) => existsSync(p))).toBe(false);
+  });
+
+  it("keeps blob names from escaping the temp directory", () => {
+    const prepared = prepareAttachments([{ data: "aGk=", name: "../../etc/passwd" }]);
+    expect(basename(prepared.paths[0])).toBe("passwd");
+    expect(basename(dirname(dirname(prepared.paths[0])))).toMatch(/^comet-attach-/);
+    prepared.cleanup();
+  });
+
+  it("rejects invalid attachments", () => {
+    expect(() => prepareAttachments("file.pdf")).toThrow("attachments must be a list");
+    expect(() => prepareAttachments([join(dir, "missing.pdf")])).toThrow("Attachment not found");
+    expect(() => prepareAttachments([dir])).toThrow("Attachment not found");
+    expect(() => prepareAttachments([{ name: "x.png" }])).toThrow("needs a path or base64 data");
+    expect(() => prepareAttachments(Array(MAX_ATTACHMENTS + 1).fill("a"))).toThrow(`At most ${MAX_ATTACHMENTS}`);
+  });
+
+  it("removes blobs already written when a later attachment is invalid", () => {
+    const before = new Set(readdirTemp());
+    expect(() => prepareAttachments([{ data: "aGk=", name: "a.txt" }, join(dir, "missing")])).toThrow();
+    expect(readdirTemp().filter((d) => !before.has(d))).toEqual([]);
+  });
+});
+
+function readdirTemp(): string[] {
+  return readdirSync(tmpdir()).filter((d) => d.startsWith("comet-attach-"));
+}
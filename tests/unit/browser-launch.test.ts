@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { delimiter, join } from "path";
+import {
+  LINUX_BROWSER_NAMES,
+  browserNotFoundError,
+  findOnPath,
+  launchArgs,
+  linuxUserDataDir,
+  processPattern,
+} from "../../src/browser-launch.js";
+
+describe("findOnPath", () => {
+  let dir: string;
+  let first: string;
+  let second: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-path-"));
+    first = join(dir, "bin1");
+    second = join(dir, "bin2");
+    mkdirSync(first);
+    mkdirSync(second);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("prefers an earlier name anywhere on PATH over a later name", () => {
+    writeFileSync(join(first, "chromium"), "");
+    writeFileSync(join(second, "comet"), "");
+    const path = [first, second].join(delimiter);
+    expect(findOnPath(LINUX_BROWSER_NAMES, path)).toBe(join(second, "comet"));
+  });
+
+  it("takes the first PATH directory holding a name", () => {
+    writeFileSync(join(first, "google-chrome"), "");
+    writeFileSync(join(second, "google-chrome"), "");
+    expect(findOnPath(LINUX_BROWSER_NAMES, [second, first].join(delimiter))).toBe(join(second, "google-chrome"));
+  });
+
+  it("returns null when nothing is found", () => {
+    expect(findOnPath(LINUX_BROWSER_NAMES, [first, second].join(delimiter))).toBeNull();
+    expect(findOnPath(LINUX_BROWSER_NAMES, "")).toBeNull();
+  });
+});
+
+describe("launch arguments", () => {
+  it("gives the Linux browser a dedicated profile per CDP port", () => {
+    expect(linuxUserDataDir(9222, {})).toBe(join(homedir(), ".comet-mcp", "browser-profile"));
+    expect(linuxUserDataDir(9333, {})).toBe(join(homedir(), ".comet-mcp", "browser-profile-9333"));
+    expect(linuxUserDataDir(9222, { COMET_USER_DATA_DIR: "/srv/profile" })).toBe("/srv/profile");
+
+    expect(launchArgs(9333, true, {})).toEqual([
+      "--remote-debugging-port=9333",
+      `--user-data-dir=${join(homedir(), ".comet-mcp", "browser-profile-9333")}`,
+      "--no-first-run",
+      "--no-default-browser-check",
+    ]);
+    expect(launchArgs(9222, false, {})).toEqual(["--remote-debugging-port=9222"]);
+  });
+
+  it("finds the launched process by its profile on Linux", () => {
+    expect(processPattern(9222, true, { COMET_USER_DATA_DIR: "/srv/profile" })).toBe("--user-data-dir=/srv/profile");
+    expect(processPattern(9222, false, {})).toBe("Comet.app");
+  });
+
+  it("names every place a browser can be configured when none is found", () => {
+    const { message } = browserNotFoundError();
+    expect(message).toContain(`looked for ${LINUX_BROWSER_NAMES.join(", ")}`);
+    expect(message).toContain("browserPath");
+    expect(message).toContain("COMET_BROWSER_PATH");
+    expect(message).toContain("--browser-path");
+  });
+});
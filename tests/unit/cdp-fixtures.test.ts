@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PageDriver } from "../../src/cdp-sessions.js";
+import { CometAI } from "../../src/comet-ai.js";
+import {
+  FixtureRecorder,
+  FixtureReplayer,
+  RecordingPageDriver,
+  ReplayPageDriver,
+  fixtureModeFromEnv,
+  type FixtureFile,
+} from "../../src/cdp-fixtures.js";
+
+/**
+ * Stand-in for a live Perplexity tab: page scripts run in Node against a
+ * document with one aria-labelled button per mode, the checked one marked by
+ * data-state. Clicking a button checks it.
+ */
+function livePage(checked: string): PageDriver & { url: string } {
+  const labels = ["Search", "Research", "Labs", "Learn"];
+  const buttons = labels.map((label) => ({
+    label,
+    innerText: label,
+    offsetParent: {},
+    getAttribute: (name: string) => (name === "data-state" ? (label === checked ? "checked" : "unchecked") : null),
+    querySelector: () => null,
+    click: () => {
+      checked = label;
+    },
+  }));
+  const querySelectorAll = (selector: string) => {
+    const match = /^button\[aria-label="(.+)"\]$/.exec(selector);
+    if (match) return buttons.filter((b) => b.label === match[1]);
+    return selector === "button" ? buttons : [];
+  };
+  const document = {
+    body: { innerText: "" },
+    querySelectorAll,
+    querySelector: (selector: string) => querySelectorAll(selector)[0] ?? null,
+  };
+  const page = {
+    url: "https://www.perplexity.ai/",
+    evaluate: async (expression: string) => {
+      const window = { location: { href: page.url } };
+      const value = new Function("document", "window", `return (${expression})`)(document, window);
+      return { result: { type: typeof value, value } };
+    },
+    safeEvaluate: (expression: string) => page.evaluate(expression),
+    pressKey: async () => {},
+    navigate: async (url: string) => {
+      page.url = url;
+      return { frameId: "main" };
+    },
+    setFileInputFiles: async () => {},
+    networkIdleMs: () => 2_500,
+    startAnswerCapture: () => null,
+  };
+  return page;
+}
+
+describe("CometAI over recorded fixtures", () => {
+  it("replays a recorded mode switch without a browser", async () => {
+    const recording = new RecordingPageDriver(livePage("Search"));
+    const live = new CometAI(recording);
+    expect(await live.getMode()).toBe("search");
+    await live.setMode("research");
+    expect(await live.getMode()).toBe("research");
+
+    const fixture = recording.recorder.toFixture();
+    expect(fixture.calls.map((c) => c.method)).toEqual(["evaluate", "evaluate", "evaluate", "evaluate"]);
+
+    const replayer = new FixtureReplayer(fixture);
+    const offline = new CometAI(new ReplayPageDriver(replayer));
+    expect(await offline.getMode()).toBe("search");
+    await offline.setMode("research");
+    expect(await offline.getMode()).toBe("research");
+    expect(replayer.remaining()).toBe(0);
+  });
+
+  it("fails on calls the recording does not have", async () => {
+    const recording = new RecordingPageDriver(livePage("Search"));
+    await new CometAI(recording).getMode();
+
+    const offline = new CometAI(new ReplayPageDriver(new FixtureReplayer(recording.recorder.toFixture())));
+    await expect(offline.stopAgent()).rejects.toThrow("No recorded evaluate call matches");
+  });
+});
+
+describe("FixtureReplayer", () => {
+  const fixture: FixtureFile = {
+    version: 1,
+    recordedAt: "2026-01-01T00:00:00.000Z",
+    calls: [
+      { method: "evaluate", args: ["status()"], result: { result: { value: "working" } } },
+      { method: "evaluate", args: ["status()"], result: { result: { value: "completed" } } },
+      { method: "pressKey", args: ["Enter"], error: "Not connected to Comet" },
+      { method: "networkIdleMs", args: [], result: 4_000 },
+    ],
+  };
+
+  it("answers repeated calls in order and then repeats the last answer", async () => {
+    const page = new ReplayPageDriver(new FixtureReplayer(fixture));
+    const values = [];
+    for (let i = 0; i < 3; i++) values.push((await page.evaluate("status()")).result.value);
+    expect(values).toEqual(["working", "completed", "completed"]);
+    expect(page.networkIdleMs()).toBe(4_000);
+  });
+
+  it("rethrows recorded errors and rejects unknown fixtures", async () => {
+    const page = new ReplayPageDriver(new FixtureReplayer(fixture));
+    await expect(page.pressKey("Enter")).rejects.toThrow("Not connected to Comet");
+    expect(() => new FixtureReplayer({ ...fixture, version: 2 })).toThrow("Unsupported CDP fixture");
+  });
+});
+
+describe("fixture files", () => {
+  let dir: string;
+  const env = { record: process.env.COMET_CDP_RECORD, replay: process.env.COMET_CDP_REPLAY };
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    for (const [name, value] of [["COMET_CDP_RECORD", env.record], ["COMET_CDP_REPLAY", env.replay]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it("records to the COMET_CDP_RECORD file and replays it through COMET_CDP_REPLAY", async () => {
+    dir = mkdtempSync(join(tmpdir(), "cdp-fixtures-"));
+    const path = join(dir, "nested", "session.json");
+    delete process.env.COMET_CDP_REPLAY;
+    process.env.COMET_CDP_RECORD = path;
+
+    const recorder = fixtureModeFromEnv();
+    expect(recorder).toBeInstanceOf(FixtureRecorder);
+    await recorder!.call("navigate", ["https://www.perplexity.ai/", true], async () => ({ frameId: "main" }));
+    await expect(
+      recorder!.call("evaluate", ["boom()"], async () => {
+        throw new Error("Execution context was destroyed");
+      }),
+    ).rejects.toThrow("Execution context was destroyed");
+
+    process.env.COMET_CDP_REPLAY = path;
+    const page = new ReplayPageDriver(fixtureModeFromEnv() as FixtureReplayer);
+    expect(await page.navigate("https://www.perplexity.ai/")).toEqual({ frameId: "main" });
+    await expect(page.evaluate("boom()")).rejects.toThrow("Execution context was destroyed");
+  });
+
+  it("reports a missing replay file", () => {
+    expect(() => FixtureReplayer.load("/nonexistent/session.json")).toThrow("CDP fixture not found");
+  });
+});
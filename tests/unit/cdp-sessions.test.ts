@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import type CDP from "chrome-remote-interface";
+import { CdpSessionPool } from "../../src/cdp-sessions.js";
+
+/** Minimal stand-in for a chrome-remote-interface client bound to one tab. */
+function fakeClient(targetId: string) {
+  const emitter = new EventEmitter();
+  const client = Object.assign(emitter, {
+    closed: false,
+    Runtime: {
+      evaluate: async ({ expression }: { expression: string }) => ({
+        result: { type: "string", value: `${targetId}:${expression}` },
+      }),
+    },
+    close: async () => {
+      client.closed = true;
+    },
+  });
+  return client;
+}
+
+type FakeClient = ReturnType<typeof fakeClient>;
+
+function makePool(idleMs = 1000) {
+  const clients: FakeClient[] = [];
+  const connect = vi.fn(async (targetId: string) => {
+    const client = fakeClient(targetId);
+    clients.push(client);
+    return client as unknown as CDP.Client;
+  });
+  return { pool: new CdpSessionPool(connect, { idleMs }), connect, clients };
+}
+
+describe("CdpSessionPool", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one connection per tab across concurrent acquires", async () => {
+    const { pool, connect } = makePool();
+    const [a, b] = await Promise.all([pool.acquire("T1"), pool.acquire("T1")]);
+
+    expect(a).toBe(b);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(pool.list()).toEqual([{ targetId: "T1", refs: 2, idle_ms: null }]);
+  });
+
+  it("keeps tabs on separate sessions", async () => {
+    const { pool } = makePool();
+    const values = await Promise.all(
+      ["T1", "T2"].map((id) => pool.withSession(id, async (s) => (await s.evaluate("title")).result.value)),
+    );
+    expect(values).toEqual(["T1:title", "T2:title"]);
+  });
+
+  it("closes a session once it has been idle for idleMs", async () => {
+    vi.useFakeTimers();
+    const { pool, clients } = makePool(1000);
+    const session = await pool.acquire("T1");
+    const again = await pool.acquire("T1");
+
+    session.release();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(clients[0].closed).toBe(false);
+
+    again.release();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(pool.list()[0].refs).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(clients[0].closed).toBe(true);
+    expect(pool.list()).toEqual([]);
+  });
+
+  it("cancels idle cleanup when the session is acquired again", async () => {
+    vi.useFakeTimers();
+    const { pool, clients, connect } = makePool(1000);
+    (await pool.acquire("T1")).release();
+    await vi.advanceTimersByTimeAsync(500);
+
+    await pool.acquire("T1");
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(clients[0].closed).toBe(false);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconnects after the socket drops", async () => {
+    const { pool, clients, connect } = makePool();
+    const first = await pool.acquire("T1");
+    clients[0].emit("disconnect");
+    expect(pool.list()).toEqual([]);
+
+    const second = await pool.acquire("T1");
+    expect(second).not.toBe(first);
+    expect(connect).toHaveBeenCalledTimes(2);
+
+    // A release for the dropped session does not touch its replacement
+    first.release();
+    expect(pool.list()[0].refs).toBe(1);
+  });
+
+  it("lets a later acquire retry after a failed connect", async () => {
+    const { pool, connect } = makePool();
+    connect.mockRejectedValueOnce(new Error("no such target"));
+
+    await expect(pool.acquire("T1")).rejects.toThrow("no such target");
+    await expect(pool.acquire("T1")).resolves.toMatchObject({ targetId: "T1" });
+  });
+
+  it("closes every session on closeAll", async () => {
+    const { pool, clients } = makePool();
+    await pool.acquire("T1");
+    await pool.acquire("T2");
+
+    await pool.closeAll();
+    expect(clients.every((c) => c.closed)).toBe(true);
+    expect(pool.list()).toEqual([]);
+  });
+});
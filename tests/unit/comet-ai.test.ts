@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { clampAnswer, formatAnswer, type AgentStatusSnapshot } from "../../src/comet-ai.js";
+import type { ResearchAnswer } from "../../src/types.js";
+
+const answer = (overrides: Partial<ResearchAnswer> = {}): ResearchAnswer => ({
+  markdown: "Comets are **ice** and dust [1].",
+  citations: [],
+  sources: [],
+  sourceCount: null,
+  ...overrides,
+});
+
+describe("formatAnswer", () => {
+  it("returns the markdown alone when there are no sources", () => {
+    expect(formatAnswer(answer({ markdown: "  Just text.\n" }))).toBe("Just text.");
+  });
+
+  it("lists citations by marker, then sources the answer did not cite", () => {
+    const text = formatAnswer(
+      answer({
+        citations: [{ marker: 1, url: "https://nasa.gov/comets", title: "NASA" }],
+        sources: [
+          { url: "https://nasa.gov/comets", title: "NASA" },
+          { url: "https://esa.int/rosetta", title: "Rosetta" },
+        ],
+      }),
+    );
+    expect(text).toBe(
+      "Comets are **ice** and dust [1].\n\n" +
+        "Citations:\n[1] NASA — https://nasa.gov/comets\n\n" +
+        "Sources:\n- Rosetta — https://esa.int/rosetta",
+    );
+  });
+
+  it("heads the source list with the reviewed count when the page shows one", () => {
+    expect(formatAnswer(answer({ sources: [{ url: "https://esa.int", title: "ESA" }], sourceCount: 12 }))).toBe(
+      "Comets are **ice** and dust [1].\n\nReviewed 12 sources:\n- ESA — https://esa.int",
+    );
+    expect(formatAnswer(answer({ sourceCount: 3 }))).toBe("Comets are **ice** and dust [1].\n\nReviewed 3 sources");
+  });
+});
+
+describe("clampAnswer", () => {
+  const snapshot = (markdown: string | null): AgentStatusSnapshot => ({
+    status: "completed",
+    steps: [],
+    currentStep: "",
+    answer: markdown === null ? null : answer({ markdown }),
+    hasStopButton: false,
+  });
+
+  it("cuts answers over 50,000 characters and keeps the rest of the snapshot", () => {
+    const clamped = clampAnswer(snapshot("x".repeat(60_000)));
+    expect(clamped.answer!.markdown).toHaveLength(50_000);
+    expect(clamped.status).toBe("completed");
+  });
+
+  it("leaves short answers and missing answers alone", () => {
+    expect(clampAnswer(snapshot("short")).answer!.markdown).toBe("short");
+    expect(clampAnswer(snapshot(null)).answer).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DEFAULT_CONFIG, cdpHttpUrl, isLocalCdpHost, loadConfig, parseConfigFile } from "../../src/config.js";
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("takes flags over environment over the config file", () => {
+    const file = join(dir, "config.yaml");
+    writeFileSync(file, "cdpHost: 10.0.0.5\ncdpPort: 9300\nhttpPort: 4000\nmonitorUrl: http://10.0.0.5:5555/api/state\n");
+
+    const { config, sources } = loadConfig({
+      argv: ["--cdp-port", "9400", "--unrelated", "--http-port=4100"],
+      env: { COMET_CONFIG: file, COMET_CDP_PORT: "9350", COMET_PYTHON_PATH: "/usr/bin/python3.12" },
+    });
+
+    expect(config).toEqual({
+      ...DEFAULT_CONFIG,
+      cdpHost: "10.0.0.5",
+      cdpPort: 9400,
+      httpPort: 4100,
+      monitorUrl: "http://10.0.0.5:5555/api/state",
+      pythonPath: "/usr/bin/python3.12",
+    });
+    expect(sources).toEqual({
+      cdpHost: file,
+      cdpPort: "--cdp-port",
+      httpPort: "--http-port",
+      monitorUrl: file,
+      pythonPath: "COMET_PYTHON_PATH",
+    });
+  });
+
+  it("uses the defaults when nothing is set", () => {
+    // An empty named file keeps a real ~/.comet-mcp/config.json out of the test
+    const file = join(dir, "config.yaml");
+    writeFileSync(file, "");
+
+    const { config, sources } = loadConfig({ argv: [], env: { COMET_CONFIG: file } });
+    expect(config).toEqual(DEFAULT_CONFIG);
+    expect(config).toMatchObject({ cdpHost: "127.0.0.1", cdpPort: 9222, httpPort: 3456 });
+    expect(sources).toEqual({});
+  });
+
+  it("rejects invalid settings instead of falling back", () => {
+    expect(() => loadConfig({ argv: ["--cdp-port", "abc"], env: {} })).toThrow("--cdp-port must be a port number");
+    expect(() => loadConfig({ argv: ["--cdp-host"], env: {} })).toThrow("--cdp-host needs a value");
+    expect(() => loadConfig({ argv: [], env: { COMET_HTTP_PORT: "70000" } })).toThrow("COMET_HTTP_PORT must be a port number");
+    expect(() => loadConfig({ argv: ["--config", join(dir, "missing.json")], env: {} })).toThrow("config file not found");
+
+    const file = join(dir, "config.json");
+    writeFileSync(file, "{ not json");
+    expect(() => loadConfig({ argv: ["--config", file], env: {} })).toThrow(`Invalid configuration: ${file}`);
+  });
+});
+
+describe("parseConfigFile", () => {
+  it("checks keys and values", () => {
+    expect(parseConfigFile({ cdpPort: 9333, pythonServerPath: " /srv/server.py " })).toEqual({
+      cdpPort: 9333,
+      pythonServerPath: "/srv/server.py",
+    });
+    expect(parseConfigFile(null)).toEqual({});
+    expect(() => parseConfigFile({ cdpport: 9333 })).toThrow('unknown key "cdpport"');
+    expect(() => parseConfigFile({ monitorUrl: "not a url" })).toThrow("monitorUrl is not a URL");
+    expect(() => parseConfigFile({ cdpHost: "" })).toThrow("cdpHost must be a non-empty string");
+    expect(() => parseConfigFile(["cdpPort"])).toThrow("must be an object");
+  });
+
+  it("reads CORS origins from a list or a comma-separated string", () => {
+    expect(parseConfigFile({ corsOrigins: ["https://claude.ai/", "http://localhost:5173"] })).toEqual({
+      corsOrigins: ["https://claude.ai", "http://localhost:5173"],
+    });
+    expect(loadConfig({ argv: ["--cors-origins", "https://a.example, https://b.example"], env: {} }).config.corsOrigins)
+      .toEqual(["https://a.example", "https://b.example"]);
+    expect(() => parseConfigFile({ corsOrigins: ["https://claude.ai/chat"] })).toThrow("must list origins");
+    expect(() => parseConfigFile({ corsOrigins: 5 })).toThrow("must be a list of origins");
+  });
+
+  it("takes the browser executable from the file, environment or a flag", () => {
+    expect(DEFAULT_CONFIG.browserPath).toBe("");
+    expect(parseConfigFile({ browserPath: "/opt/comet/comet" })).toEqual({ browserPath: "/opt/comet/comet" });
+    expect(loadConfig({ argv: [], env: { COMET_BROWSER_PATH: "/usr/bin/chromium" } }).config.browserPath).toBe("/usr/bin/chromium");
+    expect(loadConfig({ argv: ["--browser-path=/usr/bin/google-chrome"], env: { COMET_BROWSER_PATH: "/usr/bin/chromium" } }))
+      .toMatchObject({ config: { browserPath: "/usr/bin/google-chrome" }, sources: { browserPath: "--browser-path" } });
+    expect(() => parseConfigFile({ browserPath: "" })).toThrow("browserPath must be a non-empty string");
+  });
+});
+
+describe("CDP endpoint helpers", () => {
+  it("builds the DevTools URL and tells local hosts apart", () => {
+    expect(cdpHttpUrl("127.0.0.1", 9222)).toBe("http://127.0.0.1:9222");
+    expect(cdpHttpUrl("::1", 9333)).toBe("http://[::1]:9333");
+    expect(isLocalCdpHost("localhost")).toBe(true);
+    expect(isLocalCdpHost("10.0.0.5")).toBe(false);
+  });
+});
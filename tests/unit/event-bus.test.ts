@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CometEventBus, cometEvents, type CometEvent } from "../../src/event-bus.js";
+import { CometAI, type AgentStatusSnapshot } from "../../src/comet-ai.js";
+import type { PageDriver } from "../../src/cdp-sessions.js";
+
+const fakes = vi.hoisted(() => ({ agentBrowsingUrl: "" }));
+
+vi.mock("../../src/cdp-client.js", () => ({
+  cometClient: {
+    listTabsCategorized: vi.fn(async () => ({
+      agentBrowsing: fakes.agentBrowsingUrl ? { url: fakes.agentBrowsingUrl } : undefined,
+    })),
+  },
+}));
+
+describe("CometEventBus", () => {
+  it("delivers each published event to every subscriber with a timestamp", () => {
+    const bus = new CometEventBus();
+    const first: CometEvent[] = [];
+    const second: CometEvent[] = [];
+    bus.subscribe((e) => first.push(e));
+    bus.subscribe((e) => second.push(e));
+
+    bus.publish({ type: "tab-groups", action: "sync", groups: [] });
+
+    expect(first).toEqual([{ type: "tab-groups", action: "sync", groups: [], timestamp: expect.any(Number) }]);
+    expect(second).toEqual(first);
+  });
+
+  it("stops delivering after unsubscribe and counts subscribers", () => {
+    const bus = new CometEventBus();
+    const received: CometEvent[] = [];
+    const unsubscribe = bus.subscribe((e) => received.push(e));
+    const other = bus.subscribe(() => {});
+    expect(bus.subscriberCount).toBe(2);
+
+    unsubscribe();
+    bus.publish({ type: "tab-groups", action: "create" });
+
+    expect(received).toEqual([]);
+    expect(bus.subscriberCount).toBe(1);
+    other();
+    expect(bus.subscriberCount).toBe(0);
+  });
+});
+
+describe("CometAI status events", () => {
+  let snapshot: AgentStatusSnapshot;
+  let events: CometEvent[];
+  let unsubscribe: () => void;
+
+  const page = (targetId?: string) =>
+    ({
+      targetId,
+      networkIdleMs: () => 0,
+      safeEvaluate: async () => ({ result: { value: snapshot } }),
+    }) as unknown as PageDriver;
+
+  beforeEach(() => {
+    snapshot = { status: "working", steps: ["Searching"], currentStep: "Searching", answer: null, hasStopButton: true };
+    fakes.agentBrowsingUrl = "";
+    events = [];
+    unsubscribe = cometEvents.subscribe((e) => events.push(e));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it("publishes an agent event only when status, step or browsing URL changes", async () => {
+    const ai = new CometAI(page());
+
+    await ai.getAgentStatus();
+    await ai.getAgentStatus();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "agent", status: "working", currentStep: "Searching", steps: ["Searching"], agentBrowsingUrl: "" });
+    expect(events[0]).not.toHaveProperty("targetId");
+
+    // New steps alone do not change the signature
+    snapshot = { ...snapshot, steps: ["Searching", "Reading sources"] };
+    await ai.getAgentStatus();
+    expect(events).toHaveLength(1);
+
+    snapshot = { ...snapshot, currentStep: "Reading sources" };
+    await ai.getAgentStatus();
+    fakes.agentBrowsingUrl = "https://example.com";
+    await ai.getAgentStatus();
+    snapshot = { ...snapshot, status: "completed" };
+    await ai.getAgentStatus();
+    await ai.getAgentStatus();
+
+    expect(events.map((e) => e.type === "agent" && [e.status, e.currentStep, e.agentBrowsingUrl])).toEqual([
+      ["working", "Searching", ""],
+      ["working", "Reading sources", ""],
+      ["working", "Reading sources", "https://example.com"],
+      ["completed", "Reading sources", "https://example.com"],
+    ]);
+  });
+
+  it("tracks unchanged status per tab and names the tab of a pooled session", async () => {
+    await new CometAI(page()).getAgentStatus();
+    await new CometAI(page("tab-2")).getAgentStatus();
+
+    expect(events).toHaveLength(2);
+    expect(events[1]).toMatchObject({ type: "agent", targetId: "tab-2" });
+  });
+});
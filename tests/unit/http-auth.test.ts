@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "fs";
+import { platform, tmpdir } from "os";
+import { join } from "path";
+import {
+  allowedOrigins,
+  checkAccess,
+  loadOrCreateTokens,
+  parseTokenFile,
+  presentedToken,
+  requiredScope,
+  type AccessToken,
+} from "../../src/http-auth.js";
+import { HTTP_ROUTES } from "../../src/http-routes.js";
+
+const FULL = "f".repeat(43);
+const READ = "r".repeat(43);
+const tokens: AccessToken[] = [
+  { name: "full", token: FULL, scope: "full" },
+  { name: "dashboard", token: READ, scope: "read" },
+];
+
+describe("token file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-tokens-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is created on first start with a full and a read-only token, then reused", () => {
+    const path = join(dir, "nested", "http-tokens.json");
+    const first = loadOrCreateTokens(path);
+    expect(first.created).toBe(true);
+    expect(first.tokens.map((t) => t.scope)).toEqual(["full", "read"]);
+    expect(first.tokens[0].token).not.toBe(first.tokens[1].token);
+    if (platform() !== "win32") expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    const second = loadOrCreateTokens(path);
+    expect(second.created).toBe(false);
+    expect(second.tokens).toEqual(first.tokens);
+  });
+
+  it("rejects malformed files instead of running without auth", () => {
+    const path = join(dir, "http-tokens.json");
+    writeFileSync(path, "{ nope");
+    expect(() => loadOrCreateTokens(path)).toThrow(`Invalid token file ${path}`);
+
+    expect(() => parseTokenFile({})).toThrow('expected { "tokens": [...] }');
+    expect(() => parseTokenFile({ tokens: [{ token: "short", scope: "full" }] })).toThrow("at least 16 characters");
+    expect(() => parseTokenFile({ tokens: [{ token: FULL, scope: "admin" }] })).toThrow("scope must be one of read, full");
+    expect(parseTokenFile({ tokens: [{ token: FULL, scope: "read" }] })).toEqual([{ name: "token 1", token: FULL, scope: "read" }]);
+  });
+});
+
+describe("access checks", () => {
+  it("maps routes to scopes", () => {
+    expect(requiredScope("GET", "/dashboard")).toBeNull();
+    expect(requiredScope("GET", "/api/dashboard-data")).toBe("read");
+    expect(requiredScope("GET", "/api/events")).toBe("read");
+    expect(requiredScope("POST", "/api/ask")).toBe("full");
+    expect(requiredScope("POST", "/api/tab-groups/delete")).toBe("full");
+    expect(requiredScope("GET", "/mcp")).toBe("full");
+  });
+
+  it("reads the token from the Authorization header, or the query string on GET", () => {
+    const url = new URL("http://localhost/api/events?access_token=abc");
+    expect(presentedToken("GET", "Bearer xyz", url)).toBe("xyz");
+    expect(presentedToken("GET", undefined, url)).toBe("abc");
+    expect(presentedToken("POST", undefined, url)).toBeNull();
+    expect(presentedToken("GET", "Basic xyz", new URL("http://localhost/"))).toBeNull();
+  });
+
+  it("lets read tokens look and full tokens act", () => {
+    expect(checkAccess(tokens, "GET", "/dashboard", null)).toEqual({ allowed: true, token: null });
+    expect(checkAccess(tokens, "GET", "/api/poll", null)).toMatchObject({ allowed: false, status: 401 });
+    expect(checkAccess(tokens, "GET", "/api/poll", "x".repeat(43))).toMatchObject({ allowed: false, status: 401 });
+    expect(checkAccess(tokens, "GET", "/api/tasks", READ)).toMatchObject({ allowed: true });
+    expect(checkAccess(tokens, "POST", "/api/ask", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "POST", "/mcp", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "POST", "/api/ask", FULL)).toMatchObject({ allowed: true, token: { name: "full" } });
+  });
+
+  it("keeps read tokens from GETs that capture or attach to a page", () => {
+    expect(checkAccess(tokens, "GET", "/api/screenshot", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "GET", "/api/selfcheck", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "GET", "/api/poll", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "GET", "/api/screenshot", FULL)).toMatchObject({ allowed: true });
+    expect(requiredScope("GET", "/api/not-yet-listed")).toBe("full");
+
+    const fullGets = HTTP_ROUTES.filter((r) => r.method === "GET" && requiredScope("GET", r.path) === "full");
+    expect(fullGets.map((r) => r.path).sort()).toEqual(["/api/poll", "/api/screenshot", "/api/selfcheck"]);
+  });
+
+  it("keeps read tokens from thread history, which can open the thread in a tab", () => {
+    expect(requiredScope("POST", "/api/threads/history")).toBe("full");
+    expect(checkAccess(tokens, "POST", "/api/threads/history", READ)).toMatchObject({ allowed: false, status: 403 });
+    expect(checkAccess(tokens, "POST", "/api/threads/history", FULL)).toMatchObject({ allowed: true });
+    expect(checkAccess(tokens, "GET", "/api/threads", READ)).toMatchObject({ allowed: true });
+  });
+
+  it("allows the configured origins and the bridge's own", () => {
+    const origins = allowedOrigins(["https://claude.ai"], 3456);
+    expect(origins.has("https://claude.ai")).toBe(true);
+    expect(origins.has("http://localhost:3456")).toBe(true);
+    expect(origins.has("http://localhost:3000")).toBe(false);
+    expect(origins.has("https://evil.example")).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { HTTP_ROUTES, findRoute, queryParams } from "../../src/http-routes.js";
+import { buildOpenApiDocument, generateClientSource } from "../../src/openapi.js";
+import { validateSchema } from "../../src/json-schema.js";
+import { TOOLS } from "../../src/tool-definitions.js";
+import { CometBridgeClient, CometBridgeError } from "../../src/client.js";
+
+const CLIENT_PATH = fileURLToPath(new URL("../../src/client.ts", import.meta.url));
+
+describe("HTTP route table", () => {
+  it("has one route per method and path, each with a unique operationId", () => {
+    const keys = HTTP_ROUTES.map((r) => `${r.method} ${r.path}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    const ids = HTTP_ROUTES.map((r) => r.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const route of HTTP_ROUTES) {
+      if (route.tool) expect(TOOLS.map((t) => t.name)).toContain(route.tool.name);
+    }
+  });
+
+  it("takes tool routes' parameters from the tool schemas", () => {
+    const ask = findRoute("POST", "/api/ask")!;
+    expect(ask.params.properties).toEqual(TOOLS.find((t) => t.name === "comet_ask")!.inputSchema.properties);
+    expect(ask.params.required).toEqual(["prompt"]);
+
+    const create = findRoute("POST", "/api/tab-groups")!;
+    expect(Object.keys(create.params.properties!)).toEqual(["tabIds", "title", "color"]);
+    expect(create.tool).toEqual({ name: "comet_tab_groups", args: { action: "create" } });
+    expect(findRoute("GET", "/api/ask")).toBeNull();
+  });
+
+  it("serves thread history over POST, since reading a thread may open it in a tab", () => {
+    expect(findRoute("GET", "/api/threads/history")).toBeNull();
+    expect(findRoute("POST", "/api/threads/history")!.tool).toEqual({ name: "comet_threads", args: { action: "history" } });
+    expect(buildOpenApiDocument().paths["/api/threads/history"].post["x-required-scope"]).toBe("full");
+  });
+
+  it("refuses misspelled and mistyped fields", () => {
+    const ask = findRoute("POST", "/api/ask")!;
+    expect(validateSchema(ask.params, { prompt: "hi", new_chat: true })).toEqual([
+      expect.stringMatching(/^new_chat is not a known field/),
+    ]);
+    expect(validateSchema(ask.params, { prompt: "hi", timeout: "30s" })).toEqual(["timeout must be a number"]);
+    expect(validateSchema(findRoute("POST", "/api/tab-groups/delete")!.params, {})).toEqual(["groupId is required"]);
+  });
+
+  it("converts query parameters to the declared types and drops the access token", () => {
+    const threads = findRoute("GET", "/api/threads")!;
+    expect(queryParams(threads, new URL("http://x/api/threads?limit=5&access_token=t"))).toEqual({ limit: 5 });
+    expect(validateSchema(threads.params, queryParams(threads, new URL("http://x/api/threads?limit=lots")))).toEqual([
+      "limit must be a number",
+    ]);
+    const health = findRoute("GET", "/api/health")!;
+    expect(queryParams(health, new URL("http://x/api/health?force=true"))).toEqual({ force: true });
+  });
+});
+
+describe("OpenAPI document", () => {
+  it("describes every route with its parameters and scope", () => {
+    const doc = buildOpenApiDocument({ serverUrl: "http://localhost:4000" });
+    expect(doc.servers).toEqual([{ url: "http://localhost:4000" }]);
+    for (const route of HTTP_ROUTES) {
+      expect(doc.paths[route.path][route.method.toLowerCase()].operationId).toBe(route.operationId);
+    }
+
+    const ask = doc.paths["/api/ask"].post;
+    expect(ask["x-required-scope"]).toBe("full");
+    expect(ask.requestBody).toMatchObject({ required: true, content: { "application/json": { schema: { required: ["prompt"] } } } });
+
+    const poll = doc.paths["/api/poll"].get;
+    expect(poll["x-required-scope"]).toBe("full");
+    expect(poll.parameters!.map((p) => p.name)).toEqual(["task_id", "tab_id"]);
+    expect(doc.paths["/api/tasks"].get["x-required-scope"]).toBe("read");
+    expect(doc.paths["/dashboard"].get.security).toEqual([]);
+  });
+});
+
+describe("generated client", () => {
+  it("is up to date with the route table (run npm run generate:client)", () => {
+    expect(readFileSync(CLIENT_PATH, "utf-8")).toBe(generateClientSource(buildOpenApiDocument()));
+  });
+
+  it("sends typed requests with the token and throws on errors", async () => {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const fakeFetch = (async (url: URL, init: RequestInit) => {
+      calls.push({ url: url.toString(), init });
+      return url.pathname === "/api/stop"
+        ? new Response(JSON.stringify({ error: "Invalid request: task is not a known field" }), { status: 400 })
+        : new Response(JSON.stringify({ status: "idle" }), { status: 200 });
+    }) as unknown as typeof fetch;
+    const client = new CometBridgeClient({ baseUrl: "http://127.0.0.1:4000", token: "secret", fetch: fakeFetch });
+
+    expect(await client.poll({ tab_id: "T1" })).toEqual({ status: "idle" });
+    expect(calls[0].url).toBe("http://127.0.0.1:4000/api/poll?tab_id=T1");
+    expect(calls[0].init.headers).toEqual({ Authorization: "Bearer secret" });
+
+    await client.ask({ prompt: "hi", newChat: true });
+    expect(calls[1].init).toMatchObject({ method: "POST", body: JSON.stringify({ prompt: "hi", newChat: true }) });
+
+    const error = await client.stop({ task_id: "t1" }).catch((e) => e);
+    expect(error).toBeInstanceOf(CometBridgeError);
+    expect(error.status).toBe(400);
+    expect(error.message).toBe("Invalid request: task is not a known field");
+  });
+});
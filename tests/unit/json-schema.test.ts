@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { validateSchema, type JsonSchema } from "../../src/json-schema.js";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    prompt: { type: "string", minLength: 1 },
+    timeout: { type: "number", minimum: 0 },
+    limit: { type: "integer" },
+    mode: { type: "string", enum: ["search", "research"] },
+    tabIds: { type: "array", items: { type: "number" }, maxItems: 2 },
+    attachments: {
+      type: "array",
+      items: { oneOf: [{ type: "string" }, { type: "object", properties: { path: { type: "string" } } }] },
+    },
+  },
+  required: ["prompt"],
+  additionalProperties: false,
+};
+
+describe("validateSchema", () => {
+  it("accepts values that match", () => {
+    expect(validateSchema(schema, { prompt: "hi" })).toEqual([]);
+    expect(validateSchema(schema, {
+      prompt: "hi",
+      timeout: 1.5,
+      limit: 3,
+      mode: "research",
+      tabIds: [1, 2],
+      attachments: ["a.pdf", { path: "b.png" }],
+    })).toEqual([]);
+  });
+
+  it("names each field that does not match", () => {
+    expect(validateSchema(schema, {
+      prompt: "",
+      timeout: "soon",
+      limit: 1.5,
+      mode: "turbo",
+      tabIds: [1, "2", 3],
+      attachments: [5],
+      promt: "typo",
+    })).toEqual([
+      "prompt must be at least 1 character(s) long",
+      "timeout must be a number",
+      "limit must be an integer",
+      'mode must be one of "search", "research"',
+      "tabIds must have at most 2 item(s)",
+      "tabIds[1] must be a number",
+      "attachments[0] must match exactly one of 2 allowed forms",
+      "promt is not a known field (known: prompt, timeout, limit, mode, tabIds, attachments)",
+    ]);
+  });
+
+  it("reports missing required fields and wrong top-level types", () => {
+    expect(validateSchema(schema, {})).toEqual(["prompt is required"]);
+    expect(validateSchema(schema, ["prompt"])).toEqual(["value must be an object"]);
+    expect(validateSchema({ type: "number" }, Number.NaN)).toEqual(["value must be a number"]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createMcpServer } from "../../src/mcp-server.js";
+import type { ProgressReporter, ToolOutput } from "../../src/tool-service.js";
+
+describe("createMcpServer progress", () => {
+  let reporters: Array<ProgressReporter | undefined>;
+  let server: Server;
+  let client: Client;
+
+  beforeEach(async () => {
+    reporters = [];
+    // Reports progress the way comet_ask does while the agent works
+    const tools = {
+      call: async (_name: string, _args: Record<string, unknown>, onProgress?: ProgressReporter): Promise<ToolOutput> => {
+        reporters.push(onProgress);
+        await onProgress?.("Step: Searching the web");
+        await onProgress?.("Answer: Comets are ice");
+        return { data: { status: "completed" }, text: "Comets are ice" };
+      },
+    };
+    server = createMcpServer(tools);
+    client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("sends each step and answer chunk as a progress notification when the client passes a progressToken", async () => {
+    const received: Array<{ progress: number; message?: string }> = [];
+    const result = await client.callTool({ name: "comet_ask", arguments: { prompt: "comets" } }, undefined, {
+      onprogress: ({ progress, message }) => {
+        received.push({ progress, message });
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(reporters[0]).toBeTypeOf("function");
+    expect(received).toEqual([
+      { progress: 1, message: "Step: Searching the web" },
+      { progress: 2, message: "Answer: Comets are ice" },
+    ]);
+  });
+
+  it("runs the tool without a progress reporter when no progressToken is given", async () => {
+    const result = await client.callTool({ name: "comet_poll", arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    // The server only notifies through the reporter, so none can be sent
+    expect(reporters).toEqual([undefined]);
+  });
+});
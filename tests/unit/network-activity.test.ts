@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import type CDP from "chrome-remote-interface";
+import { NetworkActivity } from "../../src/network-activity.js";
+
+function setup() {
+  const client = new EventEmitter();
+  let now = 1_000;
+  const activity = new NetworkActivity(client as unknown as CDP.Client, () => now);
+  const emit = (method: string, requestId?: string) => client.emit("event", { method, params: { requestId } });
+  const advance = (ms: number) => {
+    now += ms;
+  };
+  return { activity, emit, advance };
+}
+
+describe("NetworkActivity", () => {
+  it("counts quiet time from the last network event", () => {
+    const { activity, emit, advance } = setup();
+    advance(500);
+    expect(activity.idleMs()).toBe(500);
+
+    emit("Network.requestWillBeSent", "r1");
+    advance(1_000);
+    expect(activity.idleMs()).toBe(0);
+
+    emit("Network.dataReceived", "r1");
+    emit("Network.loadingFinished", "r1");
+    advance(2_500);
+    expect(activity.idleMs()).toBe(2_500);
+  });
+
+  it("treats socket frames as activity without keeping the tab busy", () => {
+    const { activity, emit, advance } = setup();
+    emit("Network.webSocketFrameReceived", "ws");
+    advance(300);
+    expect(activity.idleMs()).toBe(300);
+  });
+
+  it("ignores other domains and stops waiting on stalled requests", () => {
+    const { activity, emit, advance } = setup();
+    emit("Network.requestWillBeSent", "long-poll");
+    advance(10_000);
+    emit("Page.frameNavigated");
+    expect(activity.idleMs()).toBe(0);
+
+    advance(25_000);
+    expect(activity.idleMs()).toBe(35_000);
+  });
+});
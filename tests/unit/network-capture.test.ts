@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import type CDP from "chrome-remote-interface";
+import {
+  AnswerCapture,
+  STREAM_GRACE_MS,
+  answerFromStreamEvents,
+  parseEventStream,
+  settledAnswerSource,
+} from "../../src/network-capture.js";
+
+const WEB_RESULTS = [
+  { name: "CDP docs", url: "https://chromedevtools.github.io/devtools-protocol/" },
+  { name: "MDN", url: "https://developer.mozilla.org/" },
+];
+
+function sse(...events: unknown[]): string {
+  return events.map((e) => `event: message\ndata: ${JSON.stringify(e)}\n\n`).join("") + ": keep-alive\n\n";
+}
+
+describe("parseEventStream", () => {
+  it("returns the JSON data of each event and skips the rest", () => {
+    const body = 'event: message\r\ndata: {"a":1}\r\n\r\ndata: not json\n\ndata: {"b":\ndata: 2}\n\n';
+    expect(parseEventStream(body)).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+});
+
+describe("answerFromStreamEvents", () => {
+  it("rebuilds block-format answers from chunks and web results", () => {
+    const events = parseEventStream(sse(
+      { blocks: [{ intended_usage: "web_results", web_result_block: { web_results: WEB_RESULTS } }] },
+      { blocks: [{ intended_usage: "ask_text", markdown_block: { chunks: ["CDP is ", "a protocol"], chunk_starting_offset: 0 } }] },
+      { blocks: [{ intended_usage: "ask_text", markdown_block: { chunks: [" [2][1]."], chunk_starting_offset: 17 } }] },
+      { status: "COMPLETED", final_sse_message: true },
+    ));
+
+    const parsed = answerFromStreamEvents(events)!;
+    expect(parsed.final).toBe(true);
+    expect(parsed.answer).toEqual({
+      markdown: "CDP is a protocol [2][1].",
+      citations: [
+        { marker: 1, url: WEB_RESULTS[0].url, title: "CDP docs" },
+        { marker: 2, url: WEB_RESULTS[1].url, title: "MDN" },
+      ],
+      sources: WEB_RESULTS.map((r) => ({ url: r.url, title: r.name })),
+      sourceCount: 2,
+    });
+  });
+
+  it("reads the answer of a FINAL step in the older text format", () => {
+    const answer = JSON.stringify({ answer: "Old format [1]", web_results: WEB_RESULTS.slice(0, 1) });
+    const text = JSON.stringify([{ step_type: "INITIAL_QUERY" }, { step_type: "FINAL", content: { answer } }]);
+    const parsed = answerFromStreamEvents([{ text, final: true }])!;
+
+    expect(parsed.answer.markdown).toBe("Old format [1]");
+    expect(parsed.answer.citations).toHaveLength(1);
+  });
+
+  it("returns null for unknown payloads", () => {
+    expect(answerFromStreamEvents([{ type: "ping" }, "text"])).toBeNull();
+  });
+});
+
+describe("AnswerCapture", () => {
+  function setup(body: string) {
+    const client = Object.assign(new EventEmitter(), {
+      send: vi.fn(async () => ({ body, base64Encoded: false })),
+    });
+    const capture = new AnswerCapture(client as unknown as CDP.Client);
+    const emit = (method: string, params: Record<string, unknown>) => client.emit("event", { method, params });
+    const stream = (requestId: string) =>
+      emit("Network.responseReceived", {
+        requestId,
+        response: { url: "https://www.perplexity.ai/rest/sse/perplexity_ask", mimeType: "text/event-stream" },
+      });
+    return { capture, client, emit, stream };
+  }
+
+  it("reads the answer once the stream finishes", async () => {
+    const { capture, client, emit, stream } = setup(sse({ text: JSON.stringify({ answer: "Hi", web_results: [] }) }));
+
+    stream("r0");
+    expect(capture.result().state).toBe("idle");
+
+    capture.start();
+    emit("Network.responseReceived", { requestId: "img", response: { url: "https://www.perplexity.ai/logo.png" } });
+    stream("r1");
+    expect(capture.result().state).toBe("streaming");
+
+    emit("Network.loadingFinished", { requestId: "r1" });
+    await vi.waitFor(() => expect(capture.result().state).toBe("finished"));
+    expect(capture.result().answer?.markdown).toBe("Hi");
+    expect(client.send).toHaveBeenCalledWith("Network.getResponseBody", { requestId: "r1" });
+  });
+
+  it("reports unrecognised streams so callers fall back to the page", async () => {
+    const { capture, emit, stream } = setup(sse({ something: "else" }));
+    capture.start();
+    stream("r1");
+    emit("Network.loadingFinished", { requestId: "r1" });
+    await vi.waitFor(() => expect(capture.result().state).toBe("unrecognized"));
+    expect(capture.result().error).toContain("Unrecognized");
+  });
+});
+
+describe("settledAnswerSource", () => {
+  const answer = { markdown: "x", citations: [], sources: [], sourceCount: null };
+
+  it("prefers the captured answer and falls back to the page", () => {
+    expect(settledAnswerSource({ state: "finished", answer, url: null }, null)).toBe("network");
+    expect(settledAnswerSource(null, null)).toBeNull();
+    expect(settledAnswerSource(null, 0)).toBe("dom");
+    expect(settledAnswerSource({ state: "unrecognized", answer: null, url: null }, 0)).toBe("dom");
+    expect(settledAnswerSource({ state: "streaming", answer: null, url: null }, 0)).toBeNull();
+    expect(settledAnswerSource({ state: "streaming", answer: null, url: null }, STREAM_GRACE_MS)).toBe("dom");
+  });
+});
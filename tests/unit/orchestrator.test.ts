@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { CometOrchestrator } from "../../src/orchestrator.js";
+import { TaskQueue } from "../../src/task-queue.js";
+import { TaskTemplateRegistry } from "../../src/task-templates.js";
+import { ToolRouter, type PythonBridge } from "../../src/tool-router.js";
+import { HealthChecker } from "../../src/health.js";
+import { MonitorProxy } from "../../src/monitor-proxy.js";
+import { DormancyManager } from "../../src/dormancy.js";
+import type { TaskTemplate, ToolDescriptor, ToolResult } from "../../src/types.js";
+
+const stubBridge: PythonBridge = {
+  listTools: async () => [],
+  callTool: async (toolName: string): Promise<ToolResult> => ({
+    toolName,
+    server: "comet-browser",
+    success: true,
+    data: null,
+    duration_ms: 0,
+  }),
+};
+
+const localTools: ToolDescriptor[] = ["comet_connect", "comet_ask"].map((name) => ({
+  name,
+  qualifiedName: `mcp:${name}`,
+  server: "comet-mcp",
+  category: "ai",
+  schema: {},
+  description: name,
+  isCanonical: true,
+}));
+
+const twoStepTemplate: TaskTemplate = {
+  name: "two-step",
+  description: "connect then ask",
+  triggerPatterns: ["two step"],
+  defaultParams: {},
+  steps: [
+    { toolName: "comet_connect", server: "comet-mcp", paramTemplate: {}, description: "connect" },
+    { toolName: "comet_ask", server: "comet-mcp", paramTemplate: { prompt: "hi" }, description: "ask" },
+  ],
+};
+
+/** A promise plus its resolver, for holding a step open until the test releases it. */
+function gate(): { promise: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => (open = resolve));
+  return { promise, open };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 1000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("waitFor timed out");
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe("CometOrchestrator task worker", () => {
+  let calls: string[];
+  let handler: (name: string, params: Record<string, unknown>, signal?: AbortSignal) => Promise<unknown>;
+  let orchestrator: CometOrchestrator;
+
+  beforeEach(() => {
+    calls = [];
+    handler = async (name) => {
+      calls.push(name);
+      return { content: [{ type: "text", text: `${name} ok` }] };
+    };
+
+    orchestrator = makeOrchestrator(twoStepTemplate);
+  });
+
+  function makeOrchestrator(template: TaskTemplate): CometOrchestrator {
+    const templateRegistry = new TaskTemplateRegistry({ skipBuiltins: true });
+    templateRegistry.register(template);
+    const dormancyManager = new DormancyManager();
+    const monitorProxy = new MonitorProxy();
+
+    return new CometOrchestrator({
+      toolRouter: new ToolRouter(localTools, stubBridge, (name, params, signal) => handler(name, params, signal)),
+      taskQueue: new TaskQueue(),
+      templateRegistry,
+      healthChecker: new HealthChecker({ dormancyManager, monitorProxy }),
+      monitorProxy,
+      dormancyManager,
+    });
+  }
+
+  it("runs async tasks in the background and records the result", async () => {
+    const pending = await orchestrator.delegate("two step", { async: true });
+    const taskId = (pending.payload as { taskId: string }).taskId;
+
+    await waitFor(() => orchestrator.getTaskStatus(taskId)?.state === "completed");
+    const task = orchestrator.getTaskStatus(taskId)!;
+    expect(calls).toEqual(["comet_connect", "comet_ask"]);
+    expect(task.result?.status).toBe("success");
+    expect(task.result?.steps_completed).toBe(2);
+  });
+
+  it("runs tasks for the same tab one at a time, in order", async () => {
+    const first = gate();
+    handler = async (name, params) => {
+      calls.push(`${name}:${params.prompt ?? ""}`);
+      if (calls.length === 1) await first.promise;
+      return null;
+    };
+
+    const a = await orchestrator.delegate("two step", { async: true, targetTab: "t1" });
+    const b = await orchestrator.delegate("two step", { async: true, targetTab: "t1" });
+    const idA = (a.payload as { taskId: string }).taskId;
+    const idB = (b.payload as { taskId: string }).taskId;
+
+    await waitFor(() => calls.length === 1);
+    expect(orchestrator.getTaskStatus(idB)?.state).toBe("pending");
+
+    first.open();
+    await waitFor(() => orchestrator.getTaskStatus(idB)?.state === "completed");
+    expect(orchestrator.getTaskStatus(idA)?.state).toBe("completed");
+    expect(calls).toHaveLength(4);
+  });
+
+  it("runs tasks for different tabs concurrently, passing each its tab_id", async () => {
+    const held = gate();
+    const tabs: unknown[] = [];
+    handler = async (name, params) => {
+      if (name === "comet_ask") {
+        tabs.push(params.tab_id);
+        await held.promise;
+      }
+      return null;
+    };
+
+    await orchestrator.delegate("two step", { async: true, targetTab: "A" });
+    await orchestrator.delegate("two step", { async: true, targetTab: "B" });
+    await waitFor(() => tabs.length === 2);
+    expect(tabs.sort()).toEqual(["A", "B"]);
+
+    held.open();
+    await waitFor(() => orchestrator.listTasks({ state: "completed" }).length === 2);
+  });
+
+  it("stops a running task at the next step boundary when cancelled", async () => {
+    const connect = gate();
+    handler = async (name) => {
+      calls.push(name);
+      if (name === "comet_connect") await connect.promise;
+      return null;
+    };
+
+    const pending = await orchestrator.delegate("two step", { async: true });
+    const taskId = (pending.payload as { taskId: string }).taskId;
+    await waitFor(() => calls.length === 1);
+
+    expect(orchestrator.cancelTask(taskId)).toBe(true);
+    connect.open();
+
+    await waitFor(() => orchestrator.getTaskStatus(taskId)?.result != null);
+    const task = orchestrator.getTaskStatus(taskId)!;
+    expect(task.state).toBe("cancelled");
+    expect(task.result?.status).toBe("cancelled");
+    expect(calls).toEqual(["comet_connect"]);
+  });
+
+  it("settles a synchronous caller whose queued task is cancelled", async () => {
+    const first = gate();
+    handler = async (name) => {
+      calls.push(name);
+      if (calls.length === 1) await first.promise;
+      return null;
+    };
+
+    await orchestrator.delegate("two step", { async: true });
+    await waitFor(() => calls.length === 1);
+
+    const sync = orchestrator.delegate("two step");
+    const queued = orchestrator.listTasks({ state: "pending" })[0];
+    expect(orchestrator.cancelTask(queued.id)).toBe(true);
+
+    await expect(sync).resolves.toMatchObject({ status: "cancelled" });
+    first.open();
+  });
+
+  it("keeps a failed state instead of reporting completion", async () => {
+    handler = async (name) => {
+      if (name === "comet_ask") throw new Error("boom");
+      return null;
+    };
+
+    const result = await orchestrator.delegate("two step");
+    expect(result.status).toBe("failure");
+    expect(result.error?.code).toBe("STEP_FAILED");
+    expect(orchestrator.listTasks()[0].state).toBe("failed");
+  });
+
+  it("pipes an earlier step's result into a later step's params", async () => {
+    const seen: Record<string, unknown>[] = [];
+    handler = async (name, params) => {
+      seen.push(params);
+      return name === "comet_connect"
+        ? { content: [{ type: "text", text: JSON.stringify({ tab: "perplexity", count: 2 }) }] }
+        : null;
+    };
+    const pipedOrchestrator = makeOrchestrator({
+      ...twoStepTemplate,
+      steps: [
+        twoStepTemplate.steps[0],
+        { ...twoStepTemplate.steps[1], paramTemplate: { prompt: "tab {{steps[0].result.tab}}", n: "{{steps[0].result.count}}" } },
+      ],
+    });
+
+    const result = await pipedOrchestrator.delegate("two step");
+    expect(result.status).toBe("success");
+    expect(seen[1]).toEqual({ prompt: "tab perplexity", n: 2 });
+    expect(pipedOrchestrator.listTasks()[0].steps[1].params).toEqual({ prompt: "tab perplexity", n: 2 });
+  });
+
+  describe("step policies", () => {
+    const [connect, ask] = twoStepTemplate.steps;
+
+    function withSteps(...steps: TaskTemplate["steps"]): CometOrchestrator {
+      return makeOrchestrator({ ...twoStepTemplate, steps });
+    }
+
+    it("retries a flaky step with backoff", async () => {
+      let failures = 2;
+      handler = async (name) => {
+        calls.push(name);
+        if (name === "comet_ask" && failures-- > 0) throw new Error("stale element");
+        return "ok";
+      };
+
+      const result = await withSteps(connect, { ...ask, retry: { count: 2, backoff_ms: 1 } }).delegate("two step");
+      expect(result.status).toBe("success");
+      expect(calls).toEqual(["comet_connect", "comet_ask", "comet_ask", "comet_ask"]);
+    });
+
+    it("fails once retries are exhausted", async () => {
+      handler = async (name) => {
+        if (name === "comet_ask") throw new Error("stale element");
+        return "ok";
+      };
+
+      const orch = withSteps(connect, { ...ask, retry: { count: 1, backoff_ms: 1 } });
+      const result = await orch.delegate("two step");
+      expect(result.error).toMatchObject({ code: "STEP_FAILED", message: "stale element", failedStep: 1 });
+      expect(orch.listTasks()[0].steps[1].attempts).toBe(2);
+    });
+
+    it("skips a step whose when condition does not hold", async () => {
+      const orch = withSteps(
+        { ...connect, optional: true },
+        { ...ask, when: { step: 0, path: "result.ready", equals: true } },
+      );
+      handler = async (name) => {
+        calls.push(name);
+        return { structuredContent: { ready: false } };
+      };
+
+      const result = await orch.delegate("two step");
+      expect(result.status).toBe("success");
+      expect(calls).toEqual(["comet_connect"]);
+      expect(orch.listTasks()[0].steps[1].status).toBe("skipped");
+    });
+
+    it("runs onFailure fallbacks and pipes their result onward", async () => {
+      handler = async (name) => {
+        calls.push(name);
+        if (name === "comet_connect") throw new Error("no tab");
+        return name === "comet_ask" ? "fallback answer" : "ok";
+      };
+
+      const orch = withSteps(
+        { ...connect, onFailure: [{ ...ask, paramTemplate: { prompt: "recover" } }] },
+        { ...ask, paramTemplate: { prompt: "{{steps[0].result}}" } },
+      );
+      const result = await orch.delegate("two step");
+      expect(result.status).toBe("success");
+
+      const [first, second] = orch.listTasks()[0].steps;
+      expect(first).toMatchObject({ status: "completed", error: "no tab", result: "fallback answer" });
+      expect(first.onFailure?.[0].status).toBe("completed");
+      expect(second.params).toEqual({ prompt: "fallback answer" });
+    });
+
+    it("reports both errors when the fallback also fails", async () => {
+      handler = async () => {
+        throw new Error("down");
+      };
+
+      const result = await withSteps({ ...connect, onFailure: [ask] }, ask).delegate("two step");
+      expect(result.error?.message).toBe("down; onFailure comet_ask failed: down");
+    });
+
+    it("fails a step that exceeds its timeout", async () => {
+      const hang = gate();
+      handler = async (name) => {
+        if (name === "comet_ask") await hang.promise;
+        return "ok";
+      };
+
+      const result = await withSteps(connect, { ...ask, timeout_ms: 20 }).delegate("two step");
+      expect(result.error?.message).toBe("comet_ask timed out after 20ms");
+      hang.open();
+    });
+
+    it("aborts a step that times out, so it stops and frees its tab", async () => {
+      let signal: AbortSignal | undefined;
+      handler = async (name, _params, stepSignal) => {
+        if (name !== "comet_ask") return "ok";
+        signal = stepSignal;
+        // Holds the tab until aborted, like comet_ask polling the agent
+        return new Promise((_, reject) => stepSignal!.addEventListener("abort", () => reject(stepSignal!.reason)));
+      };
+      const orch = withSteps(connect, { ...ask, timeout_ms: 20 });
+
+      const result = await orch.delegate("two step");
+      expect(result.error?.message).toBe("comet_ask timed out after 20ms");
+      expect(signal?.aborted).toBe(true);
+
+      // The tab is free again for the next task
+      handler = async () => "ok";
+      expect((await orch.delegate("two step")).status).toBe("success");
+    });
+
+    it("stops a step without its own timeout at the task deadline", async () => {
+      const hang = gate();
+      handler = async (name) => {
+        if (name === "comet_ask") await hang.promise;
+        return "ok";
+      };
+
+      // Ample for comet_connect to finish; the outcome must not hinge on when the timer fires
+      const orch = withSteps(connect, { ...ask, timeout_ms: 60_000 });
+      const result = await orch.delegate("two step", { timeout_ms: 250 });
+      expect(result).toMatchObject({ status: "partial", steps_completed: 1 });
+      expect(result.error).toMatchObject({ code: "TIMEOUT", message: "Task timed out after 250ms", failedStep: 1 });
+      expect(orch.listTasks()[0].steps[1]).toMatchObject({
+        status: "failed",
+        result: "comet_ask ran past the task timeout of 250ms",
+      });
+
+      const unbounded = await withSteps(connect, ask).delegate("two step", { timeout_ms: 250 });
+      expect(unbounded.error).toMatchObject({ code: "TIMEOUT", failedStep: 1 });
+      hang.open();
+    });
+  });
+});
@@ -63,6 +63,11 @@ vi.mock("fs", () => ({
   existsSync: vi.fn(() => true),
 }));
 
+// config.ts reads files through the mocked fs; the bridge only needs its paths
+vi.mock("../../src/config.js", () => ({
+  cometConfig: () => ({ pythonServerPath: "/opt/comet-browser/server.py", pythonPath: "python3" }),
+}));
+
 describe("PythonBridge", () => {
   let bridge: PythonBridge;
 
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  ResearchBatch,
+  researchBatchOptionsFrom,
+  type ResearchBatchDeps,
+  type ResearchTab,
+} from "../../src/research-batch.js";
+import type { TabInfo } from "../../src/tab-groups.js";
+
+interface FakeTab extends ResearchTab {
+  openedAt: string;
+  url: string;
+  detached: boolean;
+}
+
+/**
+ * Fake browser: each tab answers after `pollsUntilDone` status reads,
+ * with the prompt echoed back. A prompt containing "hang" never finishes;
+ * one containing "stuck" never answers a status read at all.
+ */
+function fakeBrowser(options: { pollsUntilDone?: number; failOpen?: (url: string) => boolean } = {}) {
+  const tabs: FakeTab[] = [];
+  const closed: string[] = [];
+  const groups: { tabIds: number[]; title?: string }[] = [];
+
+  const deps: ResearchBatchDeps = {
+    openTab: async (url) => {
+      if (options.failOpen?.(url)) throw new Error("tab limit");
+      let polls = 0;
+      const tab: FakeTab = {
+        targetId: `T${tabs.length}`,
+        openedAt: url,
+        url,
+        detached: false,
+        navigate: async (to) => {
+          tab.url = to;
+        },
+        evaluate: async (expression) => {
+          if (expression === "window.location.href") return `https://www.perplexity.ai/search/thread-${tab.targetId}`;
+          const prompt = decodeURIComponent(tab.url.split("?q=")[1] ?? "");
+          if (prompt.includes("stuck")) return new Promise(() => {});
+          const done = ++polls >= (options.pollsUntilDone ?? 1) && !prompt.includes("hang");
+          return {
+            status: done ? "completed" : "working",
+            steps: [],
+            currentStep: "",
+            hasStopButton: !done,
+            answer: done ? { markdown: `answer to ${prompt}`, citations: [], sources: [], sourceCount: null } : null,
+          };
+        },
+        detach: async () => {
+          tab.detached = true;
+        },
+      };
+      tabs.push(tab);
+      return tab;
+    },
+    closeTab: async (targetId) => {
+      closed.push(targetId);
+      return true;
+    },
+    tabGroups: {
+      listTabs: async () =>
+        tabs.map((t, i): TabInfo => ({ id: 100 + i, groupId: -1, windowId: 1, index: i, title: "", url: t.url, active: false })),
+      createGroup: async ({ tabIds, title }) => {
+        groups.push({ tabIds, title });
+        return { groupId: 7, group: { id: 7, collapsed: false, color: "blue", title: title ?? "", windowId: 1 } };
+      },
+    },
+  };
+  return { deps, tabs, closed, groups };
+}
+
+describe("ResearchBatch", () => {
+  it("runs every prompt in its own tab and collects the answers in order", async () => {
+    const browser = fakeBrowser({ pollsUntilDone: 2 });
+    const settled: string[] = [];
+
+    const result = await new ResearchBatch(browser.deps).run({
+      prompts: ["first question", "- second\nquestion"],
+      poll_interval_ms: 1,
+      onSettled: (item, n, total) => {
+        settled.push(`${n}/${total}`);
+      },
+    });
+
+    expect(result).toMatchObject({ status: "success", completed: 2, total: 2, group: null });
+    expect(result.results.map((r) => r.answer?.markdown)).toEqual(["answer to first question", "answer to second question"]);
+    expect(result.results[0].url).toBe("https://www.perplexity.ai/search/thread-T0");
+    expect(browser.tabs.map((t) => t.url)).toEqual([
+      "https://www.perplexity.ai/search?q=first%20question",
+      "https://www.perplexity.ai/search?q=second%20question",
+    ]);
+    expect(settled).toEqual(["1/2", "2/2"]);
+    expect(browser.tabs.every((t) => t.detached)).toBe(true);
+    expect(browser.closed).toEqual([]);
+  });
+
+  it("reports prompts that time out or whose tab failed to open", async () => {
+    const browser = fakeBrowser({ failOpen: (url) => url.endsWith("-1") });
+    const result = await new ResearchBatch(browser.deps).run({
+      prompts: ["ok", "never opened", "hang forever"],
+      timeout_ms: 30,
+      poll_interval_ms: 5,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.results.map((r) => r.status)).toEqual(["completed", "failed", "timeout"]);
+    expect(result.results[1].error).toBe("Could not open tab: tab limit");
+    expect(result.results[2].error).toBe("No answer within 30ms");
+  });
+
+  it("times out a tab whose page stops responding", async () => {
+    const browser = fakeBrowser();
+    const started = Date.now();
+    const result = await new ResearchBatch(browser.deps).run({
+      prompts: ["ok", "stuck page"],
+      timeout_ms: 50,
+      poll_interval_ms: 5,
+    });
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result.results.map((r) => r.status)).toEqual(["completed", "timeout"]);
+    expect(result.results[1].error).toBe("Page did not respond within 50ms");
+    expect(browser.tabs.every((t) => t.detached)).toBe(true);
+  });
+
+  it("groups the batch's tabs by their marker URLs and can close them", async () => {
+    const browser = fakeBrowser();
+    const result = await new ResearchBatch(browser.deps).run({
+      prompts: ["a", "b"],
+      poll_interval_ms: 1,
+      group: { title: "Lit review" },
+      closeTabs: true,
+    });
+
+    expect(browser.tabs.every((t) => t.openedAt.startsWith("data:text/html,comet-batch-"))).toBe(true);
+    expect(browser.groups).toEqual([{ tabIds: [100, 101], title: "Lit review" }]);
+    expect(result.group).toEqual({ groupId: 7, title: "Lit review" });
+    expect(browser.closed).toEqual(["T0", "T1"]);
+  });
+
+  it("rejects empty and oversized batches", async () => {
+    const batch = new ResearchBatch(fakeBrowser().deps);
+    await expect(batch.run({ prompts: [] })).rejects.toThrow(/non-empty/);
+    await expect(batch.run({ prompts: ["  "] })).rejects.toThrow(/cannot be empty/);
+    await expect(batch.run({ prompts: Array(21).fill("q") })).rejects.toThrow(/At most 20/);
+  });
+});
+
+describe("researchBatchOptionsFrom", () => {
+  it("maps tool arguments to options", () => {
+    expect(researchBatchOptionsFrom({ prompts: ["a"], timeout: 5000, group_color: "red" })).toEqual({
+      prompts: ["a"],
+      timeout_ms: 5000,
+      group: { title: undefined, color: "red" },
+      closeTabs: false,
+    });
+    expect(researchBatchOptionsFrom({ prompts: ["a"] }).group).toBeUndefined();
+  });
+
+  it("rejects malformed arguments", () => {
+    expect(() => researchBatchOptionsFrom({ prompts: "a" })).toThrow(/non-empty list of strings/);
+    expect(() => researchBatchOptionsFrom({ prompts: ["a"], group_color: "teal" })).toThrow(/group_color/);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PageDriver } from "../../src/cdp-sessions.js";
+import {
+  DEFAULT_SITE_PROFILE,
+  loadSiteProfile,
+  pageProfileScript,
+  parseSiteProfile,
+  runSelfcheck,
+  siteProfile,
+  siteStrings,
+} from "../../src/site-profile.js";
+
+/**
+ * PageDriver that runs page scripts in Node against a fake document: `counts`
+ * gives querySelectorAll() lengths by selector, and "[[" is an invalid selector.
+ */
+function fakePage(url: string, bodyText: string, counts: Record<string, number>): PageDriver {
+  const hiddenElement = { offsetParent: null, getAttribute: () => null, querySelector: () => null };
+  const querySelectorAll = (selector: string) => {
+    if (selector.includes("[[")) throw new SyntaxError(`'${selector}' is not a valid selector`);
+    return Array.from({ length: counts[selector] ?? 0 }, () => hiddenElement);
+  };
+  const document = {
+    body: { innerText: bodyText },
+    querySelectorAll,
+    querySelector: (selector: string) => querySelectorAll(selector)[0] ?? null,
+  };
+  const evaluate = async (expression: string) => ({
+    result: { type: "object", value: new Function("document", "location", `return (${expression})`)(document, { href: url }) },
+  });
+  return {
+    evaluate,
+    safeEvaluate: evaluate,
+    pressKey: async () => {},
+    navigate: async () => ({}) as never,
+    setFileInputFiles: async () => {},
+    networkIdleMs: () => null,
+    startAnswerCapture: () => null,
+  };
+}
+
+describe("parseSiteProfile", () => {
+  it("merges overrides onto the built-in profile", () => {
+    const profile = parseSiteProfile({
+      version: 1,
+      selectors: { answerProse: ".answer", input: ["#q"] },
+      locale: "de",
+      locales: { de: { finished: "Fertig", modes: { research: "Recherche" } } },
+    });
+
+    expect(profile.name).toBe("perplexity-2025 (customized)");
+    expect(profile.selectors.answerProse).toBe(".answer");
+    expect(profile.selectors.input).toEqual(["#q"]);
+    expect(profile.selectors.mainContent).toBe("main");
+    expect(DEFAULT_SITE_PROFILE.selectors.answerProse).toBe('[class*="prose"]');
+
+    const strings = siteStrings(profile);
+    expect(strings.finished).toBe("Fertig");
+    expect(strings.askFollowUp).toBe("Ask a follow-up");
+    expect(strings.modes).toMatchObject({ research: "Recherche", search: "Search" });
+  });
+
+  it("rejects invalid profiles", () => {
+    expect(() => parseSiteProfile({ selectors: {} })).toThrow("version must be 1");
+    expect(() => parseSiteProfile({ version: 1, extra: true })).toThrow('unknown key "extra"');
+    expect(() => parseSiteProfile({ version: 1, selectors: { nope: "x" } })).toThrow("selectors.nope is not a known setting");
+    expect(() => parseSiteProfile({ version: 1, selectors: { input: "x" } })).toThrow("must be a list of non-empty strings");
+    expect(() => parseSiteProfile({ version: 1, locales: { en: { finished: "" } } })).toThrow("must be a non-empty string");
+    expect(() => parseSiteProfile({ version: 1, locales: { en: { stepsCompleted: "(" } } })).toThrow("not a valid regex");
+  });
+
+  it("exposes selectors and locale strings to page scripts", () => {
+    const profile = parseSiteProfile({ version: 1, locale: "fr", locales: { fr: { stopLabel: "Arrêter" } } });
+    const P = new Function(`${pageProfileScript(profile)} return P;`)();
+    expect(P.sel.answerProse).toBe('[class*="prose"]');
+    expect(P.text.stopLabel).toBe("Arrêter");
+    expect(new RegExp(P.text.reviewedSources, "i").exec("Reviewed 12 sources")?.[1]).toBe("12");
+  });
+});
+
+describe("loadSiteProfile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-site-profile-test-"));
+  });
+
+  afterEach(() => {
+    loadSiteProfile(join(dir, "missing.json"));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses the built-in profile when there is no override file", () => {
+    const result = loadSiteProfile(join(dir, "missing.json"));
+    expect(result).toEqual({ profile: DEFAULT_SITE_PROFILE, source: null });
+  });
+
+  it("loads YAML overrides and keeps the active profile when a file is invalid", () => {
+    const yamlPath = join(dir, "profile.yaml");
+    writeFileSync(yamlPath, "version: 1\nname: redesign\nselectors:\n  mainContent: '#app'\n");
+    const loaded = loadSiteProfile(yamlPath);
+    expect(loaded.source).toBe(yamlPath);
+    expect(siteProfile().selectors.mainContent).toBe("#app");
+
+    const badPath = join(dir, "bad.json");
+    writeFileSync(badPath, JSON.stringify({ version: 2 }));
+    const failed = loadSiteProfile(badPath);
+    expect(failed.error).toContain("version must be 1");
+    expect(siteProfile().name).toBe("redesign");
+  });
+});
+
+describe("runSelfcheck", () => {
+  const sel = DEFAULT_SITE_PROFILE.selectors;
+
+  it("reports broken selectors on a Perplexity thread", async () => {
+    const page = fakePage("https://www.perplexity.ai/search/abc", "Reviewed 3 sources\nAsk a follow-up", {
+      [sel.input[0]]: 1,
+      [sel.fileInput]: 1,
+      [sel.mainContent]: 1,
+      'button[aria-label="Search"]': 1,
+      [sel.threadQuestion]: 2,
+      [sel.answerActions]: 4,
+    });
+
+    const report = await runSelfcheck(page, DEFAULT_SITE_PROFILE);
+    const status = Object.fromEntries(report.checks.map((c) => [c.name, c.status]));
+
+    expect(report.onThread).toBe(true);
+    expect(report.ok).toBe(false);
+    expect(report.broken).toEqual(["answerProse"]);
+    expect(status).toMatchObject({
+      input: "ok",
+      modeSelector: "ok",
+      askFollowUp: "ok",
+      reviewedSources: "ok",
+      stopButton: "unverified",
+      submitButton: "unverified",
+    });
+  });
+
+  it("leaves page-dependent checks unverified off Perplexity and flags invalid selectors", async () => {
+    const profile = parseSiteProfile({ version: 1, selectors: { fileInput: "input[[" } });
+    const report = await runSelfcheck(fakePage("https://example.com/", "", {}), profile);
+    const fileInput = report.checks.find((c) => c.name === "fileInput")!;
+
+    expect(report.onPerplexity).toBe(false);
+    expect(fileInput).toMatchObject({ status: "invalid", matches: [null] });
+    expect(report.broken).toEqual(["fileInput"]);
+    expect(report.checks.filter((c) => c.status === "broken")).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveStepExpressions,
+  unwrapStepResult,
+  findStepReferences,
+  readStepValue,
+  testCondition,
+} from "../../src/step-expressions.js";
+import type { TaskStep } from "../../src/types.js";
+
+function makeStep(toolName: string, result: unknown, status: TaskStep["status"] = "completed"): TaskStep {
+  return { toolName, server: "comet-browser", params: {}, result, status, duration_ms: 1 };
+}
+
+const steps: TaskStep[] = [
+  makeStep("comet_ask", { content: [{ type: "text", text: "plain answer" }] }),
+  makeStep("comet_find_elements", {
+    content: [{ type: "text", text: JSON.stringify({ elements: [{ id: "btn-1", selector: "#send" }] }) }],
+  }),
+  makeStep("comet_poll", { content: [], structuredContent: { status: "completed", url: "https://example.com/a" } }),
+  makeStep("comet_click", "Element not found", "failed"),
+  makeStep("comet_click", null, "pending"),
+];
+
+describe("unwrapStepResult", () => {
+  it("parses a single JSON text block", () => {
+    expect(unwrapStepResult(steps[1].result)).toEqual({ elements: [{ id: "btn-1", selector: "#send" }] });
+  });
+
+  it("keeps non-JSON text as a string", () => {
+    expect(unwrapStepResult(steps[0].result)).toBe("plain answer");
+  });
+
+  it("prefers structuredContent", () => {
+    expect(unwrapStepResult(steps[2].result)).toEqual({ status: "completed", url: "https://example.com/a" });
+  });
+
+  it("passes plain values through", () => {
+    expect(unwrapStepResult({ connected: true })).toEqual({ connected: true });
+    expect(unwrapStepResult(42)).toBe(42);
+  });
+});
+
+describe("resolveStepExpressions", () => {
+  it("resolves whole-value expressions with their original type", () => {
+    const params = resolveStepExpressions(
+      { selector: "{{steps[1].result.elements[0].selector}}", found: "{{ steps[1].result.elements }}" },
+      steps,
+      4,
+    );
+    expect(params).toEqual({ selector: "#send", found: [{ id: "btn-1", selector: "#send" }] });
+  });
+
+  it("interpolates expressions inside strings and nested params", () => {
+    const params = resolveStepExpressions(
+      { note: "Answer: {{steps[0].result}} from {{steps[2].result.url}}", nested: { list: ["{{steps[3].status}}"] } },
+      steps,
+      4,
+    );
+    expect(params).toEqual({
+      note: "Answer: plain answer from https://example.com/a",
+      nested: { list: ["failed"] },
+    });
+  });
+
+  it("leaves params without expressions unchanged", () => {
+    expect(resolveStepExpressions({ url: "https://x.test", n: 3 }, steps, 1)).toEqual({ url: "https://x.test", n: 3 });
+  });
+
+  it("rejects references to the current or later steps", () => {
+    expect(() => resolveStepExpressions({ a: "{{steps[2].result}}" }, steps, 2)).toThrow(/has not run yet/);
+  });
+
+  it("rejects results of steps that did not complete", () => {
+    expect(() => resolveStepExpressions({ a: "{{steps[3].result}}" }, steps, 4)).toThrow(/is failed/);
+  });
+
+  it("rejects missing fields", () => {
+    expect(() => resolveStepExpressions({ a: "{{steps[2].result.nope}}" }, steps, 4)).toThrow(/no such field/);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => resolveStepExpressions({ a: "{{steps[x].result}}" }, steps, 4)).toThrow(/Malformed/);
+  });
+});
+
+describe("findStepReferences", () => {
+  it("lists referenced step indexes at any depth", () => {
+    expect(findStepReferences({ a: "{{steps[0].result}}", b: { c: ["x {{steps[2].status}}"] } })).toEqual([0, 2]);
+  });
+});
+
+describe("readStepValue", () => {
+  it("reads status and result paths of earlier steps", () => {
+    expect(readStepValue(steps, 3, "status", 4)).toBe("failed");
+    expect(readStepValue(steps, 2, "result.url", 4)).toBe("https://example.com/a");
+    expect(readStepValue(steps, 1, "result.elements[0].id", 4)).toBe("btn-1");
+  });
+
+  it("reads undefined instead of throwing", () => {
+    expect(readStepValue(steps, 3, "result", 4)).toBeUndefined();
+    expect(readStepValue(steps, 2, "result.nope", 4)).toBeUndefined();
+    expect(readStepValue(steps, 2, "status", 2)).toBeUndefined();
+  });
+});
+
+describe("testCondition", () => {
+  it("compares values structurally", () => {
+    expect(testCondition({ equals: { a: 1 } }, { a: 1 })).toBe(true);
+    expect(testCondition({ notEquals: "failed" }, "completed")).toBe(true);
+    expect(testCondition({ in: ["completed", "skipped"] }, "skipped")).toBe(true);
+  });
+
+  it("matches text case-insensitively", () => {
+    expect(testCondition({ contains: "SIGN IN" }, "Please sign in")).toBe(true);
+    expect(testCondition({ matches: "^err" }, "Error: boom")).toBe(true);
+    expect(testCondition({ matches: "x" }, 42)).toBe(false);
+  });
+
+  it("checks existence, defaulting to truthiness", () => {
+    expect(testCondition({ exists: false }, undefined)).toBe(true);
+    expect(testCondition({ exists: true }, 0)).toBe(true);
+    expect(testCondition({}, 0)).toBe(false);
+  });
+});
@@ -90,6 +90,25 @@ describe("TaskQueue", () => {
     expect(queue.getTask("t")?.state).toBe("cancelled");
   });
 
+  it("does not cancel a finished task", () => {
+    const t = makeTask("t");
+    queue.enqueue(t);
+    queue.dequeue("tab-1");
+    queue.completeActive("tab-1");
+    expect(queue.cancel("t")).toBe(false);
+    expect(queue.getTask("t")?.state).toBe("completed");
+  });
+
+  it("completeActive keeps a failed state", () => {
+    const t = makeTask("t");
+    queue.enqueue(t);
+    queue.dequeue("tab-1");
+    t.state = "failed";
+    queue.completeActive("tab-1");
+    expect(t.state).toBe("failed");
+    expect(queue.getActiveTask("tab-1")).toBeNull();
+  });
+
   it("returns false for unknown task", () => {
     expect(queue.cancel("nonexistent")).toBe(false);
   });
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonFileTaskStore } from "../../src/task-store.js";
+import { TaskQueue } from "../../src/task-queue.js";
+import type { TaskDelegation } from "../../src/types.js";
+
+function makeTask(id: string, tabId: string | null = "tab-1"): TaskDelegation {
+  return {
+    id,
+    description: `test ${id}`,
+    state: "pending",
+    targetTabId: tabId,
+    steps: [
+      { toolName: "comet_connect", server: "comet-mcp", params: {}, result: null, status: "pending", duration_ms: null },
+      { toolName: "comet_ask", server: "comet-mcp", params: { prompt: "hi" }, result: null, status: "pending", duration_ms: null },
+    ],
+    currentStepIndex: 0,
+    timeout_ms: 60000,
+    startedAt: null,
+    completedAt: null,
+  };
+}
+
+describe("JsonFileTaskStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-task-store-"));
+    file = join(dir, "nested", "tasks.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns no tasks when the file does not exist", () => {
+    expect(new JsonFileTaskStore(file).load()).toEqual([]);
+  });
+
+  it("round-trips tasks including step results and final result", () => {
+    const store = new JsonFileTaskStore(file);
+    const task = makeTask("a");
+    task.state = "completed";
+    task.steps[0].status = "completed";
+    task.steps[0].result = { connected: true };
+    task.result = {
+      status: "success",
+      payload: "done",
+      duration_ms: 12,
+      tools_invoked: ["comet_connect", "comet_ask"],
+      steps_completed: 2,
+      steps_total: 2,
+    };
+    store.save(task);
+
+    const loaded = new JsonFileTaskStore(file).load();
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].steps[0].result).toEqual({ connected: true });
+    expect(loaded[0].result?.payload).toBe("done");
+    expect(existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it("snapshots the task so later mutations need another save", () => {
+    const store = new JsonFileTaskStore(file);
+    const task = makeTask("a");
+    store.save(task);
+    task.state = "running";
+    expect(new JsonFileTaskStore(file).load()[0].state).toBe("pending");
+  });
+
+  it("prunes the oldest finished tasks beyond the limit", () => {
+    const store = new JsonFileTaskStore(file, { maxFinished: 2 });
+    for (const id of ["a", "b", "c"]) {
+      const task = makeTask(id);
+      task.state = "completed";
+      store.save(task);
+    }
+    store.save(makeTask("pending-1"));
+
+    const ids = new JsonFileTaskStore(file).load().map((t) => t.id);
+    expect(ids).toEqual(["b", "c", "pending-1"]);
+  });
+
+  it("throws on a corrupt file", () => {
+    const store = new JsonFileTaskStore(file);
+    store.save(makeTask("a"));
+    writeFileSync(file, "{not json", "utf-8");
+    expect(() => new JsonFileTaskStore(file).load()).toThrow(/unreadable/);
+  });
+
+  it("moves a corrupt file aside instead of overwriting it on the next save", () => {
+    const store = new JsonFileTaskStore(file);
+    store.save(makeTask("a"));
+    writeFileSync(file, "{not json", "utf-8");
+
+    const reopened = new JsonFileTaskStore(file);
+    expect(() => reopened.load()).toThrow(/unreadable/);
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      reopened.save(makeTask("b"));
+    } finally {
+      logged.mockRestore();
+    }
+
+    const aside = readdirSync(join(dir, "nested")).filter((name) => name.startsWith("tasks.json.corrupt-"));
+    expect(aside).toHaveLength(1);
+    expect(readFileSync(join(dir, "nested", aside[0]), "utf-8")).toBe("{not json");
+    expect(new JsonFileTaskStore(file).load().map((t) => t.id)).toEqual(["b"]);
+  });
+});
+
+describe("TaskQueue persistence", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-task-queue-"));
+    file = join(dir, "tasks.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists queue transitions", () => {
+    const queue = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    queue.enqueue(makeTask("a"));
+    queue.dequeue("tab-1");
+
+    const saved = JSON.parse(readFileSync(file, "utf-8"));
+    expect(saved.tasks[0].state).toBe("running");
+  });
+
+  it("marks running and pending tasks as interrupted on restore", () => {
+    const before = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    before.enqueue(makeTask("running"));
+    before.enqueue(makeTask("pending"));
+    const running = before.dequeue("tab-1")!;
+    running.steps[0].status = "completed";
+    running.steps[1].status = "running";
+    running.currentStepIndex = 1;
+    before.persist(running);
+
+    const after = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    const summary = after.restore();
+    expect(summary).toEqual({ restored: 2, interrupted: 2, resumed: 0 });
+
+    const restored = after.getTask("running")!;
+    expect(restored.state).toBe("failed");
+    expect(restored.steps[1].status).toBe("failed");
+    expect(restored.result?.status).toBe("partial");
+    expect(restored.result?.error).toMatchObject({ code: "INTERRUPTED", recoverable: true, failedStep: 1 });
+
+    expect(after.getTask("pending")!.result?.status).toBe("failure");
+    expect(after.dequeue("tab-1")).toBeNull();
+  });
+
+  it("re-enqueues pending tasks when resumePending is set", () => {
+    const before = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    before.enqueue(makeTask("a"));
+    before.enqueue(makeTask("b", null));
+
+    const after = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    expect(after.restore({ resumePending: true })).toEqual({ restored: 2, interrupted: 0, resumed: 2 });
+    expect(after.dequeue("tab-1")?.id).toBe("a");
+    expect(after.getQueueDepth("__global__")).toBe(1);
+  });
+
+  it("leaves finished tasks untouched", () => {
+    const before = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    before.enqueue(makeTask("a"));
+    before.cancel("a");
+
+    const after = new TaskQueue({ store: new JsonFileTaskStore(file) });
+    expect(after.restore().interrupted).toBe(0);
+    expect(after.getTask("a")?.state).toBe("cancelled");
+    expect(after.listTasks()).toHaveLength(1);
+  });
+});
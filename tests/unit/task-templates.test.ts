@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { TaskTemplateRegistry } from "../../src/task-templates.js";
+import {
+  TaskTemplateRegistry,
+  extractParamsForTemplate,
+  applyParamTemplate,
+  DEFAULT_MATCH_MODE,
+} from "../../src/task-templates.js";
 import type { TaskTemplate, TaskTemplateStep } from "../../src/types.js";
 
 function makeStep(toolName: string, server = "comet-browser" as const): TaskTemplateStep {
@@ -176,3 +181,106 @@ describe("TaskTemplateRegistry", () => {
     expect(matched!.name).toBe("first");
   });
 });
+
+describe("built-in param extraction", () => {
+  const builtins = new TaskTemplateRegistry();
+  const extract = (name: string, description: string) => extractParamsForTemplate(description, builtins.get(name)!);
+
+  it("takes the prompt after a leading trigger phrase", () => {
+    expect(extract("research", "Research: the history of comets")).toEqual({ prompt: "the history of comets" });
+    expect(extract("search", "search for CDP docs")).toEqual({ prompt: "CDP docs" });
+    expect(extract("search", "latest CDP release")).toEqual({ prompt: "latest CDP release" });
+    expect(extract("research", "research")).toEqual({ prompt: "research" });
+  });
+
+  it("splits compound descriptions at then", () => {
+    expect(extract("research-extract", "deep dive into CDP, then extract the citations")).toEqual({
+      prompt: "into CDP",
+      extractionTarget: "extract the citations",
+    });
+    expect(extract("navigate-extract", "go to https://example.com/a?b=1 and then extract the title")).toEqual({
+      url: "https://example.com/a?b=1",
+      extractionTarget: "extract the title",
+    });
+    expect(extract("navigate", "open example.com")).toEqual({});
+  });
+
+  it("sets fixed values and falls back to defaults", () => {
+    expect(extract("shortwave-saved-prompt", "shortwave /plan next week")).toEqual({ mode: "Advanced", promptCommand: "/plan" });
+    expect(extract("shortwave-saved-prompt", "shortwave saved prompt")).toEqual({ mode: "Advanced", promptCommand: "/analyze" });
+    expect(extract("shortwave-triage", "shortwave triage")).toEqual({ mode: "Advanced", query: "/analyze" });
+    expect(extract("shortwave-query", "ask shortwave who emailed me")).toEqual({ mode: "Advanced", query: "who emailed me" });
+    expect(extract("dom-interact", "scroll down and click Submit")).toEqual({ target: "scroll down and click Submit", action: "click" });
+    expect(extract("dom-interact", "fill the form")).toEqual({ target: "fill the form", action: "type" });
+  });
+});
+
+describe("user-defined template support", () => {
+  let registry: TaskTemplateRegistry;
+
+  const jira: TaskTemplate = {
+    name: "jira-ticket",
+    description: "Open a Jira ticket",
+    triggerPatterns: ["\\b[A-Z]+-\\d+\\b.*jira", "jira ticket"],
+    matchMode: "regex",
+    defaultParams: { host: "jira.example.com" },
+    extractRules: [
+      { pattern: "(?<ticket>[A-Z]+-\\d+)" },
+      { pattern: "summari[sz]e (.+)$", param: "focus" },
+    ],
+    steps: [makeStep("comet_navigate")],
+  };
+
+  beforeEach(() => {
+    registry = new TaskTemplateRegistry({ skipBuiltins: true });
+  });
+
+  it("matches regex trigger patterns case-insensitively", () => {
+    registry.register(jira);
+    expect(registry.match("Open ENG-42 in JIRA")?.name).toBe("jira-ticket");
+    expect(registry.match("open a ticket")).toBeNull();
+  });
+
+  it("treats trigger patterns as regexes unless matchMode is keyword", () => {
+    const { matchMode: _, ...unset } = jira;
+    registry.register({ ...unset, name: "default-mode", triggerPatterns: ["eng-\\d+"] });
+    expect(DEFAULT_MATCH_MODE).toBe("regex");
+    expect(registry.match("look at ENG-12")?.name).toBe("default-mode");
+
+    registry.unregister("default-mode");
+    registry.register({ ...unset, name: "keyword-mode", matchMode: "keyword", triggerPatterns: ["eng-\\d+"] });
+    expect(registry.match("look at ENG-12")).toBeNull();
+    expect(new TaskTemplateRegistry().getAll().every((t) => t.matchMode === "keyword")).toBe(true);
+  });
+
+  it("prepended templates take precedence", () => {
+    registry.register({ ...jira, name: "generic", matchMode: "keyword", triggerPatterns: ["jira"] });
+    registry.register(jira, { prepend: true });
+    expect(registry.match("jira ticket ENG-1")?.name).toBe("jira-ticket");
+  });
+
+  it("unregisters templates", () => {
+    registry.register(jira);
+    expect(registry.unregister("jira-ticket")).toBe(true);
+    expect(registry.get("jira-ticket")).toBeNull();
+    expect(registry.getAll()).toHaveLength(0);
+    expect(registry.unregister("jira-ticket")).toBe(false);
+  });
+
+  it("extracts named and indexed captures on top of default params", () => {
+    const params = extractParamsForTemplate("jira ticket ENG-42, summarize open questions", jira);
+    expect(params).toEqual({ host: "jira.example.com", ticket: "ENG-42", focus: "open questions" });
+  });
+
+  it("fills params placeholders in step param templates", () => {
+    const filled = applyParamTemplate(
+      { url: "https://{{params.host}}/browse/{{ params.ticket }}", count: "{{params.n}}", missing: "{{params.nope}}", keep: "{{steps[0].result}}" },
+      { host: "jira.example.com", ticket: "ENG-42", n: 3 },
+    );
+    expect(filled).toEqual({
+      url: "https://jira.example.com/browse/ENG-42",
+      count: 3,
+      keep: "{{steps[0].result}}",
+    });
+  });
+});
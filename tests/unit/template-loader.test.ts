@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TemplateLoader, parseTemplateFile } from "../../src/template-loader.js";
+import { TaskTemplateRegistry } from "../../src/task-templates.js";
+
+const JIRA_YAML = `
+name: jira-ticket
+description: Open a Jira ticket and summarize it
+triggerPatterns:
+  - "[A-Z]+-\\\\d+.*jira"
+defaultParams:
+  host: jira.example.com
+extractRules:
+  - pattern: "(?<ticket>[A-Z]+-\\\\d+)"
+steps:
+  - toolName: comet_navigate
+    server: browser
+    paramTemplate:
+      url: "https://{{params.host}}/browse/{{params.ticket}}"
+  - toolName: comet_get_content
+    server: comet-browser
+    optional: true
+`;
+
+describe("parseTemplateFile", () => {
+  it("parses a YAML template and normalizes server aliases", () => {
+    const [t] = parseTemplateFile("/x/jira.yaml", JIRA_YAML);
+    expect(t.name).toBe("jira-ticket");
+    expect(t.matchMode).toBe("regex");
+    expect(t.source).toBe("/x/jira.yaml");
+    expect(t.steps[0]).toMatchObject({ toolName: "comet_navigate", server: "comet-browser", description: "comet_navigate" });
+    expect(t.steps[1].optional).toBe(true);
+    expect(t.extractRules).toEqual([{ pattern: "(?<ticket>[A-Z]+-\\d+)" }]);
+  });
+
+  it("parses a JSON file with several templates", () => {
+    const json = JSON.stringify({
+      templates: [
+        { name: "a", triggerPatterns: ["alpha"], matchMode: "keyword", steps: [{ toolName: "comet_ask", server: "mcp" }] },
+        { name: "b", triggerPatterns: ["beta"], steps: [{ toolName: "comet_ask", server: "mcp" }] },
+      ],
+    });
+    expect(parseTemplateFile("/x/t.json", json).map((t) => t.name)).toEqual(["a", "b"]);
+  });
+
+  it("rejects invalid templates with the failing field", () => {
+    const bad = (doc: object) => () => parseTemplateFile("/x/t.json", JSON.stringify(doc));
+    expect(bad({ triggerPatterns: ["x"], steps: [] })).toThrow(/name is required/);
+    expect(bad({ name: "n", triggerPatterns: ["("], steps: [{ toolName: "t", server: "mcp" }] })).toThrow(
+      /triggerPatterns\[0\] is not a valid regex/,
+    );
+    expect(bad({ name: "n", triggerPatterns: ["x"], steps: [{ toolName: "t", server: "elsewhere" }] })).toThrow(
+      /steps\[0\]\.server/,
+    );
+    expect(bad({ name: "n", triggerPatterns: ["x"], steps: [] })).toThrow(/steps must be a non-empty list/);
+    expect(
+      bad({ name: "n", triggerPatterns: ["x"], steps: [{ toolName: "t", server: "mcp", paramTemplate: { a: "{{steps[0].result}}" } }] }),
+    ).toThrow(/references steps\[0\], which has not run yet/);
+    expect(
+      bad({ name: "n", triggerPatterns: ["x"], extractRules: [{ pattern: "urgent", value: "high" }], steps: [{ toolName: "t", server: "mcp" }] }),
+    ).toThrow(/extractRules\[0\]\.value needs a param to set/);
+  });
+
+  it("parses step policies", () => {
+    const [t] = parseTemplateFile(
+      "/x/p.yaml",
+      `
+name: policies
+triggerPatterns: [policy]
+steps:
+  - toolName: comet_connect
+    server: mcp
+  - toolName: comet_click
+    server: browser
+    retry: { count: 2, backoff_ms: 300 }
+    timeout_ms: 5000
+    when: { health: browser, equals: healthy }
+    onFailure:
+      - toolName: comet_ask
+        server: mcp
+        paramTemplate: { prompt: "retry by hand" }
+  - toolName: comet_ask
+    server: mcp
+    when:
+      - { path: result.ok, equals: true }
+      - { step: 0, exists: true }
+`,
+    );
+    expect(t.steps[1]).toMatchObject({
+      retry: { count: 2, backoff_ms: 300 },
+      timeout_ms: 5000,
+      when: { health: "browser", equals: "healthy" },
+      onFailure: [{ toolName: "comet_ask", server: "comet-mcp" }],
+    });
+    expect(t.steps[2].when).toEqual([
+      { step: 1, path: "result.ok", equals: true },
+      { step: 0, exists: true },
+    ]);
+  });
+
+  it("rejects invalid step policies", () => {
+    const withStep = (policy: object) => () =>
+      parseTemplateFile(
+        "/x/t.json",
+        JSON.stringify({
+          name: "n",
+          triggerPatterns: ["x"],
+          steps: [{ toolName: "a", server: "mcp" }, { toolName: "b", server: "mcp", ...policy }],
+        }),
+      );
+    expect(withStep({ retry: { count: 0 } })).toThrow(/steps\[1\]\.retry\.count must be a positive integer/);
+    expect(withStep({ timeout_ms: -1 })).toThrow(/timeout_ms must be a positive integer/);
+    expect(withStep({ when: { step: 1, equals: "completed" } })).toThrow(/must refer to an earlier step/);
+    expect(withStep({ when: { health: "disk" } })).toThrow(/health must be one of/);
+    expect(withStep({ when: { equals: 1, contains: "x" } })).toThrow(/at most one of/);
+    expect(withStep({ onFailure: [] })).toThrow(/onFailure must be a non-empty list/);
+  });
+});
+
+describe("TemplateLoader", () => {
+  let dir: string;
+  let registry: TaskTemplateRegistry;
+  let loader: TemplateLoader;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-templates-"));
+    registry = new TaskTemplateRegistry();
+    loader = new TemplateLoader(registry, { dir });
+  });
+
+  afterEach(() => {
+    loader.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads file templates ahead of built-ins", () => {
+    writeFileSync(join(dir, "jira.yaml"), JIRA_YAML);
+    writeFileSync(join(dir, "notes.txt"), "ignored");
+
+    expect(loader.load()).toEqual({ loaded: ["jira-ticket"], errors: [] });
+    expect(registry.getAll()[0].name).toBe("jira-ticket");
+    expect(registry.match("research ENG-7 in jira")?.name).toBe("jira-ticket");
+  });
+
+  it("skips broken files and built-in name clashes without blocking others", () => {
+    writeFileSync(join(dir, "a.yaml"), "name: [unclosed");
+    writeFileSync(join(dir, "b.json"), JSON.stringify({ name: "research", triggerPatterns: ["x"], steps: [{ toolName: "comet_ask", server: "mcp" }] }));
+    writeFileSync(join(dir, "c.yaml"), JIRA_YAML);
+
+    const result = loader.load();
+    expect(result.loaded).toEqual(["jira-ticket"]);
+    expect(result.errors.map((e) => e.file)).toEqual([join(dir, "a.yaml"), join(dir, "b.json")]);
+    expect(registry.get("research")?.source).toBeUndefined();
+  });
+
+  it("replaces templates on reload", () => {
+    writeFileSync(join(dir, "jira.yaml"), JIRA_YAML);
+    loader.load();
+    rmSync(join(dir, "jira.yaml"));
+    writeFileSync(join(dir, "other.json"), JSON.stringify({ name: "other", triggerPatterns: ["zzz"], steps: [{ toolName: "comet_ask", server: "mcp" }] }));
+
+    expect(loader.load().loaded).toEqual(["other"]);
+    expect(registry.get("jira-ticket")).toBeNull();
+  });
+
+  it("returns nothing for a missing directory", () => {
+    const missing = new TemplateLoader(registry, { dir: join(dir, "nope") });
+    expect(missing.load()).toEqual({ loaded: [], errors: [] });
+  });
+
+  it("picks up a directory created after watching started", async () => {
+    const later = join(dir, "later");
+    const missing = new TemplateLoader(registry, { dir: later, dirPollMs: 20 });
+    try {
+      const reloaded = new Promise<string[]>((resolve) =>
+        missing.watch((r) => {
+          if (r.loaded.length > 0) resolve(r.loaded);
+        }),
+      );
+      expect(missing.watch()).toBe(false);
+      mkdirSync(later);
+      writeFileSync(join(later, "jira.yaml"), JIRA_YAML);
+      expect(await reloaded).toEqual(["jira-ticket"]);
+    } finally {
+      missing.close();
+    }
+  });
+
+  it("reports a directory that cannot be read on reload instead of throwing", async () => {
+    const replaced = join(dir, "replaced");
+    mkdirSync(replaced);
+    const watched = new TemplateLoader(registry, { dir: replaced, dirPollMs: 20 });
+    try {
+      const reloaded = new Promise<string[]>((resolve) =>
+        watched.watch((r) => {
+          if (r.errors.length > 0) resolve(r.errors.map((e) => e.file));
+        }),
+      );
+      rmSync(replaced, { recursive: true });
+      writeFileSync(replaced, "not a directory");
+      expect(await reloaded).toEqual([replaced]);
+    } finally {
+      watched.close();
+    }
+  });
+
+  it("hot-reloads when a file changes", async () => {
+    const reloaded = new Promise<string[]>((resolve) => loader.watch((r) => resolve(r.loaded)));
+    writeFileSync(join(dir, "jira.yaml"), JIRA_YAML);
+    expect(await reloaded).toEqual(["jira-ticket"]);
+  });
+});
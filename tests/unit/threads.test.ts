@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  JsonFileThreadStore,
+  ThreadManager,
+  threadIdFromUrl,
+  type ThreadStore,
+  type ThreadRecord,
+} from "../../src/threads.js";
+
+const THREAD_A = "https://www.perplexity.ai/search/what-is-cdp-Ab12Cd";
+const THREAD_B = "https://www.perplexity.ai/search/rust-vs-go-Xy98Zz";
+
+function answer(markdown: string) {
+  return { markdown, citations: [], sources: [], sourceCount: null };
+}
+
+/** Tabs that remember their URL; evaluate returns whatever turns the test sets for the tab. */
+function fakeBrowser(initial: Array<{ id: string; url: string }> = []) {
+  const tabs = initial.map((t) => ({ ...t }));
+  const turns = new Map<string | undefined, Array<{ question: string; answer: ReturnType<typeof answer> }>>();
+  let nextId = 1;
+  const deps = {
+    listTabs: vi.fn(async () => tabs.map((t) => ({ ...t }))),
+    openTab: vi.fn(async (url: string) => {
+      const id = `NEW${nextId++}`;
+      tabs.push({ id, url });
+      return id;
+    }),
+    navigate: vi.fn(async (targetId: string, url: string) => {
+      tabs.find((t) => t.id === targetId)!.url = url;
+    }),
+    evaluate: vi.fn(async (targetId: string | undefined) => ({
+      url: tabs.find((t) => t.id === targetId)?.url ?? THREAD_A,
+      turns: turns.get(targetId) ?? [],
+    })),
+  };
+  return { deps, tabs, turns };
+}
+
+function memoryStore(records: ThreadRecord[] = []): ThreadStore & { records: ThreadRecord[] } {
+  return {
+    records,
+    load() {
+      return structuredClone(this.records);
+    },
+    save(next) {
+      this.records = structuredClone(next);
+    },
+  };
+}
+
+describe("threadIdFromUrl", () => {
+  it("takes the slug of a thread URL", () => {
+    expect(threadIdFromUrl(THREAD_A)).toBe("what-is-cdp-Ab12Cd");
+    expect(threadIdFromUrl("https://perplexity.ai/search/abc?login=1#top")).toBe("abc");
+  });
+
+  it("returns null for pages that are not threads", () => {
+    expect(threadIdFromUrl("https://www.perplexity.ai/")).toBeNull();
+    expect(threadIdFromUrl("https://www.perplexity.ai/search?q=hello")).toBeNull();
+    expect(threadIdFromUrl("https://www.perplexity.ai/search/new")).toBeNull();
+    expect(threadIdFromUrl("https://example.com/search/abc")).toBeNull();
+    expect(threadIdFromUrl(undefined)).toBeNull();
+  });
+});
+
+describe("ThreadManager", () => {
+  it("titles a thread with its first question and lists newest first", async () => {
+    vi.useFakeTimers();
+    try {
+      const { deps } = fakeBrowser([{ id: "T1", url: THREAD_B }]);
+      const manager = new ThreadManager(deps);
+
+      vi.setSystemTime(1000);
+      manager.record(THREAD_A, "what is CDP?");
+      vi.setSystemTime(2000);
+      manager.record(THREAD_B, "rust or go?");
+      vi.setSystemTime(3000);
+      const followUp = manager.record(THREAD_A, "and how do sessions work?");
+
+      expect(followUp).toMatchObject({ id: "what-is-cdp-Ab12Cd", title: "what is CDP?", createdAt: 1000, updatedAt: 3000 });
+      expect(manager.record("https://www.perplexity.ai/", "home")).toBeNull();
+
+      const list = await manager.list();
+      expect(list.map((t) => [t.id, t.tab_id])).toEqual([
+        ["what-is-cdp-Ab12Cd", null],
+        ["rust-vs-go-Xy98Zz", "T1"],
+      ]);
+      expect(await manager.list(1)).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reuses a tab already showing the thread, otherwise opens one", async () => {
+    const { deps } = fakeBrowser([{ id: "T1", url: THREAD_A }]);
+    const manager = new ThreadManager(deps);
+
+    expect(await manager.open("what-is-cdp-Ab12Cd")).toEqual({
+      thread_id: "what-is-cdp-Ab12Cd",
+      url: THREAD_A,
+      tab_id: "T1",
+      opened: false,
+    });
+    expect(await manager.open(THREAD_B)).toMatchObject({ thread_id: "rust-vs-go-Xy98Zz", tab_id: "NEW1", opened: true });
+    expect(deps.openTab).toHaveBeenCalledWith(THREAD_B);
+    expect(manager.get("rust-vs-go-Xy98Zz")).toMatchObject({ url: THREAD_B, title: "" });
+  });
+
+  it("opens a thread in a named tab, navigating only when needed", async () => {
+    const { deps, tabs } = fakeBrowser([{ id: "T1", url: "https://www.perplexity.ai/" }]);
+    const manager = new ThreadManager(deps);
+
+    expect(await manager.open("what-is-cdp-Ab12Cd", "T1")).toMatchObject({ tab_id: "T1", opened: true });
+    expect(tabs[0].url).toBe(THREAD_A);
+    expect(await manager.open("what-is-cdp-Ab12Cd", "T1")).toMatchObject({ opened: false });
+    expect(deps.navigate).toHaveBeenCalledTimes(1);
+
+    await expect(manager.open("what-is-cdp-Ab12Cd", "GONE")).rejects.toThrow("No tab found with ID: GONE");
+    await expect(manager.open("not a thread/id")).rejects.toThrow("Invalid thread_id");
+  });
+
+  it("returns a thread's history as numbered turns and remembers the thread", async () => {
+    const { deps, turns } = fakeBrowser([{ id: "T1", url: THREAD_A }]);
+    turns.set("T1", [
+      { question: "what is CDP?", answer: answer("The Chrome DevTools Protocol.") },
+      { question: "who uses it?", answer: answer("Puppeteer, Playwright and others.") },
+    ]);
+    const manager = new ThreadManager(deps);
+
+    const history = await manager.history({ tabId: "T1" });
+    expect(history).toEqual({
+      thread_id: "what-is-cdp-Ab12Cd",
+      url: THREAD_A,
+      tab_id: "T1",
+      turns: [
+        { index: 0, question: "what is CDP?", answer: answer("The Chrome DevTools Protocol.") },
+        { index: 1, question: "who uses it?", answer: answer("Puppeteer, Playwright and others.") },
+      ],
+    });
+    expect(manager.get("what-is-cdp-Ab12Cd")?.title).toBe("what is CDP?");
+  });
+
+  it("waits for a freshly opened thread to render its turns", async () => {
+    const { deps, turns } = fakeBrowser();
+    let reads = 0;
+    deps.evaluate.mockImplementation(async (targetId) => {
+      if (++reads === 3) turns.set(targetId, [{ question: "q", answer: answer("a") }]);
+      return { url: THREAD_B, turns: turns.get(targetId) ?? [] };
+    });
+    const manager = new ThreadManager(deps, { pollIntervalMs: 1 });
+
+    const history = await manager.history({ threadId: "rust-vs-go-Xy98Zz" });
+    expect(history.tab_id).toBe("NEW1");
+    expect(history.turns).toHaveLength(1);
+    expect(reads).toBe(3);
+  });
+
+  it("shares records through the store", async () => {
+    const store = memoryStore();
+    const first = new ThreadManager({ ...fakeBrowser().deps, store });
+    first.record(THREAD_A, "what is CDP?");
+
+    const second = new ThreadManager({ ...fakeBrowser().deps, store });
+    expect(second.get("what-is-cdp-Ab12Cd")?.title).toBe("what is CDP?");
+    second.record(THREAD_B, "rust or go?");
+
+    expect((await first.list()).map((t) => t.id).sort()).toEqual(["rust-vs-go-Xy98Zz", "what-is-cdp-Ab12Cd"]);
+  });
+
+  it("keeps recording when the store cannot be written", () => {
+    const store = memoryStore();
+    store.save = () => {
+      throw new Error("ENOSPC: no space left on device");
+    };
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const manager = new ThreadManager({ ...fakeBrowser().deps, store });
+      expect(manager.record(THREAD_A, "what is CDP?")?.id).toBe("what-is-cdp-Ab12Cd");
+      expect(manager.get("what-is-cdp-Ab12Cd")?.title).toBe("what is CDP?");
+      expect(logged).toHaveBeenCalledWith("[threads] Failed to persist threads:", expect.any(Error));
+    } finally {
+      logged.mockRestore();
+    }
+  });
+});
+
+describe("JsonFileThreadStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "comet-thread-store-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips records through the file", () => {
+    const store = new JsonFileThreadStore(join(dir, "nested", "threads.json"));
+    expect(store.load()).toEqual([]);
+
+    const record = { id: "abc", url: "https://www.perplexity.ai/search/abc", title: "q", createdAt: 1, updatedAt: 2 };
+    store.save([record]);
+    expect(store.load()).toEqual([record]);
+  });
+});
@@ -121,3 +121,147 @@ describe("ToolRouter", () => {
     expect(await router.isServerAvailable("comet-mcp")).toBe(true);
   });
 });
+
+describe("ToolRouter local dispatch", () => {
+  it("invokes local tools through the handler with a ToolResult envelope", async () => {
+    const router = new ToolRouter(localTools, mockBridge, async (name, params) => ({ name, params }));
+    const result = await router.invoke("mcp:comet_ask", { prompt: "hi" });
+    expect(result).toMatchObject({
+      toolName: "comet_ask",
+      server: "comet-mcp",
+      success: true,
+      data: { name: "comet_ask", params: { prompt: "hi" } },
+    });
+    expect(result.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("routes local tools before initialize()", async () => {
+    const router = new ToolRouter(localTools, mockBridge, async () => "ok");
+    expect((await router.invoke("comet_poll", {})).success).toBe(true);
+  });
+
+  it("reports handler errors as success: false", async () => {
+    const router = new ToolRouter(localTools, mockBridge, async () => {
+      throw new Error("not connected");
+    });
+    const result = await router.invoke("comet_ask", {});
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("not connected");
+  });
+
+  it("fails cleanly when no local handler is configured", async () => {
+    const router = new ToolRouter(localTools, mockBridge);
+    const result = await router.invoke("comet_ask", {});
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No local handler/);
+  });
+
+  it("serializes local tool calls", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const router = new ToolRouter(localTools, mockBridge, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((r) => setTimeout(r, 5));
+      running--;
+    });
+    await Promise.all([router.invoke("comet_ask", {}), router.invoke("comet_poll", {})]);
+    expect(maxRunning).toBe(1);
+  });
+
+  it("runs local calls on different tabs concurrently", async () => {
+    const running = new Set<string>();
+    let overlapped = false;
+    const router = new ToolRouter(localTools, mockBridge, async (_name, params) => {
+      running.add(String(params.tab_id));
+      overlapped ||= running.size > 1;
+      await new Promise((r) => setTimeout(r, 5));
+      running.delete(String(params.tab_id));
+    });
+    await Promise.all([router.invoke("comet_ask", { tab_id: "A" }), router.invoke("comet_ask", { tab_id: "B" })]);
+    expect(overlapped).toBe(true);
+  });
+
+  it("skips a call given up on while it waited for its tab", async () => {
+    const started: string[] = [];
+    const router = new ToolRouter(localTools, mockBridge, async (name) => {
+      started.push(name);
+      await new Promise((r) => setTimeout(r, 5));
+    });
+    const controller = new AbortController();
+    const first = router.invoke("comet_ask", {});
+    const queued = router.invoke("comet_poll", {}, controller.signal);
+    controller.abort(new Error("comet_poll timed out after 1ms"));
+
+    await first;
+    expect(await queued).toMatchObject({ success: false, error: "comet_poll timed out after 1ms" });
+    expect(started).toEqual(["comet_ask"]);
+  });
+
+  it("queues direct calls holding withTabLock behind routed steps on the same tab", async () => {
+    const order: string[] = [];
+    const router = new ToolRouter(localTools, mockBridge, async (name) => {
+      order.push(`${name} start`);
+      await new Promise((r) => setTimeout(r, 5));
+      order.push(`${name} end`);
+    });
+    await Promise.all([
+      router.invoke("comet_ask", {}),
+      router.withTabLock("comet_mode", {}, async () => { order.push("direct"); }),
+      router.withTabLock("comet_delegate", {}, async () => { order.push("lock-free"); }),
+    ]);
+    expect(order.indexOf("direct")).toBeGreaterThan(order.indexOf("comet_ask end"));
+    expect(order.indexOf("lock-free")).toBeLessThan(order.indexOf("comet_ask end"));
+  });
+
+  it("rejects arguments that do not fit a tool's schema, local or Python-bridge", async () => {
+    const called: string[] = [];
+    const navigate = {
+      ...mockTool("comet_navigate", "comet-browser", "dom"),
+      schema: { type: "object", properties: { url: { type: "string" } }, required: ["url"] },
+    };
+    const mode = {
+      ...mockTool("comet_mode", "comet-mcp", "ai"),
+      schema: { type: "object", properties: { mode: { type: "string", enum: ["search", "research"] } } },
+    };
+    const bridge = {
+      callTool: async (name: string): Promise<ToolResult> => {
+        called.push(name);
+        return { toolName: name, server: "comet-browser", success: true, data: {}, duration_ms: 1 };
+      },
+      listTools: async () => [navigate],
+    };
+    const router = new ToolRouter([mode], bridge, async (name) => { called.push(name); });
+    await router.initialize();
+
+    const remote = await router.invoke("comet_navigate", { url: 42 });
+    expect(remote).toMatchObject({
+      success: false,
+      server: "comet-browser",
+      error: "Invalid arguments for comet_navigate: url must be a string",
+      data: { invalid_fields: [{ field: "url", message: "url must be a string" }] },
+    });
+    expect((await router.invoke("comet_mode", { mode: "turbo" })).success).toBe(false);
+    expect(called).toEqual([]);
+
+    expect((await router.invoke("comet_navigate", { url: "https://example.com" })).success).toBe(true);
+    expect(called).toEqual(["comet_navigate"]);
+    expect(router.getMetrics()["browser:comet_navigate"]).toMatchObject({ calls: 2, failures: 1 });
+  });
+
+  it("records per-tool metrics for local and remote calls", async () => {
+    let fail = false;
+    const router = new ToolRouter(localTools, mockBridge, async () => {
+      if (fail) throw new Error("boom");
+    });
+    await router.initialize();
+    await router.invoke("comet_ask", {});
+    fail = true;
+    await router.invoke("comet_ask", {});
+    await router.invoke("comet_navigate", {});
+
+    const metrics = router.getMetrics();
+    expect(metrics["mcp:comet_ask"]).toMatchObject({ calls: 2, failures: 1, lastError: "boom" });
+    expect(metrics["browser:comet_navigate"]).toMatchObject({ calls: 1, failures: 0 });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ToolService, toMcpResponse } from "../../src/tool-service.js";
+import { cometAI } from "../../src/comet-ai.js";
+import type { CometOrchestrator } from "../../src/orchestrator.js";
+
+const fakes = vi.hoisted(() => ({
+  status: {
+    status: "working" as "idle" | "working" | "completed",
+    steps: ["Searching the web"],
+    currentStep: "Reading sources",
+    response: "",
+    answer: null as { markdown: string; citations: []; sources: []; sourceCount: null } | null,
+    agentBrowsingUrl: "",
+  },
+  stopped: true,
+}));
+
+vi.mock("../../src/cdp-client.js", () => ({
+  cometClient: {
+    screenshot: vi.fn(async () => ({ data: "iVBORw0KGgo=" })),
+  },
+}));
+
+vi.mock("../../src/comet-ai.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/comet-ai.js")>()),
+  cometAI: {
+    getAgentStatus: vi.fn(async () => fakes.status),
+    stopAgent: vi.fn(async () => fakes.stopped),
+    getMode: vi.fn(async () => "search"),
+    setMode: vi.fn(async (mode: string) => {
+      if (mode !== "research") throw new Error(`Invalid mode: ${mode}`);
+    }),
+  },
+}));
+
+function fakeOrchestrator(): CometOrchestrator {
+  return {
+    getTaskStatus: (id: string) => id === "t1"
+      ? { id: "t1", state: "running", currentStepIndex: 1, steps: [{ toolName: "comet_ask", status: "running" }, { toolName: "comet_poll", status: "pending" }], startedAt: 1000 }
+      : null,
+    cancelTask: (id: string) => id === "t1",
+  } as unknown as CometOrchestrator;
+}
+
+describe("ToolService", () => {
+  let orchestrator: CometOrchestrator | null;
+  let service: ToolService;
+
+  beforeEach(() => {
+    orchestrator = fakeOrchestrator();
+    service = new ToolService({ orchestrator: () => orchestrator });
+    fakes.status = { status: "working", steps: ["Searching the web"], currentStep: "Reading sources", response: "", answer: null, agentBrowsingUrl: "" };
+    fakes.stopped = true;
+  });
+
+  it("returns structured data and text for the same call", async () => {
+    const stop = await service.call("comet_stop", {});
+    expect(stop.data).toEqual({ stopped: true, message: "Agent stopped" });
+    expect(stop.text).toBe("Agent stopped");
+    expect(stop.error).toBeUndefined();
+
+    const poll = await service.call("comet_poll", {});
+    expect(poll.data).toEqual({
+      status: "working",
+      steps: ["Searching the web"],
+      currentStep: "Reading sources",
+      agentBrowsingUrl: null,
+    });
+    expect(poll.text).toContain("Status: WORKING");
+    expect(poll.text).toContain("Current: Reading sources");
+  });
+
+  it("reports a completed answer the same way to every transport", async () => {
+    const answer = { markdown: "Comets are **ice**.", citations: [] as [], sources: [] as [], sourceCount: null };
+    fakes.status = { ...fakes.status, status: "completed", response: answer.markdown, answer };
+
+    const poll = await service.call("comet_poll", {});
+    expect(poll.data).toMatchObject({ status: "completed", response: "Comets are **ice**.", answer });
+    expect(poll.text).toContain("Comets are **ice**.");
+  });
+
+  it("covers delegated tasks in poll and stop", async () => {
+    const poll = await service.call("comet_poll", { task_id: "t1" });
+    expect(poll.data).toMatchObject({ task_id: "t1", state: "running", currentStepIndex: 1, steps_total: 2 });
+    expect(poll.text).toContain("State: RUNNING");
+
+    expect((await service.call("comet_stop", { task_id: "t1" })).data).toEqual({
+      task_id: "t1",
+      cancelled: true,
+      message: "Task t1 cancelled",
+    });
+    expect((await service.call("comet_stop", { task_id: "t2" })).data).toMatchObject({ task_id: "t2", cancelled: false });
+  });
+
+  it("classifies calls that did not succeed", async () => {
+    expect((await service.call("comet_poll", { task_id: "missing" })).error).toBe("not_found");
+    expect((await service.call("comet_ask", { prompt: "  " })).error).toBe("invalid");
+    expect((await service.call("comet_ask", { prompt: "hi", thread_id: "x", newChat: true })).data).toEqual({
+      error: "thread_id cannot be combined with newChat",
+    });
+    expect((await service.call("comet_mode", { mode: "turbo" })).error).toBe("invalid");
+    expect((await service.call("comet_delegate", {})).error).toBe("invalid");
+
+    orchestrator = null;
+    const noOrchestrator = await service.call("comet_monitor", {});
+    expect(noOrchestrator.error).toBe("unavailable");
+    expect(noOrchestrator.data).toEqual({ error: "Orchestrator not initialized" });
+
+    await expect(service.call("comet_nope", {})).rejects.toThrow("Unknown tool: comet_nope");
+  });
+
+  it("checks arguments against the tool's inputSchema before running it", async () => {
+    vi.mocked(cometAI.setMode).mockClear();
+
+    const injected = await service.call("comet_mode", { mode: "search'); alert(1); ('" });
+    expect(injected.error).toBe("invalid");
+    expect(injected.data.invalid_fields).toEqual([
+      { field: "mode", message: 'mode must be one of "search", "research", "labs", "learn"' },
+    ]);
+    expect(cometAI.setMode).not.toHaveBeenCalled();
+
+    const groups = await service.call("comet_tab_groups", { action: "create", tabIds: [1, "2"], collapsed: "yes" });
+    expect(groups.data.invalid_fields).toEqual([
+      { field: "tabIds[1]", message: "tabIds[1] must be a number" },
+      { field: "collapsed", message: "collapsed must be a boolean" },
+    ]);
+    expect(groups.text).toBe("Error: Invalid arguments for comet_tab_groups: tabIds[1] must be a number; collapsed must be a boolean");
+    expect(toMcpResponse(groups)).toMatchObject({ isError: true, structuredContent: { invalid_fields: expect.any(Array) } });
+
+    expect((await service.call("comet_ask", {})).data.invalid_fields).toEqual([{ field: "prompt", message: "prompt is required" }]);
+  });
+
+  it("rejects research batches it cannot run as invalid", async () => {
+    const tooMany = await service.call("comet_research_batch", { prompts: Array.from({ length: 21 }, (_, i) => `q${i}`) });
+    expect(tooMany.error).toBe("invalid");
+    expect(tooMany.data.invalid_fields).toEqual([{ field: "prompts", message: "prompts must have at most 20 item(s)" }]);
+
+    expect((await service.call("comet_research_batch", { prompts: [] })).data.invalid_fields).toEqual([
+      { field: "prompts", message: "prompts must have at least 1 item(s)" },
+    ]);
+    expect((await service.call("comet_research_batch", { prompts: ["ok", ""] })).data.invalid_fields).toEqual([
+      { field: "prompts[1]", message: "prompts[1] must be at least 1 character(s) long" },
+    ]);
+
+    // Past the schema, but nothing left once normalized
+    const blank = await service.call("comet_research_batch", { prompts: ["ok", "- "] });
+    expect(blank.error).toBe("invalid");
+    expect(blank.data).toEqual({ error: "prompts cannot be empty" });
+  });
+
+  it("switches modes and lists them", async () => {
+    const current = await service.call("comet_mode", {});
+    expect(current.data.currentMode).toBe("search");
+    expect(current.text).toContain("→ search: Basic web search");
+
+    const switched = await service.call("comet_mode", { mode: "research" });
+    expect(switched.data).toEqual({ mode: "research", message: "Switched to research mode" });
+  });
+
+  it("takes the tab lock for direct calls except poll, stop and screenshot", async () => {
+    const locked: string[] = [];
+    const lockedService = new ToolService({
+      orchestrator: () => orchestrator,
+      withTabLock: async (name, _params, fn) => {
+        locked.push(name);
+        return fn();
+      },
+    });
+    await lockedService.call("comet_mode", {});
+    await lockedService.call("comet_stop", {});
+    await lockedService.call("comet_poll", {});
+    expect(locked).toEqual(["comet_mode"]);
+
+    await lockedService.runStep("comet_mode", {});
+    expect(locked).toEqual(["comet_mode"]);
+  });
+
+  it("throws from runStep when a call did not succeed, for the tool router", async () => {
+    await expect(service.runStep("comet_ask", { prompt: "" })).rejects.toThrow("prompt cannot be empty");
+    const response = await service.runStep("comet_stop", {});
+    expect(response.structuredContent).toEqual({ stopped: true, message: "Agent stopped" });
+  });
+});
+
+describe("toMcpResponse", () => {
+  it("maps text, structured data and errors", () => {
+    expect(toMcpResponse({ data: { stopped: false }, text: "No active agent to stop" })).toEqual({
+      content: [{ type: "text", text: "No active agent to stop" }],
+      structuredContent: { stopped: false },
+    });
+    expect(toMcpResponse({ data: { error: "bad" }, text: "Error: bad", error: "invalid" })).toEqual({
+      content: [{ type: "text", text: "Error: bad" }],
+      structuredContent: { error: "bad" },
+      isError: true,
+    });
+  });
+
+  it("sends screenshots as image content", async () => {
+    const output = await new ToolService({ orchestrator: () => null }).call("comet_screenshot", {});
+    expect(output.data).toEqual({ data: "iVBORw0KGgo=", mimeType: "image/png" });
+    expect(toMcpResponse(output)).toEqual({
+      content: [{ type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" }],
+    });
+  });
+});